@@ -1,10 +1,19 @@
 // ResumeForge AI – Background Service Worker (Manifest V3)
 import { aiService } from './services/ai-service';
+import { generationJobManager, JOB_PORT_NAME } from './services/generation-job-service';
+import { resumeVersionService } from './services/resume-version-service';
 
 // Initialize AI service on startup
 aiService.init();
+generationJobManager.restore();
+
+// In-flight proxied generations, keyed by the requestId sent from the panel
+const proxyControllers = new Map<string, AbortController>();
+
+chrome.runtime.onInstalled.addListener((details) => {
+    // Move history saved before resume versions existed into the version store
+    if (details.reason === 'update') resumeVersionService.getAll().catch(console.error);
 
-chrome.runtime.onInstalled.addListener(() => {
     // Enable side panel on action click
     chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true }).catch(console.error);
 
@@ -158,18 +167,37 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         return true;
     }
     if (message.type === 'GEMINI_GENERATE_PROXY') {
-        aiService.generateContentInternal(message.prompt)
+        const controller = new AbortController();
+        if (message.requestId) proxyControllers.set(message.requestId, controller);
+
+        aiService.generateContentInternal(message.prompt, controller.signal)
             .then((text: string) => sendResponse({ text }))
-            .catch((error: any) => sendResponse({ error: error.message }));
+            .catch((error: any) => sendResponse(
+                controller.signal.aborted ? { aborted: true } : { error: error.message }
+            ))
+            .finally(() => proxyControllers.delete(message.requestId));
         return true;
     }
+
+    if (message.type === 'GEMINI_GENERATE_ABORT') {
+        proxyControllers.get(message.requestId)?.abort();
+        proxyControllers.delete(message.requestId);
+        return false;
+    }
+});
+
+// Long-lived generation jobs – panels connect to stream tokens and reattach
+chrome.runtime.onConnect.addListener((port) => {
+    if (port.name === JOB_PORT_NAME) {
+        generationJobManager.attach(port);
+    }
 });
 
 // Sync settings changes to re-initialize AI service
 chrome.storage.onChanged.addListener((changes, area) => {
     if (area === 'local' && changes.settings) {
         console.log('[ResumeForge] Settings changed, re-initializing AI service');
-        aiService.init();
+        aiService.reload();
     }
 });
 
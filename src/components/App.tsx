@@ -1,23 +1,34 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { LandingPage } from './LandingPage';
 import { ChatInterface } from './ChatInterface';
 import { ResumeUpload } from './ResumeUpload';
 import { ResumePreview } from './ResumePreview';
+import { ChangelogPanel } from './ChangelogPanel';
 import { EmailTab } from './EmailTab';
 import { AutofillTab } from './AutofillTab';
 import { ApplicationsTab } from './ApplicationsTab';
 import { SettingsPanel } from './SettingsPanel';
 import { ErrorBoundary } from './ErrorBoundary';
+import { ProgressCard } from './ProgressCard';
+import { PipelineInspector } from './PipelineInspector';
+import { TailoringControls } from './TailoringControls';
+import { ResumeLibrary } from './ResumeLibrary';
+import { ResumeHistoryPanel } from './ResumeHistoryPanel';
 import { Button } from './ui/button';
 import { Textarea, Tabs, TabsList, TabsTrigger, TabsContent, Toast } from './ui/index';
-import { storageService, type AppState, type ChatMessage, type ChatSession } from '@/services/storage-service';
+import { storageService, type AppState, type BaseResume, type ChatMessage, type ChatSession } from '@/services/storage-service';
 import { aiService, type MultiAgentProgress } from '@/services/ai-service';
 import { knowledgeBaseService } from '@/services/knowledge-base-service';
+import { resumeVersionService, type ResumeVersion } from '@/services/resume-version-service';
+import { generationJobClient, type GenerationJob } from '@/services/generation-job-service';
+import { buildTailoringPipeline, countPipelineSteps, type PipelineStepState } from '@/services/tailoring-pipeline';
+import { rankBaseResumes, scoreResumeMatch } from '@/lib/resume-ranking';
+import type { TailoringChangelog } from '@/lib/tailoring-changelog';
 import { cn, generateId } from '@/lib/utils';
 import {
   MessageSquare, FileText, Mail, Settings, Eye, EyeOff,
   PanelRightOpen, PanelRightClose, ChevronLeft, Sparkles,
-  Loader2, Zap, Menu, X, Briefcase,
+  Loader2, Zap, Menu, X, Briefcase, StopCircle, AlertCircle, RotateCcw, History,
 } from 'lucide-react';
 
 type View = 'landing' | 'main' | 'settings';
@@ -27,14 +38,24 @@ function AppContent() {
   const [activeTab, setActiveTab] = useState('resume');
   const [resumeLatex, setResumeLatex] = useState('');
   const [tailoredLatex, setTailoredLatex] = useState('');
+  // Why the tailored resume differs from the original; cleared by chat rewrites
+  const [changelog, setChangelog] = useState<TailoringChangelog | null>(null);
   const [jobDescription, setJobDescription] = useState('');
   const [resumeFileName, setResumeFileName] = useState('');
+  // Library entry the loaded resume came from, if any
+  const [baseResumeId, setBaseResumeId] = useState<string | null>(null);
   const [knowledgeBase, setKnowledgeBase] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [sessionId, setSessionId] = useState(generateId());
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   const [multiAgentProgress, setMultiAgentProgress] = useState<MultiAgentProgress | null>(null);
+  const [pipelineSteps, setPipelineSteps] = useState<PipelineStepState[]>([]);
+  const [resumableRun, setResumableRun] = useState<{ job: GenerationJob; failedStep?: string } | null>(null);
+  const tailorJobIdRef = useRef<string | null>(null);
+  // Version of the tailored resume on screen, updated by manual edits
+  const versionIdRef = useRef<string | null>(null);
+  const editSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // ─── Init ── check onboarding state & apply theme ─────────
   useEffect(() => {
@@ -48,6 +69,13 @@ function AppContent() {
       if (appState.isOnboarded) {
         await aiService.init();
         setView('main');
+        const library = await storageService.getResumeLibrary();
+        const base = library.resumes.find((r) => r.id === library.defaultId);
+        if (base) {
+          setResumeLatex(base.latex);
+          setResumeFileName(base.fileName || base.name);
+          setBaseResumeId(base.id);
+        }
         const kbText = await knowledgeBaseService.buildKnowledgeBaseText();
         setKnowledgeBase(kbText);
       }
@@ -64,35 +92,113 @@ function AppContent() {
   const handleResumeUpload = (content: string, fileName: string) => {
     setResumeLatex(content);
     setResumeFileName(fileName);
+    setBaseResumeId(null);
+    versionIdRef.current = null;
     setToast({ message: `Loaded ${fileName}`, type: 'success' });
   };
 
+  const handleBaseResumeSelect = (base: BaseResume) => {
+    setResumeLatex(base.latex);
+    setResumeFileName(base.fileName || base.name);
+    setBaseResumeId(base.id);
+    versionIdRef.current = null;
+    setToast({ message: `Using base resume "${base.name}"`, type: 'success' });
+  };
+
+  const handleVersionRestore = (version: ResumeVersion, parent: ResumeVersion | null) => {
+    if (version.kind === 'tailored') {
+      if (parent) setResumeLatex(parent.latex);
+      setTailoredLatex(version.latex);
+      setChangelog(version.changelog ?? null);
+      setShowPreview(true);
+      versionIdRef.current = version.id;
+    } else {
+      setResumeLatex(version.latex);
+      setTailoredLatex('');
+      setChangelog(null);
+      versionIdRef.current = null;
+    }
+    if (version.jobDescription) setJobDescription(version.jobDescription);
+    setResumeFileName(version.label);
+    setBaseResumeId(null);
+    setToast({ message: `Restored "${version.label}"`, type: 'success' });
+  };
+
   const handleLatexUpdate = useCallback((latex: string) => {
     setTailoredLatex(latex);
+    setChangelog(null);
     setShowPreview(true);
   }, []);
 
-  const handleQuickTailor = async () => {
-    if (!resumeLatex || !jobDescription) {
-      setToast({ message: 'Upload resume and paste JD first', type: 'error' });
+  // ─── Manual LaTeX edits ─────────────────────────────────────
+  // Edits from the preview editor are saved (debounced) to the chat session
+  // and to both the tailored version being edited and its original
+  const saveEdits = async (edited: { resumeLatex: string; tailoredLatex: string }) => {
+    const now = Date.now();
+    const existing = (await storageService.getChatSessions()).find((s) => s.id === sessionId);
+    const session: ChatSession = {
+      id: sessionId,
+      title: existing?.title || resumeFileName || 'Resume',
+      messages,
+      jobDescription,
+      ...edited,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await storageService.saveChatSession(session);
+    if (versionIdRef.current) {
+      await resumeVersionService.saveEdits(versionIdRef.current, edited.tailoredLatex, edited.resumeLatex);
+    }
+  };
+
+  const handleLatexEdit = (target: 'original' | 'tailored', latex: string) => {
+    const edited = {
+      resumeLatex: target === 'original' ? latex : resumeLatex,
+      tailoredLatex: target === 'tailored' ? latex : tailoredLatex,
+    };
+    if (target === 'original') setResumeLatex(latex);
+    else setTailoredLatex(latex);
+
+    if (editSaveTimerRef.current) clearTimeout(editSaveTimerRef.current);
+    editSaveTimerRef.current = setTimeout(() => {
+      saveEdits(edited).catch((err) => console.error('Failed to save edits:', err));
+    }, 800);
+  };
+
+  // ─── Background tailoring jobs ──────────────────────────────
+  // Tailoring runs in the service worker so closing the panel doesn't lose it.
+  // On (re)open we reattach to a running job or pick up a finished one.
+  const handledJobsRef = useRef(new Set<string>());
+
+  const handleTailorJob = (job: GenerationJob) => {
+    if (job.request.kind !== 'tailor' || handledJobsRef.current.has(job.id)) return;
+    const request = job.request;
+    if (job.progress?.steps) setPipelineSteps(job.progress.steps);
+
+    if (job.status === 'running') {
+      tailorJobIdRef.current = job.id;
+      setResumableRun(null);
+      setMultiAgentProgress(job.progress || { step: 0, totalSteps: 1, message: 'Starting...' });
+      // Restore inputs if the panel was reopened mid-run
+      setResumeLatex((prev) => prev || request.resumeLatex);
+      setJobDescription((prev) => prev || request.jobDescription);
       return;
     }
 
-    const settings = await storageService.getSettings();
+    handledJobsRef.current.add(job.id);
+    generationJobClient.dismiss(job.id);
+    if (tailorJobIdRef.current === job.id) tailorJobIdRef.current = null;
+    setMultiAgentProgress(null);
 
-    if (settings.multiAgentMode) {
-      setMultiAgentProgress({ step: 0, totalSteps: 5, message: 'Starting...' });
-      try {
-        const result = await aiService.generateTailoredResumeMultiAgent(
-          resumeLatex,
-          jobDescription,
-          knowledgeBase,
-          (progress) => setMultiAgentProgress(progress)
-        );
-        setTailoredLatex(result);
-        setShowPreview(true);
-        setToast({ message: 'Resume tailored successfully!', type: 'success' });
+    if (job.status === 'completed' && job.result) {
+      setResumeLatex((prev) => prev || request.resumeLatex);
+      setJobDescription((prev) => prev || request.jobDescription);
+      setTailoredLatex(job.result);
+      setChangelog(job.changelog ?? null);
+      setShowPreview(true);
+      setToast({ message: request.multiAgent ? 'Resume tailored successfully!' : 'Resume tailored!', type: 'success' });
 
+      if (request.multiAgent) {
         // Auto-add a system message to chat
         const sysMsg: ChatMessage = {
           id: generateId(),
@@ -101,41 +207,97 @@ function AppContent() {
           timestamp: Date.now(),
         };
         setMessages((prev) => [...prev, sysMsg]);
-      } catch (err: any) {
-        setToast({ message: err.message, type: 'error' });
-      } finally {
-        setMultiAgentProgress(null);
       }
+
+      // Save as a new version of the resume it was tailored from
+      versionIdRef.current = null;
+      resumeVersionService
+        .saveTailored({
+          originalLatex: request.resumeLatex,
+          latex: job.result,
+          jobDescription: request.jobDescription,
+          changelog: job.changelog,
+          fitReport: job.fitReport,
+        })
+        .then((version) => { versionIdRef.current = version.id; });
+      setResumableRun(null);
+    } else if (job.status === 'cancelled') {
+      setToast({ message: 'Tailoring cancelled', type: 'info' });
     } else {
-      setMultiAgentProgress({ step: 1, totalSteps: 1, message: 'Tailoring resume...' });
-      try {
-        const result = await aiService.generateTailoredResume(
-          resumeLatex,
-          jobDescription,
-          knowledgeBase
-        );
-        setTailoredLatex(result);
-        setShowPreview(true);
-        setToast({ message: 'Resume tailored!', type: 'success' });
-      } catch (err: any) {
-        setToast({ message: err.message, type: 'error' });
-      } finally {
-        setMultiAgentProgress(null);
+      setToast({ message: job.error || 'Tailoring failed', type: 'error' });
+      // Checkpointed runs can pick up from the step that failed
+      if (job.progress?.runId) {
+        const failed = job.progress.steps?.find((s) => s.status === 'failed' || s.status === 'running');
+        setResumableRun({ job, failedStep: failed?.label });
       }
     }
+  };
 
-    // Save to history
-    await storageService.addResumeHistory({
-      id: generateId(),
-      company: 'Application',
-      position: '',
-      originalLatex: resumeLatex,
-      tailoredLatex: tailoredLatex,
+  useEffect(() => {
+    if (view !== 'main') return;
+    const unsubscribe = generationJobClient.subscribe((event) => {
+      if (event.type === 'JOB_LIST') event.jobs.forEach(handleTailorJob);
+      if (event.type === 'JOB_UPDATE') handleTailorJob(event.job);
+    });
+    generationJobClient.refresh();
+    return unsubscribe;
+  }, [view]);
+
+  const handleQuickTailor = async () => {
+    if (!resumeLatex || !jobDescription) {
+      setToast({ message: 'Upload resume and paste JD first', type: 'error' });
+      return;
+    }
+
+    // Offer the library's closest base before spending a tailoring run
+    let baseLatex = resumeLatex;
+    const [best] = rankBaseResumes((await storageService.getResumeLibrary()).resumes, jobDescription);
+    if (best && best.resume.id !== baseResumeId && best.resume.latex !== resumeLatex) {
+      const current = scoreResumeMatch(resumeLatex, jobDescription).score;
+      if (
+        best.score > current &&
+        confirm(`"${best.resume.name}" matches this job better (${best.score}% vs ${current}%). Tailor from it instead?`)
+      ) {
+        handleBaseResumeSelect(best.resume);
+        baseLatex = best.resume.latex;
+      }
+    }
+
+    const settings = await storageService.getSettings();
+    setPipelineSteps([]);
+    setMultiAgentProgress({
+      step: 0,
+      totalSteps: settings.multiAgentMode ? countPipelineSteps(buildTailoringPipeline(settings)) : 1,
+      message: 'Starting...',
+    });
+    tailorJobIdRef.current = generationJobClient.start({
+      kind: 'tailor',
+      resumeLatex: baseLatex,
       jobDescription,
-      createdAt: Date.now(),
+      knowledgeBase,
+      multiAgent: settings.multiAgentMode,
+    });
+  };
+
+  const handleResumeTailor = () => {
+    const job = resumableRun?.job;
+    if (!job || job.request.kind !== 'tailor') return;
+    setResumableRun(null);
+    setMultiAgentProgress({
+      step: 0,
+      totalSteps: job.progress?.totalSteps || 1,
+      message: 'Restoring checkpoint...',
+    });
+    tailorJobIdRef.current = generationJobClient.start({
+      ...job.request,
+      resumeRunId: job.progress?.runId,
     });
   };
 
+  const handleCancelTailor = () => {
+    if (tailorJobIdRef.current) generationJobClient.cancel(tailorJobIdRef.current);
+  };
+
   // ─── Landing ───────────────────────────────────────────────
   if (view === 'landing') {
     return <LandingPage onComplete={handleOnboardingComplete} />;
@@ -183,7 +345,14 @@ function AppContent() {
         <div className="px-4 py-2 bg-primary/5 border-b border-primary/10">
           <div className="flex items-center gap-2 mb-1">
             <Loader2 className="w-3 h-3 animate-spin text-primary" />
-            <span className="text-xs font-medium">{multiAgentProgress.message}</span>
+            <span className="text-xs font-medium flex-1">{multiAgentProgress.message}</span>
+            <button
+              onClick={handleCancelTailor}
+              className="p-0.5 rounded text-muted-foreground hover:text-destructive transition-colors"
+              title="Stop tailoring"
+            >
+              <StopCircle className="w-3.5 h-3.5" />
+            </button>
           </div>
           <div className="h-1.5 rounded-full bg-muted overflow-hidden">
             <div
@@ -213,6 +382,9 @@ function AppContent() {
             <TabsTrigger value="applications">
               <Briefcase className="w-3.5 h-3.5 mr-1" /> Applications
             </TabsTrigger>
+            <TabsTrigger value="history">
+              <History className="w-3.5 h-3.5 mr-1" /> History
+            </TabsTrigger>
           </TabsList>
         </Tabs>
       </div>
@@ -229,6 +401,15 @@ function AppContent() {
                 currentFileName={resumeFileName}
               />
 
+              {/* Base Resume Library */}
+              <ResumeLibrary
+                resumeLatex={resumeLatex}
+                resumeFileName={resumeFileName}
+                jobDescription={jobDescription}
+                activeId={baseResumeId}
+                onSelect={handleBaseResumeSelect}
+              />
+
               {/* Job Description */}
               <div className="space-y-2">
                 <label className="text-xs font-semibold flex items-center gap-1.5">
@@ -243,6 +424,9 @@ function AppContent() {
                 />
               </div>
 
+              {/* Intensity & Section Locks */}
+              <TailoringControls resumeLatex={resumeLatex} />
+
               {/* Quick Tailor Button */}
               <Button
                 onClick={handleQuickTailor}
@@ -263,6 +447,52 @@ function AppContent() {
                   </>
                 )}
               </Button>
+
+              {multiAgentProgress && multiAgentProgress.totalSteps > 1 && (
+                <ProgressCard
+                  title="Tailoring Resume"
+                  message={multiAgentProgress.message}
+                  currentStep={multiAgentProgress.step}
+                  steps={multiAgentProgress.steps
+                    ? multiAgentProgress.steps.map((step) => ({
+                      name: step.label,
+                      description: step.restored ? 'Restored from checkpoint' : undefined,
+                      status: step.status === 'completed' || step.status === 'skipped'
+                        ? 'complete'
+                        : step.status === 'running' ? 'in-progress'
+                          : step.status === 'failed' ? 'error' : 'pending',
+                    }))
+                    : Array.from({ length: multiAgentProgress.totalSteps }, (_, i) => ({
+                      name: i + 1 === multiAgentProgress.step ? multiAgentProgress.message : `Step ${i + 1}`,
+                      status: i + 1 < multiAgentProgress.step
+                        ? 'complete'
+                        : i + 1 === multiAgentProgress.step ? 'in-progress' : 'pending',
+                    }))}
+                  onCancel={handleCancelTailor}
+                />
+              )}
+
+              {resumableRun && !multiAgentProgress && (
+                <div className="flex items-center gap-2 p-3 rounded-lg border border-destructive/30 bg-destructive/5">
+                  <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+                  <p className="text-xs flex-1">
+                    Tailoring stopped{resumableRun.failedStep ? ` at "${resumableRun.failedStep}"` : ''}. Finished steps were saved.
+                  </p>
+                  <Button size="sm" variant="outline" onClick={handleResumeTailor} className="h-7 text-xs">
+                    <RotateCcw className="w-3 h-3" />
+                    Retry step
+                  </Button>
+                  <button
+                    onClick={() => setResumableRun(null)}
+                    className="text-muted-foreground hover:text-foreground"
+                    title="Dismiss"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+
+              {pipelineSteps.length > 0 && <PipelineInspector steps={pipelineSteps} />}
             </div>
           )}
 
@@ -274,6 +504,8 @@ function AppContent() {
               onLatexUpdate={handleLatexUpdate}
               messages={messages}
               onMessagesChange={setMessages}
+              sessionId={sessionId}
+              onSessionChange={setSessionId}
             />
           )}
 
@@ -299,15 +531,23 @@ function AppContent() {
               }}
             />
           )}
+
+          {activeTab === 'history' && <ResumeHistoryPanel onRestore={handleVersionRestore} />}
         </div>
 
         {/* Right Panel – Preview */}
         {showPreview && (
-          <div className="w-1/2 border-l border-border">
-            <ResumePreview
-              originalLatex={resumeLatex}
-              tailoredLatex={tailoredLatex}
-            />
+          <div className="w-1/2 flex flex-col border-l border-border">
+            <div className="flex-1 min-h-0">
+              <ResumePreview
+                originalLatex={resumeLatex}
+                tailoredLatex={tailoredLatex}
+                knowledgeBase={knowledgeBase}
+                jobDescription={jobDescription}
+                onLatexChange={handleLatexEdit}
+              />
+            </div>
+            {changelog && tailoredLatex && <ChangelogPanel changelog={changelog} />}
           </div>
         )}
       </div>
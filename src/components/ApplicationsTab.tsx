@@ -5,9 +5,12 @@ import { applicationTrackingService, type JobApplication } from '@/services/appl
 import { coldOutreachService } from '@/services/cold-outreach-service';
 import { contactService } from '@/services/contact-service';
 import { labelAnalysisService } from '@/services/label-analysis-service';
+import { resumeVersionService, type ResumeVersion } from '@/services/resume-version-service';
+import { aiService } from '@/services/ai-service';
 import { ApplicationTracker } from './ApplicationTracker';
 import { ColdOutreachBuilder } from './ColdOutreachBuilder';
-import { X, ChevronRight, Plus, Mail, MessageSquare, Users, BarChart3, Calendar } from 'lucide-react';
+import { FitReportCard } from './FitReportCard';
+import { X, ChevronRight, Plus, Mail, MessageSquare, Users, BarChart3, Calendar, FileText, Target } from 'lucide-react';
 
 type TabView = 'dashboard' | 'add' | 'details' | 'outreach' | 'contacts' | 'analytics';
 
@@ -19,6 +22,8 @@ export function ApplicationsTab({ onApplicationTracked }: ApplicationsTabProps)
   const [view, setView] = useState<TabView>('dashboard');
   const [selectedAppId, setSelectedAppId] = useState<string>('');
   const [selectedApp, setSelectedApp] = useState<JobApplication | null>(null);
+  const [linkedVersions, setLinkedVersions] = useState<ResumeVersion[]>([]);
+  const [isAnalyzingFit, setIsAnalyzingFit] = useState(false);
   const [formData, setFormData] = useState<Partial<JobApplication>>({
     status: 'applied',
   });
@@ -27,6 +32,7 @@ export function ApplicationsTab({ onApplicationTracked }: ApplicationsTabProps)
     const app = await applicationTrackingService.getApplication(appId);
     setSelectedApp(app);
     setSelectedAppId(appId);
+    setLinkedVersions(await resumeVersionService.getForApplication(appId));
     setView('details');
   };
 
@@ -110,6 +116,25 @@ export function ApplicationsTab({ onApplicationTracked }: ApplicationsTabProps)
     }
   };
 
+  // Applications linked before fit reports existed, or to an untailored
+  // resume, are scored against the job description of a linked version
+  const fitVersion = linkedVersions.find((v) => v.jobDescription.trim());
+
+  const handleAnalyzeFit = async () => {
+    if (!selectedAppId || !fitVersion) return;
+
+    setIsAnalyzingFit(true);
+    try {
+      const fitReport = await aiService.generateFitReport(fitVersion.latex, fitVersion.jobDescription);
+      setSelectedApp(await applicationTrackingService.updateApplication(selectedAppId, { fitReport }));
+    } catch (error) {
+      console.error('[v0] Error analyzing job fit:', error);
+      alert('Failed to analyze job fit');
+    } finally {
+      setIsAnalyzingFit(false);
+    }
+  };
+
   return (
     <div className="space-y-4">
       {/* Navigation Tabs */}
@@ -359,6 +384,27 @@ export function ApplicationsTab({ onApplicationTracked }: ApplicationsTabProps)
                 </div>
               </div>
 
+              {/* Job Fit */}
+              <div className="border-t border-border pt-4">
+                <p className="text-xs font-medium text-muted-foreground mb-2">Job Fit</p>
+                {selectedApp.fitReport ? (
+                  <FitReportCard report={selectedApp.fitReport} />
+                ) : fitVersion ? (
+                  <Button
+                    onClick={handleAnalyzeFit}
+                    disabled={isAnalyzingFit}
+                    size="sm"
+                    variant="outline"
+                    className="text-xs"
+                  >
+                    <Target className="w-3.5 h-3.5 mr-1" />
+                    {isAnalyzingFit ? 'Analyzing...' : `Analyze fit of ${fitVersion.label}`}
+                  </Button>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Link a tailored resume version to see how it fits this job.</p>
+                )}
+              </div>
+
               {/* Application Info */}
               <div className="border-t border-border pt-4 space-y-2 text-xs">
                 <div className="flex justify-between">
@@ -389,6 +435,20 @@ export function ApplicationsTab({ onApplicationTracked }: ApplicationsTabProps)
                     <p className="bg-muted/30 p-2 rounded">{selectedApp.notes}</p>
                   </div>
                 )}
+                <div className="pt-2">
+                  <p className="text-muted-foreground mb-1">Resume Versions:</p>
+                  {linkedVersions.length === 0 ? (
+                    <p className="text-muted-foreground">None linked yet. Link one from the History tab.</p>
+                  ) : (
+                    linkedVersions.map((version) => (
+                      <div key={version.id} className="flex items-center gap-1.5 py-0.5">
+                        <FileText className="w-3 h-3 text-primary" />
+                        <span className="flex-1 truncate">{version.label}</span>
+                        <span className="text-muted-foreground">{new Date(version.createdAt).toLocaleDateString()}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileText, Github, Linkedin, NotebookPen, ScrollText, Target } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ChangelogSourceType, TailoringChangelog } from '@/lib/tailoring-changelog';
+
+interface ChangelogPanelProps {
+  changelog: TailoringChangelog;
+}
+
+export const SOURCE_ICONS: Record<ChangelogSourceType, typeof Github> = {
+  github: Github,
+  linkedin: Linkedin,
+  manual: NotebookPen,
+  resume: FileText,
+};
+
+// Every change the tailoring made, the job requirement it targets and where
+// the new content came from, so it can be judged for honesty and relevance
+export function ChangelogPanel({ changelog }: ChangelogPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const { entries } = changelog;
+  const unsourced = entries.filter((e) => !e.source && e.after).length;
+
+  return (
+    <div className="border-t border-border">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs font-medium hover:bg-accent/50 transition-colors"
+      >
+        <ScrollText className="w-3.5 h-3.5 text-primary" />
+        <span className="flex-1 text-left">Changelog</span>
+        <span className="text-[10px] text-muted-foreground">
+          {entries.length} change{entries.length === 1 ? '' : 's'}
+          {unsourced > 0 && <span className="text-amber-600 dark:text-amber-400"> · {unsourced} without a source</span>}
+        </span>
+        {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+      </button>
+
+      {open && (
+        <div className="max-h-[40vh] overflow-y-auto border-t border-border divide-y divide-border">
+          {entries.length === 0 && (
+            <p className="px-3 py-2 text-[10px] text-muted-foreground">The tailored text matches the original</p>
+          )}
+          {entries.map((entry, index) => {
+            const isExpanded = expanded === index;
+            const SourceIcon = entry.source ? SOURCE_ICONS[entry.source.type] : null;
+            return (
+              <div key={index}>
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : index)}
+                  className="w-full flex items-start gap-2 px-3 py-2 text-xs text-left hover:bg-accent/30 transition-colors"
+                >
+                  <span className="px-1.5 py-0.5 rounded bg-muted text-[9px] uppercase tracking-wide shrink-0">
+                    {entry.section}
+                  </span>
+                  <span className="flex-1 min-w-0 space-y-0.5">
+                    <span className="block">{entry.summary}</span>
+                    {entry.requirement && (
+                      <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                        <Target className="w-3 h-3 shrink-0" />
+                        <span className="truncate">{entry.requirement}</span>
+                      </span>
+                    )}
+                  </span>
+                  <span
+                    className={cn(
+                      'flex items-center gap-1 text-[10px] shrink-0 max-w-[35%]',
+                      entry.source ? 'text-muted-foreground' : entry.after && 'text-amber-600 dark:text-amber-400'
+                    )}
+                    title={entry.source?.detail}
+                  >
+                    {SourceIcon && <SourceIcon className="w-3 h-3 shrink-0" />}
+                    <span className="truncate">{entry.source ? entry.source.name : entry.after ? 'No source' : ''}</span>
+                  </span>
+                  {isExpanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                </button>
+
+                {isExpanded && (
+                  <div className="px-3 pb-3 space-y-1 text-[10px]">
+                    {entry.before && (
+                      <p className="p-1.5 rounded bg-red-500/15 text-red-600 dark:text-red-400 line-through">
+                        {entry.before}
+                      </p>
+                    )}
+                    {entry.after && (
+                      <p className="p-1.5 rounded bg-green-500/15 text-green-700 dark:text-green-400">{entry.after}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,10 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from './ui/button';
 import { Textarea } from './ui/index';
 import { aiService } from '@/services/ai-service';
+import { generationJobClient, type GenerationJob } from '@/services/generation-job-service';
 import { cn, generateId } from '@/lib/utils';
-import { Send, Sparkles, User, Bot, Loader2, StopCircle, Copy, Check } from 'lucide-react';
-import type { ChatMessage } from '@/services/storage-service';
+import { Send, Sparkles, User, Bot, StopCircle, Copy, Check } from 'lucide-react';
+import { storageService, type ChatMessage } from '@/services/storage-service';
 
 interface ChatInterfaceProps {
   resumeLatex: string;
@@ -13,6 +14,30 @@ interface ChatInterfaceProps {
   onLatexUpdate: (latex: string) => void;
   messages: ChatMessage[];
   onMessagesChange: (messages: ChatMessage[]) => void;
+  sessionId: string;
+  // Called when an empty panel picks up a reply from another session
+  onSessionChange: (sessionId: string) => void;
+}
+
+// The assistant message a finished chat job adds; null while it has nothing to show
+function replyFromJob(job: GenerationJob): ChatMessage | null {
+  let content: string | null = null;
+  if (job.status === 'completed') {
+    content = job.result || '';
+  } else if ((job.status === 'cancelled' || job.status === 'interrupted') && job.partialText) {
+    content = `${job.partialText}\n\n_(stopped)_`;
+  } else if (job.status === 'failed' || job.status === 'interrupted') {
+    content = `❌ Error: ${job.error}. Please check your API key and try again.`;
+  }
+  return content === null ? null : { id: generateId(), role: 'assistant', content, timestamp: Date.now() };
+}
+
+// A reply for a session that is no longer open goes into its saved history;
+// a session that was never saved has nowhere to put it
+async function saveReplyToSession(sessionId: string, sent: ChatMessage[], job: GenerationJob): Promise<void> {
+  const session = (await storageService.getChatSessions()).find((s) => s.id === sessionId);
+  const reply = replyFromJob(job);
+  if (session && reply) await storageService.saveChatSession({ ...session, messages: [...sent, reply] });
 }
 
 export function ChatInterface({
@@ -22,12 +47,99 @@ export function ChatInterface({
   onLatexUpdate,
   messages,
   onMessagesChange,
+  sessionId,
+  onSessionChange,
 }: ChatInterfaceProps) {
   const [input, setInput] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingText, setStreamingText] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const jobIdRef = useRef<string | null>(null);
+  const handledJobsRef = useRef(new Set<string>());
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+
+  const applyLatexFromResponse = useCallback((fullText: string) => {
+    // Check if response contains LaTeX code and update preview
+    const latexMatch = fullText.match(/```latex\n([\s\S]*?)```/);
+    if (latexMatch) {
+      onLatexUpdate(latexMatch[1].trim());
+    } else if (
+      fullText.includes('\\documentclass') &&
+      fullText.includes('\\begin{document}')
+    ) {
+      // Full LaTeX document in response
+      const cleaned = fullText
+        .replace(/```latex\n?/g, '')
+        .replace(/```\n?/g, '')
+        .trim();
+      if (cleaned.includes('\\documentclass')) {
+        onLatexUpdate(cleaned);
+      }
+    }
+  }, [onLatexUpdate]);
+
+  // Chat replies run as background jobs so they survive the panel closing.
+  // On mount this reattaches to a running reply or picks up a finished one.
+  // A reply for another session only takes over an empty panel; otherwise it
+  // is saved to its own session.
+  const handleChatJob = useCallback((job: GenerationJob) => {
+    if (job.request.kind !== 'chat' || handledJobsRef.current.has(job.id)) return;
+    if (jobIdRef.current && jobIdRef.current !== job.id) return;
+
+    const { chatMessages: sent, sessionId: jobSessionId } = job.request;
+    const ownSession = jobSessionId === sessionIdRef.current;
+    if (!ownSession && messagesRef.current.length > 0) {
+      if (job.status !== 'running') {
+        handledJobsRef.current.add(job.id);
+        saveReplyToSession(jobSessionId, sent, job).finally(() => generationJobClient.dismiss(job.id));
+      }
+      return;
+    }
+    if (!ownSession) {
+      sessionIdRef.current = jobSessionId;
+      onSessionChange(jobSessionId);
+    }
+
+    if (job.status === 'running') {
+      if (!jobIdRef.current) {
+        jobIdRef.current = job.id;
+        if (messagesRef.current.length === 0) onMessagesChange(sent);
+        setStreamingText(job.partialText);
+      }
+      setIsStreaming(true);
+      return;
+    }
+
+    const reply = replyFromJob(job);
+    if (reply !== null) {
+      onMessagesChange([...sent, reply]);
+      if (job.status === 'completed') applyLatexFromResponse(reply.content);
+    }
+
+    handledJobsRef.current.add(job.id);
+    jobIdRef.current = null;
+    setIsStreaming(false);
+    setStreamingText('');
+    generationJobClient.dismiss(job.id);
+  }, [onMessagesChange, onSessionChange, applyLatexFromResponse]);
+
+  useEffect(() => {
+    const unsubscribe = generationJobClient.subscribe((event) => {
+      if (event.type === 'JOB_UPDATE') {
+        handleChatJob(event.job);
+      } else if (event.type === 'JOB_LIST') {
+        event.jobs.forEach(handleChatJob);
+      } else if (event.type === 'JOB_TOKEN' && event.jobId === jobIdRef.current) {
+        setStreamingText((prev) => prev + event.token);
+      }
+    });
+    generationJobClient.refresh();
+    return unsubscribe;
+  }, [handleChatJob]);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -45,7 +157,7 @@ export function ChatInterface({
     'Make my skills section more ATS-friendly',
   ];
 
-  const handleSend = async () => {
+  const handleSend = () => {
     if (!input.trim() || isStreaming) return;
     if (!aiService.isConfigured()) return;
 
@@ -62,69 +174,22 @@ export function ChatInterface({
     setIsStreaming(true);
     setStreamingText('');
 
-    try {
-      const systemPrompt = aiService.buildChatSystemPrompt(
-        resumeLatex,
-        jobDescription,
-        knowledgeBase
-      );
+    const systemPrompt = aiService.buildChatSystemPrompt(
+      resumeLatex,
+      jobDescription,
+      knowledgeBase
+    );
 
-      // Build Gemini chat history
-      const history = newMessages.map((m) => ({
-        role: m.role === 'user' ? ('user' as const) : ('model' as const),
-        parts: [{ text: m.content }],
-      }));
-
-      await aiService.streamChat(history, systemPrompt, {
-        onToken: (token) => {
-          setStreamingText((prev) => prev + token);
-        },
-        onComplete: (fullText) => {
-          const assistantMessage: ChatMessage = {
-            id: generateId(),
-            role: 'assistant',
-            content: fullText,
-            timestamp: Date.now(),
-          };
-          const updated = [...newMessages, assistantMessage];
-          onMessagesChange(updated);
-          setStreamingText('');
-          setIsStreaming(false);
-
-          // Check if response contains LaTeX code and update preview
-          const latexMatch = fullText.match(/```latex\n([\s\S]*?)```/);
-          if (latexMatch) {
-            onLatexUpdate(latexMatch[1].trim());
-          } else if (
-            fullText.includes('\\documentclass') &&
-            fullText.includes('\\begin{document}')
-          ) {
-            // Full LaTeX document in response
-            const cleaned = fullText
-              .replace(/```latex\n?/g, '')
-              .replace(/```\n?/g, '')
-              .trim();
-            if (cleaned.includes('\\documentclass')) {
-              onLatexUpdate(cleaned);
-            }
-          }
-        },
-        onError: (error) => {
-          const errorMessage: ChatMessage = {
-            id: generateId(),
-            role: 'assistant',
-            content: `❌ Error: ${error.message}. Please check your API key and try again.`,
-            timestamp: Date.now(),
-          };
-          onMessagesChange([...newMessages, errorMessage]);
-          setStreamingText('');
-          setIsStreaming(false);
-        },
-      });
-    } catch (error: any) {
-      setIsStreaming(false);
-      setStreamingText('');
-    }
+    jobIdRef.current = generationJobClient.start({
+      kind: 'chat',
+      sessionId,
+      chatMessages: newMessages,
+      systemPrompt,
+    });
+  };
+
+  const handleStop = () => {
+    if (jobIdRef.current) generationJobClient.cancel(jobIdRef.current);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -219,18 +284,26 @@ export function ChatInterface({
             className="min-h-[44px] max-h-[120px] pr-12 text-sm resize-none"
             rows={1}
           />
-          <Button
-            size="icon"
-            onClick={handleSend}
-            disabled={!input.trim() || isStreaming || !resumeLatex}
-            className="absolute right-1.5 bottom-1.5 h-8 w-8 rounded-lg"
-          >
-            {isStreaming ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
+          {isStreaming ? (
+            <Button
+              size="icon"
+              variant="destructive"
+              onClick={handleStop}
+              className="absolute right-1.5 bottom-1.5 h-8 w-8 rounded-lg"
+              title="Stop generating"
+            >
+              <StopCircle className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              size="icon"
+              onClick={handleSend}
+              disabled={!input.trim() || !resumeLatex}
+              className="absolute right-1.5 bottom-1.5 h-8 w-8 rounded-lg"
+            >
               <Send className="w-4 h-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </div>
       </div>
     </div>
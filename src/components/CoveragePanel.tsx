@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { analyzeCoverage, type CoverageStatus, type SkillCoverage } from '@/lib/jd-analyzer';
+import { cn } from '@/lib/utils';
+import { CircleCheck, CircleDashed, CircleX } from 'lucide-react';
+
+interface CoveragePanelProps {
+  jobDescription: string;
+  originalLatex: string;
+  tailoredLatex: string;
+}
+
+const STATUS_STYLES: Record<CoverageStatus, { icon: typeof CircleCheck; className: string; label: string }> = {
+  covered: { icon: CircleCheck, className: 'text-green-600 dark:text-green-400', label: 'Covered' },
+  weak: { icon: CircleDashed, className: 'text-amber-600 dark:text-amber-400', label: 'Only listed' },
+  missing: { icon: CircleX, className: 'text-red-600 dark:text-red-400', label: 'Missing' },
+};
+
+export function StatusIcon({ status }: { status: CoverageStatus }) {
+  const { icon: Icon, className, label } = STATUS_STYLES[status];
+  return <Icon className={cn('w-3.5 h-3.5 shrink-0', className)} aria-label={label} />;
+}
+
+function SkillList({ title, skills }: { title: string; skills: SkillCoverage[] }) {
+  if (skills.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">{title}</p>
+      <div className="flex flex-wrap gap-1.5">
+        {skills.map((skill) => (
+          <span
+            key={skill.name}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-border text-[11px]"
+            title={`${STATUS_STYLES[skill.status].label} · "${skill.context}"`}
+          >
+            <StatusIcon status={skill.status} />
+            {skill.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Offline keyword coverage of the job description, for the tailored resume
+// (or the original when nothing has been tailored yet)
+export function CoveragePanel({ jobDescription, originalLatex, tailoredLatex }: CoveragePanelProps) {
+  const report = useMemo(
+    () => analyzeCoverage(tailoredLatex || originalLatex, jobDescription),
+    [tailoredLatex, originalLatex, jobDescription]
+  );
+  const originalScore = useMemo(
+    () => (tailoredLatex ? analyzeCoverage(originalLatex, jobDescription).score : null),
+    [tailoredLatex, originalLatex, jobDescription]
+  );
+
+  if (report.skills.length === 0 && report.experience.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full p-4">
+        <p className="text-xs text-muted-foreground">No known skills or requirements found in the job description</p>
+      </div>
+    );
+  }
+
+  const counts = (status: CoverageStatus) => report.skills.filter((s) => s.status === status).length;
+
+  return (
+    <div className="p-3 space-y-4">
+      <div className="flex items-end gap-3">
+        <div>
+          <p className="text-2xl font-bold">{report.score}%</p>
+          <p className="text-[10px] text-muted-foreground">keyword coverage</p>
+        </div>
+        {originalScore !== null && (
+          <p className="pb-1 text-[10px] text-muted-foreground">was {originalScore}% before tailoring</p>
+        )}
+        <div className="flex-1 flex justify-end gap-3 pb-1 text-[10px]">
+          {(['covered', 'weak', 'missing'] as const).map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <StatusIcon status={status} />
+              {counts(status)} {STATUS_STYLES[status].label.toLowerCase()}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div className="p-2 rounded-md bg-muted/40">
+          <p className="text-[10px] text-muted-foreground">Seniority</p>
+          <p className="font-medium capitalize">{report.analysis.seniority ?? 'Not stated'}</p>
+          {report.analysis.senioritySignals.length > 0 && (
+            <p className="text-[10px] text-muted-foreground truncate">
+              from "{report.analysis.senioritySignals.join('", "')}"
+            </p>
+          )}
+        </div>
+        <div className="p-2 rounded-md bg-muted/40">
+          <p className="text-[10px] text-muted-foreground">Experience on resume</p>
+          <p className="font-medium">{report.resumeYears} years</p>
+        </div>
+      </div>
+
+      {report.experience.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Experience Requirements</p>
+          {report.experience.map((req, i) => (
+            <div key={i} className="flex items-center gap-2 text-xs" title={req.text}>
+              <StatusIcon status={req.status} />
+              <span className="flex-1 min-w-0 truncate">
+                {req.years}+ years · {req.subject}
+              </span>
+              <span className="text-[10px] text-muted-foreground">{req.level}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SkillList title="Required" skills={report.skills.filter((s) => s.level === 'required')} />
+      <SkillList title="Preferred" skills={report.skills.filter((s) => s.level === 'preferred')} />
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from './ui/button';
 import { Input, Textarea, Card, CardContent, Tabs, TabsList, TabsTrigger, TabsContent } from './ui/index';
 import { aiService } from '@/services/ai-service';
 import { emailService } from '@/services/email-service';
+import { generationJobClient, type GenerationJob } from '@/services/generation-job-service';
 import { cn, generateId } from '@/lib/utils';
 import { Mail, Linkedin, FileText, Send, Loader2, Copy, ExternalLink, CheckCircle2 } from 'lucide-react';
 
@@ -20,6 +21,50 @@ export function EmailTab({ resumeLatex, jobDescription, knowledgeBase }: EmailTa
   const [generatedContent, setGeneratedContent] = useState('');
   const [loading, setLoading] = useState(false);
   const [copied, setCopied] = useState(false);
+  const coverJobIdRef = useRef<string | null>(null);
+
+  // Cover letters run as background jobs; reattach to one still running or
+  // show the letter that finished while the panel was closed
+  useEffect(() => {
+    const handleJob = (job: GenerationJob) => {
+      if (job.request.kind !== 'cover-letter') return;
+      if (coverJobIdRef.current && coverJobIdRef.current !== job.id) return;
+
+      if (job.status === 'running') {
+        if (!coverJobIdRef.current) {
+          coverJobIdRef.current = job.id;
+          setActiveType('cover');
+          setGeneratedContent(job.partialText);
+        }
+        setLoading(true);
+        return;
+      }
+
+      if (job.status === 'completed') {
+        setGeneratedContent(job.result || '');
+      } else if (job.status === 'failed' || (job.status === 'interrupted' && !job.partialText)) {
+        setGeneratedContent(`Error: ${job.error}`);
+      } else {
+        setGeneratedContent(job.partialText);
+      }
+      setActiveType('cover');
+      coverJobIdRef.current = null;
+      setLoading(false);
+      generationJobClient.dismiss(job.id);
+    };
+
+    const unsubscribe = generationJobClient.subscribe((event) => {
+      if (event.type === 'JOB_UPDATE') {
+        handleJob(event.job);
+      } else if (event.type === 'JOB_LIST') {
+        event.jobs.forEach(handleJob);
+      } else if (event.type === 'JOB_TOKEN' && event.jobId === coverJobIdRef.current) {
+        setGeneratedContent((prev) => prev + event.token);
+      }
+    });
+    generationJobClient.refresh();
+    return unsubscribe;
+  }, []);
 
   const resumeSummary = resumeLatex
     ? resumeLatex.substring(0, 1500) // Use first chunk as summary context
@@ -42,16 +87,14 @@ export function EmailTab({ resumeLatex, jobDescription, knowledgeBase }: EmailTa
           }
         );
       } else if (activeType === 'cover') {
-        result = await aiService.generateCoverLetter(
+        coverJobIdRef.current = generationJobClient.start({
+          kind: 'cover-letter',
           jobDescription,
           resumeLatex,
           knowledgeBase,
-          {
-            onToken: (t: string) => setGeneratedContent((p) => p + t),
-            onComplete: (full: string) => setGeneratedContent(full),
-            onError: (err: Error) => setGeneratedContent(`Error: ${err.message}`),
-          }
-        );
+        });
+        // Loading is cleared by the job listener when the letter finishes
+        return;
       } else if (activeType === 'dm') {
         result = await aiService.generateLinkedInDM(
           recruiterInfo || linkedinUrl,
@@ -62,9 +105,8 @@ export function EmailTab({ resumeLatex, jobDescription, knowledgeBase }: EmailTa
       }
     } catch (err: any) {
       setGeneratedContent(`Error: ${err.message}`);
-    } finally {
-      setLoading(false);
     }
+    setLoading(false);
   };
 
   const handleSendGmail = () => {
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { SOURCE_ICONS } from './ChangelogPanel';
+import { StatusIcon } from './CoveragePanel';
+import { cn } from '@/lib/utils';
+import type { FitReport, FitRequirement } from '@/lib/fit-report';
+
+interface FitReportCardProps {
+  report: FitReport;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 80) return 'text-green-600 dark:text-green-400';
+  if (score >= 60) return 'text-amber-600 dark:text-amber-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+function RequirementList({ title, requirements }: { title: string; requirements: FitRequirement[] }) {
+  if (requirements.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">{title}</p>
+      <div className="flex flex-wrap gap-1">
+        {requirements.map((req) => (
+          <span key={req.name} className="flex items-center gap-1 px-1.5 py-0.5 rounded-md border border-border text-[10px]">
+            <StatusIcon status={req.status} />
+            {req.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Match score, covered and missing requirements, and a learning plan with
+// one way to close each gap
+export function FitReportCard({ report }: FitReportCardProps) {
+  const { seniority } = report;
+  const missing = report.mustHaves.filter((r) => r.status === 'missing').length;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex items-end gap-3">
+        <div>
+          <p className={cn('text-2xl font-bold', scoreColor(report.score))}>{report.score}%</p>
+          <p className="text-[10px] text-muted-foreground">job fit</p>
+        </div>
+        <div className="flex-1 pb-1 text-right text-[10px] text-muted-foreground">
+          <p>
+            {missing === 0 ? 'All must-haves shown' : `${missing} must-have${missing === 1 ? '' : 's'} missing`}
+          </p>
+          <p className={cn('capitalize', seniority.mismatch && 'text-amber-600 dark:text-amber-400')}>
+            {seniority.job ? `${seniority.job} role` : 'Seniority not stated'} ·{' '}
+            {seniority.resume ? `resume reads ${seniority.resume}` : 'resume level unclear'}
+          </p>
+        </div>
+      </div>
+
+      <RequirementList title="Must-haves" requirements={report.mustHaves} />
+      <RequirementList title="Nice-to-haves" requirements={report.niceToHaves} />
+
+      {report.gaps.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Learning Plan</p>
+          {report.gaps.map((gap, i) => {
+            const Icon = gap.source ? SOURCE_ICONS[gap.source.type] : Lightbulb;
+            return (
+              <div key={i} className="flex items-start gap-2 p-2 rounded-md bg-muted/40">
+                <Icon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-primary" />
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <p className="font-medium">
+                    {gap.requirement}
+                    <span className="ml-1 text-[10px] font-normal text-muted-foreground">{gap.level}</span>
+                  </p>
+                  <p className="text-[10px] text-muted-foreground" title={gap.source?.detail}>
+                    {gap.suggestion}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -61,9 +61,9 @@ export function LandingPage({ onComplete }: LandingPageProps) {
     setError('');
 
     try {
-      // Save settings first so aiService.init() can read them
+      // Save settings first; the provider is rebuilt from them
       await storageService.saveSettings({ geminiApiKey: apiKey.trim(), aiProvider: 'gemini' });
-      await aiService.setApiKey(apiKey.trim());
+      await aiService.reload();
       await storageService.saveAppState({ isOnboarded: true });
       onComplete();
     } catch (err: any) {
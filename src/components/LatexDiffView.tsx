@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { diffLatex, diffWords, mergeDiff, type DiffHunk } from '@/lib/latex-diff';
+import { cn } from '@/lib/utils';
+import { Check, Undo2, GitMerge } from 'lucide-react';
+
+interface LatexDiffViewProps {
+  original: string;
+  tailored: string;
+  // Receives the merged LaTeX; omit to make the diff view-only
+  onApply?: (merged: string) => void;
+}
+
+// Unchanged lines shown around each hunk
+const CONTEXT_LINES = 2;
+
+function HunkText({ hunk, rejected }: { hunk: DiffHunk; rejected: boolean }) {
+  const segments = useMemo(
+    () => diffWords(hunk.original.join('\n'), hunk.tailored.join('\n')),
+    [hunk]
+  );
+
+  return (
+    <pre className="text-xs font-mono leading-relaxed whitespace-pre-wrap break-words">
+      {segments.map((segment, i) => {
+        // A rejected hunk reads as the original text
+        if (rejected && segment.type === 'added') return null;
+        return (
+          <span
+            key={i}
+            className={cn(
+              !rejected && segment.type === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+              !rejected && segment.type === 'removed' && 'bg-red-500/15 text-red-600 dark:text-red-400 line-through',
+              rejected && 'text-muted-foreground'
+            )}
+          >
+            {segment.text}
+          </span>
+        );
+      })}
+    </pre>
+  );
+}
+
+export function LatexDiffView({ original, tailored, onApply }: LatexDiffViewProps) {
+  const diff = useMemo(() => diffLatex(original, tailored), [original, tailored]);
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setRejected(new Set());
+  }, [diff]);
+
+  const setHunks = (ids: number[], reject: boolean) => {
+    const next = new Set(rejected);
+    ids.forEach((id) => (reject ? next.add(id) : next.delete(id)));
+    setRejected(next);
+  };
+
+  if (diff.hunks.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full p-4">
+        <p className="text-xs text-muted-foreground">The tailored resume is identical to the original</p>
+      </div>
+    );
+  }
+
+  const kept = diff.hunks.length - rejected.size;
+  let lastSection: string | null = null;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <span className="flex-1 text-xs text-muted-foreground">
+          {kept} of {diff.hunks.length} change{diff.hunks.length === 1 ? '' : 's'} kept
+        </span>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setRejected(new Set())}>
+          Accept all
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs"
+          onClick={() => setRejected(new Set(diff.hunks.map((h) => h.id)))}
+        >
+          Reject all
+        </Button>
+        {onApply && (
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={rejected.size === 0}
+            onClick={() => onApply(mergeDiff(diff, rejected))}
+            title="Make the merged result the tailored version"
+          >
+            <GitMerge className="w-3 h-3" />
+            Apply
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto p-3 space-y-2">
+        {diff.parts.map((part, index) => {
+          if (part.type === 'equal') {
+            const { lines } = part;
+            const head = index === 0 ? [] : lines.slice(0, CONTEXT_LINES);
+            const tail = index === diff.parts.length - 1 ? [] : lines.slice(-CONTEXT_LINES);
+            const hidden = lines.length - head.length - tail.length;
+            if (hidden <= 0) {
+              return (
+                <pre key={index} className="text-xs font-mono text-muted-foreground whitespace-pre-wrap break-words">
+                  {lines.join('\n')}
+                </pre>
+              );
+            }
+            return (
+              <div key={index} className="text-xs font-mono text-muted-foreground">
+                {head.length > 0 && <pre className="whitespace-pre-wrap break-words">{head.join('\n')}</pre>}
+                <p className="py-1 text-[10px] italic">⋯ {hidden} unchanged line{hidden === 1 ? '' : 's'}</p>
+                {tail.length > 0 && <pre className="whitespace-pre-wrap break-words">{tail.join('\n')}</pre>}
+              </div>
+            );
+          }
+
+          const { hunk } = part;
+          const isRejected = rejected.has(hunk.id);
+          const sectionHunks = diff.hunks.filter((h) => h.section === hunk.section).map((h) => h.id);
+          const showSection = hunk.section !== lastSection;
+          lastSection = hunk.section;
+
+          return (
+            <div key={index} className="space-y-1">
+              {showSection && (
+                <div className="flex items-center gap-2 pt-1">
+                  <span className="flex-1 text-[10px] font-semibold uppercase tracking-wide">
+                    {hunk.section || 'Preamble'}
+                  </span>
+                  <button
+                    onClick={() => setHunks(sectionHunks, false)}
+                    className="text-[10px] text-muted-foreground hover:text-foreground"
+                  >
+                    Keep section
+                  </button>
+                  <button
+                    onClick={() => setHunks(sectionHunks, true)}
+                    className="text-[10px] text-muted-foreground hover:text-foreground"
+                  >
+                    Revert section
+                  </button>
+                </div>
+              )}
+              <div
+                className={cn(
+                  'flex items-start gap-2 p-2 rounded-md border',
+                  isRejected ? 'border-border bg-muted/30' : 'border-primary/30 bg-primary/5'
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <HunkText hunk={hunk} rejected={isRejected} />
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => setHunks([hunk.id], false)}
+                    className={cn(
+                      'p-1 rounded hover:bg-muted',
+                      !isRejected ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground'
+                    )}
+                    title="Accept change"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setHunks([hunk.id], true)}
+                    className={cn(
+                      'p-1 rounded hover:bg-muted',
+                      isRejected ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'
+                    )}
+                    title="Reject change (keep original)"
+                  >
+                    <Undo2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
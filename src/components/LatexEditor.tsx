@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from 'react';
+import { EditorView, basicSetup } from 'codemirror';
+import { Annotation, Compartment, EditorState, Transaction } from '@codemirror/state';
+import { linter, lintGutter, type Diagnostic } from '@codemirror/lint';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { latexLanguage } from '@/lib/latex-language';
+import { aiValidators } from '@/services/ai-validators';
+
+interface LatexEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+}
+
+// Marks transactions that load a new value from props, so they aren't
+// reported back as user edits
+const External = Annotation.define<boolean>();
+
+const latexLinter = linter(
+  (view) => {
+    const length = view.state.doc.length;
+    const { diagnostics = [] } = aiValidators.validateLatexSyntax(view.state.doc.toString());
+    return diagnostics.map((d): Diagnostic => ({
+      from: Math.min(d.start, length),
+      to: Math.min(Math.max(d.end, d.start), length),
+      severity: d.severity,
+      message: d.message,
+    }));
+  },
+  { delay: 500 }
+);
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '12px' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', lineHeight: '1.6' },
+});
+
+export function LatexEditor({ value, onChange, readOnly = false }: LatexEditorProps) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  const readOnlyRef = useRef(new Compartment());
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: hostRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          basicSetup,
+          latexLanguage,
+          EditorView.lineWrapping,
+          lintGutter(),
+          latexLinter,
+          editorTheme,
+          document.documentElement.classList.contains('dark') ? oneDark : [],
+          readOnlyRef.current.of(EditorState.readOnly.of(readOnly)),
+          EditorView.updateListener.of((update) => {
+            if (!update.docChanged || update.transactions.some((tr) => tr.annotation(External))) return;
+            onChangeRef.current?.(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Switching original/tailored or a new AI result replaces the document
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || value === view.state.doc.toString()) return;
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+      annotations: [External.of(true), Transaction.addToHistory.of(false)],
+    });
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: readOnlyRef.current.reconfigure(EditorState.readOnly.of(readOnly)),
+    });
+  }, [readOnly]);
+
+  return <div ref={hostRef} className="h-full" />;
+}
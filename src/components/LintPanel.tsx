@@ -0,0 +1,89 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { storageService } from '@/services/storage-service';
+import { LINT_RULES, applyLintFixes, lintResume, type LintFinding, type LintRuleId } from '@/lib/resume-lint';
+import { CircleCheck, WandSparkles } from 'lucide-react';
+
+interface LintPanelProps {
+  latex: string;
+  // Called with the fixed LaTeX; omit to list findings without fixes
+  onApply?: (latex: string) => void;
+}
+
+const RULE_LABELS = Object.fromEntries(LINT_RULES.map((r) => [r.id, r.label])) as Record<LintRuleId, string>;
+
+// Style and consistency findings for the resume, with one-click mechanical
+// fixes; findings that need rewording are marked as suggestions
+export function LintPanel({ latex, onApply }: LintPanelProps) {
+  const [disabled, setDisabled] = useState<LintRuleId[] | null>(null);
+
+  useEffect(() => {
+    storageService.getSettings().then((settings) => setDisabled(settings.disabledLintRules || []));
+  }, []);
+
+  const findings = useMemo(() => (disabled ? lintResume(latex, disabled) : []), [latex, disabled]);
+  const fixable = findings.filter((f) => f.replacement !== undefined);
+
+  if (!disabled) return null;
+
+  if (findings.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-2 p-4">
+        <CircleCheck className="w-6 h-6 text-green-600 dark:text-green-400" />
+        <p className="text-xs text-muted-foreground">
+          No findings{disabled.length ? ` (${disabled.length} rule${disabled.length === 1 ? '' : 's'} off in Settings)` : ''}
+        </p>
+      </div>
+    );
+  }
+
+  const excerpt = (finding: LintFinding) => {
+    const text = latex.slice(finding.start, finding.end).replace(/\s+/g, ' ');
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  };
+
+  return (
+    <div className="p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <p className="flex-1 text-xs font-medium">
+          {findings.length} finding{findings.length === 1 ? '' : 's'}
+          {fixable.length < findings.length && (
+            <span className="font-normal text-muted-foreground"> · {findings.length - fixable.length} to reword by hand</span>
+          )}
+        </p>
+        {onApply && fixable.length > 0 && (
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => onApply(applyLintFixes(latex, fixable))}>
+            <WandSparkles className="w-3 h-3" />
+            Fix {fixable.length} automatically
+          </Button>
+        )}
+      </div>
+
+      {findings.map((finding) => (
+        <div key={`${finding.rule}:${finding.start}`} className="p-2 rounded-md border border-border space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-600 dark:text-amber-400 text-[9px] uppercase tracking-wide shrink-0">
+              {RULE_LABELS[finding.rule]}
+            </span>
+            <span className="flex-1 min-w-0 text-xs font-medium truncate">{finding.message}</span>
+            <span className="text-[10px] text-muted-foreground shrink-0">Line {finding.line}</span>
+          </div>
+          <p className="text-[10px] font-mono text-muted-foreground truncate">{excerpt(finding)}</p>
+          <div className="flex items-center gap-2">
+            <p className="flex-1 text-[10px]">{finding.suggestion}</p>
+            {finding.replacement === undefined ? (
+              <span className="text-[9px] uppercase tracking-wide text-muted-foreground shrink-0">Suggestion</span>
+            ) : onApply && (
+              <button
+                onClick={() => onApply(applyLintFixes(latex, [finding]))}
+                className="px-1.5 py-0.5 rounded text-[10px] font-medium text-primary hover:bg-primary/10"
+              >
+                Fix
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
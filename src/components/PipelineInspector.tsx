@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, Loader2, MinusCircle, XCircle, Workflow } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PipelineStepState } from '@/services/tailoring-pipeline';
+
+interface PipelineInspectorProps {
+  steps: PipelineStepState[];
+}
+
+// Shows the prompt and raw output of every multi-agent step for debugging
+export function PipelineInspector({ steps }: PipelineInspectorProps) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [view, setView] = useState<'output' | 'prompt'>('output');
+
+  if (steps.length === 0) return null;
+
+  const completed = steps.filter((s) => s.status === 'completed').length;
+
+  return (
+    <div className="rounded-lg border border-border">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs font-medium hover:bg-accent/50 transition-colors"
+      >
+        <Workflow className="w-3.5 h-3.5 text-primary" />
+        <span className="flex-1 text-left">Pipeline Steps</span>
+        <span className="text-[10px] text-muted-foreground">{completed}/{steps.length} completed</span>
+        {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+      </button>
+
+      {open && (
+        <div className="border-t border-border divide-y divide-border">
+          {steps.map((step) => {
+            const isExpanded = expanded === step.id;
+            return (
+              <div key={step.id}>
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : step.id)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-xs hover:bg-accent/30 transition-colors"
+                >
+                  <StepIcon status={step.status} />
+                  <span className={cn('flex-1 text-left', step.status === 'pending' && 'text-muted-foreground')}>
+                    {step.label}
+                  </span>
+                  {step.restored && (
+                    <span className="text-[10px] px-1.5 rounded bg-primary/10 text-primary">restored</span>
+                  )}
+                  {step.durationMs !== undefined && (
+                    <span className="text-[10px] text-muted-foreground">{(step.durationMs / 1000).toFixed(1)}s</span>
+                  )}
+                  {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+
+                {isExpanded && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {step.error && (
+                      <p className="text-[10px] text-destructive">{step.error}</p>
+                    )}
+                    <div className="flex gap-1">
+                      {(['output', 'prompt'] as const).map((v) => (
+                        <button
+                          key={v}
+                          onClick={() => setView(v)}
+                          className={cn(
+                            'px-2 py-0.5 rounded text-[10px] capitalize transition-colors',
+                            view === v ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-accent'
+                          )}
+                        >
+                          {v}
+                        </button>
+                      ))}
+                    </div>
+                    <pre className="max-h-[240px] overflow-auto p-2 rounded-md bg-muted text-[10px] font-mono whitespace-pre-wrap break-words">
+                      {(view === 'output' ? step.output : step.prompt) || 'Not available yet'}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StepIcon({ status }: { status: PipelineStepState['status'] }) {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="w-3.5 h-3.5 text-green-500" />;
+    case 'running':
+      return <Loader2 className="w-3.5 h-3.5 animate-spin text-primary" />;
+    case 'failed':
+      return <XCircle className="w-3.5 h-3.5 text-destructive" />;
+    case 'skipped':
+      return <MinusCircle className="w-3.5 h-3.5 text-muted-foreground" />;
+    default:
+      return <div className="w-3.5 h-3.5 rounded-full border border-border" />;
+  }
+}
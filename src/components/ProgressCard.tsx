@@ -1,6 +1,7 @@
 import React from 'react';
-import { Loader2, CheckCircle2 } from 'lucide-react';
+import { Loader2, CheckCircle2, StopCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Button } from './ui/button';
 
 interface Step {
   name: string;
@@ -14,6 +15,7 @@ interface ProgressCardProps {
   title?: string;
   totalSteps?: number;
   message?: string;
+  onCancel?: () => void;
 }
 
 export function ProgressCard({
@@ -21,6 +23,7 @@ export function ProgressCard({
   currentStep,
   title = 'Processing',
   message,
+  onCancel,
 }: ProgressCardProps) {
   const progress = (currentStep / steps.length) * 100;
 
@@ -30,7 +33,13 @@ export function ProgressCard({
       <div className="space-y-1">
         <div className="flex items-center gap-2">
           <Loader2 className="w-4 h-4 animate-spin text-primary" />
-          <h3 className="font-semibold text-sm">{title}</h3>
+          <h3 className="font-semibold text-sm flex-1">{title}</h3>
+          {onCancel && (
+            <Button size="sm" variant="outline" onClick={onCancel} className="h-7 text-xs">
+              <StopCircle className="w-3 h-3" />
+              Stop
+            </Button>
+          )}
         </div>
         {message && (
           <p className="text-xs text-muted-foreground">{message}</p>
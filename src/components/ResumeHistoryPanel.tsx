@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/index';
+import { LatexDiffView } from './LatexDiffView';
+import { resumeVersionService, type ResumeVersion } from '@/services/resume-version-service';
+import { applicationTrackingService, type JobApplication } from '@/services/application-tracking-service';
+import { cn } from '@/lib/utils';
+import { GitCompare, History, Link2, Pencil, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface ResumeHistoryPanelProps {
+  onRestore: (version: ResumeVersion, parent: ResumeVersion | null) => void;
+}
+
+// Browse resume versions as a tree: restore, rename, compare, link to applications
+export function ResumeHistoryPanel({ onRestore }: ResumeHistoryPanelProps) {
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+
+  const reload = async () => setVersions(await resumeVersionService.getAll());
+
+  useEffect(() => {
+    reload();
+    applicationTrackingService.getAllApplications().then(setApplications);
+  }, []);
+
+  const byId = useMemo(() => new Map(versions.map((v) => [v.id, v])), [versions]);
+  const children = useMemo(() => {
+    const map = new Map<string | null, ResumeVersion[]>();
+    for (const version of versions) {
+      // Orphans (parent deleted elsewhere) show at the top level
+      const parentId = version.parentId && byId.has(version.parentId) ? version.parentId : null;
+      map.set(parentId, [...(map.get(parentId) || []), version]);
+    }
+    return map;
+  }, [versions, byId]);
+
+  const toggleSelected = (id: string) => {
+    setComparing(false);
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleDelete = async (version: ResumeVersion) => {
+    const linked = version.applicationIds.length;
+    const warning = linked ? ` It is linked to ${linked} application${linked === 1 ? '' : 's'}.` : '';
+    if (!confirm(`Delete "${version.label}"?${warning}`)) return;
+    await resumeVersionService.remove(version.id);
+    setSelected((prev) => prev.filter((s) => s !== version.id));
+    await reload();
+  };
+
+  const saveLabel = async (version: ResumeVersion) => {
+    setEditingId(null);
+    const label = labelDraft.trim();
+    if (!label || label === version.label) return;
+    await resumeVersionService.update(version.id, { label });
+    await reload();
+  };
+
+  const handleLink = async (version: ResumeVersion, applicationId: string) => {
+    if (!applicationId) return;
+    await resumeVersionService.linkApplication(version.id, applicationId);
+    // The application keeps the fit report of the resume sent with it
+    if (version.fitReport) await applicationTrackingService.updateApplication(applicationId, { fitReport: version.fitReport });
+    await reload();
+  };
+
+  const handleUnlink = async (version: ResumeVersion, applicationId: string) => {
+    await resumeVersionService.unlinkApplication(version.id, applicationId);
+    await reload();
+  };
+
+  // Older version on the left
+  const [compareFrom, compareTo] = selected
+    .map((id) => byId.get(id))
+    .filter((v): v is ResumeVersion => !!v)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  const renderVersion = (version: ResumeVersion, depth: number): React.ReactNode => {
+    const linkedApps = version.applicationIds
+      .map((id) => applications.find((a) => a.id === id))
+      .filter((a): a is JobApplication => !!a);
+    const unlinkedApps = applications.filter((a) => !version.applicationIds.includes(a.id));
+
+    return (
+      <React.Fragment key={version.id}>
+        <div
+          className={cn(
+            'rounded-md border p-2 space-y-1.5 text-xs',
+            selected.includes(version.id) ? 'border-primary/40 bg-primary/5' : 'border-border'
+          )}
+          style={{ marginLeft: depth * 16 }}
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={selected.includes(version.id)}
+              onChange={() => toggleSelected(version.id)}
+              title="Select to compare"
+            />
+            {editingId === version.id ? (
+              <Input
+                value={labelDraft}
+                onChange={(e) => setLabelDraft(e.target.value)}
+                onBlur={() => saveLabel(version)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveLabel(version);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="h-6 text-xs flex-1"
+                autoFocus
+              />
+            ) : (
+              <span className="flex-1 min-w-0 font-medium truncate">{version.label}</span>
+            )}
+            <span
+              className={cn(
+                'px-1.5 py-0.5 rounded text-[10px]',
+                version.kind === 'original' ? 'bg-muted text-muted-foreground' : 'bg-primary/10 text-primary'
+              )}
+            >
+              {version.kind}
+            </span>
+            <button
+              onClick={() => {
+                setEditingId(version.id);
+                setLabelDraft(version.label);
+              }}
+              className="p-1 rounded text-muted-foreground hover:bg-muted"
+              title="Rename"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onRestore(version, version.parentId ? byId.get(version.parentId) ?? null : null)}
+              className="p-1 rounded text-muted-foreground hover:bg-muted hover:text-foreground"
+              title="Restore this version"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => handleDelete(version)}
+              className="p-1 rounded text-muted-foreground hover:bg-muted hover:text-destructive"
+              title="Delete"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+
+          <p className="text-[10px] text-muted-foreground">
+            {new Date(version.createdAt).toLocaleString()}
+            {version.jobDescription && ` · ${version.jobDescription.trim().slice(0, 80)}`}
+          </p>
+
+          {(linkedApps.length > 0 || (version.kind === 'tailored' && unlinkedApps.length > 0)) && (
+            <div className="flex flex-wrap items-center gap-1">
+              {linkedApps.map((app) => (
+                <span
+                  key={app.id}
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-muted text-[10px]"
+                >
+                  <Link2 className="w-2.5 h-2.5" />
+                  {app.position} @ {app.companyName}
+                  <button
+                    onClick={() => handleUnlink(version, app.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    title="Unlink"
+                  >
+                    <X className="w-2.5 h-2.5" />
+                  </button>
+                </span>
+              ))}
+              {version.kind === 'tailored' && unlinkedApps.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleLink(version, e.target.value)}
+                  className="px-1.5 py-0.5 rounded border border-border bg-background text-[10px]"
+                >
+                  <option value="">Link to application…</option>
+                  {unlinkedApps.map((app) => (
+                    <option key={app.id} value={app.id}>
+                      {app.position} @ {app.companyName}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+        </div>
+        {(children.get(version.id) || []).map((child) => renderVersion(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+        <History className="w-4 h-4 text-primary" />
+        <h3 className="flex-1 text-sm font-semibold">Resume History</h3>
+        <span className="text-[10px] text-muted-foreground">
+          {selected.length < 2 ? 'Select two versions to compare' : ''}
+        </span>
+        <Button
+          size="sm"
+          variant={comparing ? 'default' : 'outline'}
+          className="h-7 text-xs"
+          disabled={selected.length < 2}
+          onClick={() => setComparing(!comparing)}
+        >
+          <GitCompare className="w-3 h-3" />
+          Compare
+        </Button>
+      </div>
+
+      {comparing && compareFrom && compareTo ? (
+        <div className="flex-1 min-h-0 flex flex-col">
+          <p className="px-4 py-2 text-[10px] text-muted-foreground border-b border-border">
+            {compareFrom.label} → {compareTo.label}
+          </p>
+          <div className="flex-1 min-h-0">
+            <LatexDiffView original={compareFrom.latex} tailored={compareTo.latex} />
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {versions.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-8">
+              Tailored resumes appear here after each run
+            </p>
+          ) : (
+            (children.get(null) || []).map((version) => renderVersion(version, 0))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/index';
+import { storageService, type BaseResume, type ResumeLibrary as Library } from '@/services/storage-service';
+import { rankBaseResumes } from '@/lib/resume-ranking';
+import { cn, generateId } from '@/lib/utils';
+import { ChevronDown, ChevronRight, Library as LibraryIcon, Save, Sparkles, Star, Trash2 } from 'lucide-react';
+
+interface ResumeLibraryProps {
+  resumeLatex: string;
+  resumeFileName: string;
+  jobDescription: string;
+  activeId: string | null;
+  onSelect: (resume: BaseResume) => void;
+}
+
+// Named base resumes (backend, data, ML...) ranked against the current job
+export function ResumeLibrary({ resumeLatex, resumeFileName, jobDescription, activeId, onSelect }: ResumeLibraryProps) {
+  const [library, setLibrary] = useState<Library>({ resumes: [], defaultId: null });
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+
+  const reload = async () => setLibrary(await storageService.getResumeLibrary());
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const ranking = useMemo(
+    () => (jobDescription.trim() ? rankBaseResumes(library.resumes, jobDescription) : []),
+    [library.resumes, jobDescription]
+  );
+  const scores = new Map(ranking.map((r) => [r.resume.id, r.score]));
+  const best = ranking[0];
+  const active = library.resumes.find((r) => r.id === activeId);
+
+  const handleSave = async () => {
+    const now = Date.now();
+    const resume: BaseResume = {
+      id: generateId(),
+      name: name.trim() || resumeFileName || 'Base resume',
+      tags: tags.split(',').map((t) => t.trim()).filter(Boolean),
+      latex: resumeLatex,
+      fileName: resumeFileName || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await storageService.saveBaseResume(resume);
+    setName('');
+    setTags('');
+    await reload();
+    onSelect(resume);
+  };
+
+  const handleUpdate = async () => {
+    if (!active) return;
+    await storageService.saveBaseResume({ ...active, latex: resumeLatex });
+    await reload();
+  };
+
+  const handleDelete = async (resume: BaseResume) => {
+    if (!confirm(`Delete "${resume.name}" from the library?`)) return;
+    await storageService.deleteBaseResume(resume.id);
+    await reload();
+  };
+
+  const handleSetDefault = async (resume: BaseResume) => {
+    await storageService.setDefaultBaseResume(resume.id);
+    await reload();
+  };
+
+  return (
+    <div className="rounded-lg border border-border">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs font-medium hover:bg-accent/50 transition-colors"
+      >
+        <LibraryIcon className="w-3.5 h-3.5 text-primary" />
+        <span className="flex-1 text-left">Resume Library</span>
+        <span className="text-[10px] text-muted-foreground">
+          {library.resumes.length} base resume{library.resumes.length === 1 ? '' : 's'}
+        </span>
+        {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+      </button>
+
+      {best && best.resume.id !== activeId && (
+        <div className="flex items-center gap-2 px-3 py-2 border-t border-border bg-primary/5 text-xs">
+          <Sparkles className="w-3.5 h-3.5 text-primary shrink-0" />
+          <span className="flex-1 min-w-0">
+            Best match for this job: <span className="font-medium">{best.resume.name}</span>{' '}
+            <span className="text-muted-foreground">({best.score}%)</span>
+          </span>
+          <Button size="sm" variant="outline" className="h-6 text-[10px]" onClick={() => onSelect(best.resume)}>
+            Use
+          </Button>
+        </div>
+      )}
+
+      {open && (
+        <div className="border-t border-border p-3 space-y-3">
+          {library.resumes.length === 0 ? (
+            <p className="text-[10px] text-muted-foreground">
+              Save the loaded resume as a base to build a library of backend, data or ML versions.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {library.resumes.map((resume) => (
+                <div
+                  key={resume.id}
+                  className={cn(
+                    'flex items-center gap-2 px-2 py-1.5 rounded-md border text-xs',
+                    resume.id === activeId ? 'border-primary/40 bg-primary/10' : 'border-transparent hover:bg-accent/30'
+                  )}
+                >
+                  <button onClick={() => onSelect(resume)} className="flex-1 min-w-0 text-left">
+                    <p className="font-medium truncate">{resume.name}</p>
+                    {resume.tags.length > 0 && (
+                      <p className="text-[10px] text-muted-foreground truncate">{resume.tags.join(' · ')}</p>
+                    )}
+                  </button>
+                  {scores.has(resume.id) && (
+                    <span className="text-[10px] text-muted-foreground">{scores.get(resume.id)}%</span>
+                  )}
+                  <button
+                    onClick={() => handleSetDefault(resume)}
+                    className={cn(
+                      'p-1 rounded hover:bg-muted',
+                      library.defaultId === resume.id ? 'text-yellow-500' : 'text-muted-foreground'
+                    )}
+                    title={library.defaultId === resume.id ? 'Default resume' : 'Make default'}
+                  >
+                    <Star className={cn('w-3.5 h-3.5', library.defaultId === resume.id && 'fill-current')} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(resume)}
+                    className="p-1 rounded text-muted-foreground hover:bg-muted hover:text-destructive"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {resumeLatex && (
+            <div className="space-y-2">
+              {active && active.latex !== resumeLatex && (
+                <Button size="sm" variant="outline" className="w-full h-7 text-xs" onClick={handleUpdate}>
+                  <Save className="w-3 h-3" />
+                  Update "{active.name}" with the loaded resume
+                </Button>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={resumeFileName || 'Name, e.g. Backend'}
+                  className="h-7 text-xs"
+                />
+                <Input
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="Tags, e.g. go, kafka"
+                  className="h-7 text-xs"
+                />
+              </div>
+              <Button size="sm" className="w-full h-7 text-xs" onClick={handleSave}>
+                <Save className="w-3 h-3" />
+                Save loaded resume as a base
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
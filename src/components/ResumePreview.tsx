@@ -1,7 +1,14 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Button } from './ui/button';
+import { LatexEditor } from './LatexEditor';
+import { LatexDiffView } from './LatexDiffView';
+import { CoveragePanel } from './CoveragePanel';
+import { LintPanel } from './LintPanel';
 import { fileService } from '@/services/file-service';
+import { latexCompilerService } from '@/services/latex-compiler-service';
 import { gdriveService } from '@/services/gdrive-service';
+import { fabricationGuard, type ClaimCheck } from '@/services/fabrication-guard';
+import { describePageEstimate, estimatePages, type PageEstimate } from '@/lib/page-fit';
 import { cn } from '@/lib/utils';
 import {
   Code,
@@ -14,23 +21,39 @@ import {
   Loader2,
   Eye,
   EyeOff,
+  ShieldAlert,
+  ChevronDown,
+  ChevronRight,
+  Check,
+  Braces,
+  Copy,
+  FileType,
+  Hash,
 } from 'lucide-react';
 
 interface ResumePreviewProps {
   originalLatex: string;
   tailoredLatex: string;
+  knowledgeBase?: string;
   companyName?: string;
   userName?: string;
+  // Enables the keyword coverage view
+  jobDescription?: string;
+  // Called with every edit made in the LaTeX editor; omit for a read-only view
+  onLatexChange?: (target: 'original' | 'tailored', latex: string) => void;
 }
 
 type ViewMode = 'raw' | 'compiled';
-type ContentMode = 'original' | 'tailored' | 'diff';
+type ContentMode = 'original' | 'tailored' | 'diff' | 'coverage' | 'lint';
 
 export function ResumePreview({
   originalLatex,
   tailoredLatex,
+  knowledgeBase = '',
   companyName = 'Company',
   userName = 'Resume',
+  jobDescription = '',
+  onLatexChange,
 }: ResumePreviewProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('raw');
   const [contentMode, setContentMode] = useState<ContentMode>(tailoredLatex ? 'tailored' : 'original');
@@ -38,10 +61,33 @@ export function ResumePreview({
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [pdfLoading, setPdfLoading] = useState(false);
   const [pdfError, setPdfError] = useState('');
+  // Page count of the last compiled PDF, for the LaTeX it was compiled from
+  const [pdfPages, setPdfPages] = useState<{ latex: string; pages: number } | null>(null);
   const [downloading, setDownloading] = useState<string | null>(null);
+  const [showClaims, setShowClaims] = useState(false);
+  const [confirmedClaims, setConfirmedClaims] = useState<Set<string>>(new Set());
+  const [copied, setCopied] = useState<'text' | 'markdown' | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const activeLatex = contentMode === 'original' ? originalLatex : tailoredLatex;
+  const activeLatex = contentMode === 'original' || !tailoredLatex ? originalLatex : tailoredLatex;
+  const pageEstimate = useMemo<PageEstimate>(
+    () => (pdfPages?.latex === activeLatex ? { pages: pdfPages.pages, source: 'pdf' } : estimatePages(activeLatex)),
+    [activeLatex, pdfPages]
+  );
+
+  // Claims in the tailored resume that neither the original nor the KB supports
+  const fabrication = useMemo(
+    () => (tailoredLatex ? fabricationGuard.verify(tailoredLatex, originalLatex, knowledgeBase) : null),
+    [tailoredLatex, originalLatex, knowledgeBase]
+  );
+  const claimKey = (claim: ClaimCheck) => `${claim.type}:${claim.text}`;
+  const unsupportedClaims = (fabrication?.unsupported || []).filter((c) => !confirmedClaims.has(claimKey(c)));
+  const exportingTailored = contentMode !== 'original' && !!tailoredLatex;
+
+  const confirmExport = () =>
+    !exportingTailored ||
+    unsupportedClaims.length === 0 ||
+    confirm(`${unsupportedClaims.length} claim(s) in the tailored resume could not be verified against your resume or knowledge base. Export anyway?`);
 
   // Compile PDF when switching to compiled view
   useEffect(() => {
@@ -50,14 +96,26 @@ export function ResumePreview({
     }
   }, [viewMode, contentMode]);
 
+  // Without the offline engine, ask once before the resume is uploaded
+  const confirmRemoteCompile = async () => {
+    if (!(await latexCompilerService.needsRemoteConsent())) return;
+    const allowed = confirm(
+      'The offline LaTeX engine is not installed. Upload the resume to the remote compile server to build the PDF? You can change this later in Settings.'
+    );
+    await latexCompilerService.setRemoteFallback(allowed);
+  };
+
   const compilePdf = async () => {
     if (!activeLatex) return;
     setPdfLoading(true);
     setPdfError('');
     try {
+      await confirmRemoteCompile();
       const blob = await fileService.compileToPdf(activeLatex);
       const url = URL.createObjectURL(blob);
       setPdfUrl(url);
+      const pages = await fileService.countPdfPages(blob);
+      if (pages > 0) setPdfPages({ latex: activeLatex, pages });
     } catch (err: any) {
       setPdfError(err.message);
     } finally {
@@ -65,7 +123,8 @@ export function ResumePreview({
     }
   };
 
-  const handleDownload = async (format: 'tex' | 'pdf' | 'docx') => {
+  const handleDownload = async (format: 'tex' | 'pdf' | 'docx' | 'json' | 'txt' | 'md') => {
+    if (!confirmExport()) return;
     setDownloading(format);
     try {
       const date = new Date().toISOString().split('T')[0];
@@ -76,11 +135,21 @@ export function ResumePreview({
           fileService.downloadLatex(activeLatex, `${baseName}.tex`);
           break;
         case 'pdf':
+          await confirmRemoteCompile();
           await fileService.downloadAsPdf(activeLatex, `${baseName}.pdf`);
           break;
         case 'docx':
           await fileService.downloadAsDocx(activeLatex, `${baseName}.docx`);
           break;
+        case 'json':
+          fileService.downloadJsonResume(activeLatex, `${baseName}.json`);
+          break;
+        case 'txt':
+          fileService.downloadPlainText(activeLatex, `${baseName}.txt`);
+          break;
+        case 'md':
+          fileService.downloadMarkdown(activeLatex, `${baseName}.md`);
+          break;
       }
     } catch (err: any) {
       console.error('Download failed:', err);
@@ -89,9 +158,23 @@ export function ResumePreview({
     }
   };
 
+  const handleCopy = async (format: 'text' | 'markdown') => {
+    if (!confirmExport()) return;
+    try {
+      const content = format === 'text' ? fileService.toPlainText(activeLatex) : fileService.toMarkdown(activeLatex);
+      await navigator.clipboard.writeText(content);
+      setCopied(format);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
   const handleGDriveUpload = async () => {
+    if (!confirmExport()) return;
     setDownloading('gdrive');
     try {
+      await confirmRemoteCompile();
       const pdfBlob = await fileService.compileToPdf(activeLatex);
       const result = await gdriveService.uploadResume({
         pdfBlob,
@@ -128,31 +211,71 @@ export function ResumePreview({
       <div className="flex items-center justify-between gap-2 p-3 border-b border-border">
         <div className="flex gap-1">
           {/* Content toggle */}
-          {tailoredLatex && (
-            <div className="flex gap-1 p-0.5 rounded-md bg-muted">
-              <button
-                onClick={() => setContentMode('original')}
-                className={cn(
-                  'px-2 py-1 rounded text-xs font-medium transition-all',
-                  contentMode === 'original' ? 'bg-background shadow-sm' : 'text-muted-foreground'
-                )}
-              >
-                Original
-              </button>
+          <div className="flex gap-1 p-0.5 rounded-md bg-muted">
+            <button
+              onClick={() => setContentMode('original')}
+              className={cn(
+                'px-2 py-1 rounded text-xs font-medium transition-all',
+                contentMode === 'original' ? 'bg-background shadow-sm' : 'text-muted-foreground'
+              )}
+            >
+              Original
+            </button>
+            {tailoredLatex && (
+              <>
+                <button
+                  onClick={() => setContentMode('tailored')}
+                  className={cn(
+                    'px-2 py-1 rounded text-xs font-medium transition-all',
+                    contentMode === 'tailored' ? 'bg-background shadow-sm' : 'text-muted-foreground'
+                  )}
+                >
+                  Tailored
+                </button>
+                <button
+                  onClick={() => setContentMode('diff')}
+                  className={cn(
+                    'px-2 py-1 rounded text-xs font-medium transition-all',
+                    contentMode === 'diff' ? 'bg-background shadow-sm' : 'text-muted-foreground'
+                  )}
+                >
+                  Changes
+                </button>
+              </>
+            )}
+            {jobDescription.trim() && (
               <button
-                onClick={() => setContentMode('tailored')}
+                onClick={() => setContentMode('coverage')}
                 className={cn(
                   'px-2 py-1 rounded text-xs font-medium transition-all',
-                  contentMode === 'tailored' ? 'bg-background shadow-sm' : 'text-muted-foreground'
+                  contentMode === 'coverage' ? 'bg-background shadow-sm' : 'text-muted-foreground'
                 )}
               >
-                Tailored
+                Coverage
               </button>
-            </div>
-          )}
+            )}
+            <button
+              onClick={() => setContentMode('lint')}
+              className={cn(
+                'px-2 py-1 rounded text-xs font-medium transition-all',
+                contentMode === 'lint' ? 'bg-background shadow-sm' : 'text-muted-foreground'
+              )}
+            >
+              Lint
+            </button>
+          </div>
         </div>
 
         <div className="flex items-center gap-1">
+          <span
+            className={cn(
+              'px-1.5 text-[10px] whitespace-nowrap',
+              pageEstimate.pages > 1 ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'
+            )}
+            title={pageEstimate.source === 'pdf' ? 'From the compiled PDF' : 'Estimated from the amount of text; compile for an exact count'}
+          >
+            {describePageEstimate(pageEstimate)}
+          </span>
           {/* View mode */}
           <div className="flex gap-1 p-0.5 rounded-md bg-muted">
             <button
@@ -161,7 +284,7 @@ export function ResumePreview({
                 'p-1.5 rounded text-xs transition-all',
                 viewMode === 'raw' ? 'bg-background shadow-sm' : 'text-muted-foreground'
               )}
-              title="Raw LaTeX"
+              title="Edit LaTeX"
             >
               <Code className="w-3.5 h-3.5" />
             </button>
@@ -190,12 +313,69 @@ export function ResumePreview({
         </div>
       </div>
 
+      {/* Fabrication Guard */}
+      {exportingTailored && unsupportedClaims.length > 0 && (
+        <div className="border-b border-amber-500/30 bg-amber-500/5">
+          <button
+            onClick={() => setShowClaims(!showClaims)}
+            className="w-full flex items-center gap-2 px-3 py-2 text-xs text-amber-600 dark:text-amber-400"
+          >
+            <ShieldAlert className="w-3.5 h-3.5 shrink-0" />
+            <span className="flex-1 text-left font-medium">
+              {unsupportedClaims.length} unverified claim{unsupportedClaims.length === 1 ? '' : 's'} – not found in your resume or knowledge base
+            </span>
+            {showClaims ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          </button>
+          {showClaims && (
+            <div className="px-3 pb-3 space-y-1.5 max-h-[200px] overflow-y-auto">
+              {unsupportedClaims.map((claim) => (
+                <div key={claimKey(claim)} className="flex items-start gap-2 p-2 rounded-md bg-background/60 border border-border">
+                  <span className="text-[9px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-600 dark:text-amber-400 shrink-0">
+                    {claim.type}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium">{claim.text}</p>
+                    <p className="text-[10px] text-muted-foreground truncate" title={claim.context}>{claim.context}</p>
+                  </div>
+                  <button
+                    onClick={() => setConfirmedClaims(new Set(confirmedClaims).add(claimKey(claim)))}
+                    className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                    title="This is accurate"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Preview Content */}
       <div className="flex-1 overflow-auto">
-        {viewMode === 'raw' ? (
-          <pre className="p-4 text-xs font-mono leading-relaxed whitespace-pre-wrap break-words text-foreground/90">
-            {activeLatex}
-          </pre>
+        {contentMode === 'diff' && tailoredLatex ? (
+          <LatexDiffView
+            original={originalLatex}
+            tailored={tailoredLatex}
+            onApply={onLatexChange && ((merged) => onLatexChange('tailored', merged))}
+          />
+        ) : contentMode === 'coverage' && jobDescription.trim() ? (
+          <CoveragePanel
+            jobDescription={jobDescription}
+            originalLatex={originalLatex}
+            tailoredLatex={tailoredLatex}
+          />
+        ) : contentMode === 'lint' ? (
+          <LintPanel
+            latex={activeLatex}
+            onApply={onLatexChange && ((fixed) => onLatexChange(tailoredLatex ? 'tailored' : 'original', fixed))}
+          />
+        ) : viewMode === 'raw' ? (
+          <LatexEditor
+            value={activeLatex}
+            readOnly={!onLatexChange}
+            onChange={(latex) => onLatexChange?.(contentMode === 'original' ? 'original' : 'tailored', latex)}
+          />
         ) : (
           <div className="h-full">
             {pdfLoading ? (
@@ -257,6 +437,17 @@ export function ResumePreview({
           {downloading === 'docx' ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileSpreadsheet className="w-3 h-3" />}
           DOCX
         </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleDownload('json')}
+          disabled={!!downloading}
+          className="flex-1 text-xs"
+          title="JSON Resume"
+        >
+          {downloading === 'json' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Braces className="w-3 h-3" />}
+          JSON
+        </Button>
         <Button
           size="sm"
           variant="secondary"
@@ -268,6 +459,52 @@ export function ResumePreview({
           {downloading === 'gdrive' ? <Loader2 className="w-3 h-3 animate-spin" /> : <CloudUpload className="w-3 h-3" />}
         </Button>
       </div>
+
+      {/* Plain Text & Markdown */}
+      <div className="flex items-center gap-2 px-3 pb-3">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleDownload('txt')}
+          disabled={!!downloading}
+          className="flex-1 text-xs"
+          title="ATS-safe plain text"
+        >
+          <FileType className="w-3 h-3" />
+          .txt
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleDownload('md')}
+          disabled={!!downloading}
+          className="flex-1 text-xs"
+          title="Markdown"
+        >
+          <Hash className="w-3 h-3" />
+          .md
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => handleCopy('text')}
+          className="flex-1 text-xs"
+          title="Copy plain text for application forms"
+        >
+          {copied === 'text' ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          Copy text
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => handleCopy('markdown')}
+          className="flex-1 text-xs"
+          title="Copy Markdown"
+        >
+          {copied === 'markdown' ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          Copy MD
+        </Button>
+      </div>
     </div>
   );
 }
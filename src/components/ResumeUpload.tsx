@@ -160,12 +160,12 @@ export function ResumeUpload({ onUpload, currentFileName }: ResumeUploadProps) {
             {loading ? 'Processing...' : isDragging ? 'Drop to upload' : 'Drop your resume here'}
           </p>
           <p className="text-xs text-muted-foreground">
-            or <span className="text-primary font-medium">click</span> to browse. Supports <strong>.pdf</strong>, <strong>.docx</strong>, <strong>.tex</strong>
+            or <span className="text-primary font-medium">click</span> to browse. Supports <strong>.pdf</strong>, <strong>.docx</strong>, <strong>.tex</strong>, <strong>JSON Resume</strong>
           </p>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.docx,.doc,.tex,.txt"
+            accept=".pdf,.docx,.doc,.tex,.txt,.json"
             onChange={handleFileUpload}
             disabled={loading}
             className="hidden"
@@ -1,15 +1,52 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Input, Textarea, Card, CardContent, Switch } from './ui/index';
-import { storageService, type UserSettings } from '@/services/storage-service';
+import { storageService, type PipelineMode, type PipelineSection, type UserSettings } from '@/services/storage-service';
+import { resumeVersionService } from '@/services/resume-version-service';
 import { knowledgeBaseService } from '@/services/knowledge-base-service';
 import { aiService } from '@/services/ai-service';
+import { aiProviderRegistry } from '@/services/ai-providers';
+import { DEFAULT_PIPELINE_MODE, PIPELINE_SECTIONS } from '@/services/tailoring-pipeline';
+import { latexCompilerService } from '@/services/latex-compiler-service';
+import { DOCX_TEMPLATES, getDocxTemplate } from '@/lib/resume-docx';
+import { LINT_RULES, type LintRuleId } from '@/lib/resume-lint';
 import { UserProfileForm } from './UserProfileForm';
+import { SkillTaxonomyEditor } from './SkillTaxonomyEditor';
 import {
   Key, Github, Linkedin, FileText, Save, Loader2, CheckCircle2,
-  RefreshCw, Trash2, Moon, Sun, Database, Settings2, Download, Upload, AlertCircle,
+  RefreshCw, Trash2, Moon, Sun, Database, Settings2, Download, Upload, AlertCircle, Server,
+  ChevronDown, ChevronRight, FileCog, FileType, SpellCheck,
 } from 'lucide-react';
 
+type PromptOverrideKey =
+  | 'customPrompt'
+  | 'jobAnalysisPrompt'
+  | 'projectsOptimizationPrompt'
+  | 'skillsEnhancementPrompt'
+  | 'experienceRefinementPrompt'
+  | 'finalPolishPrompt';
+
+const PROMPT_OVERRIDES: { key: PromptOverrideKey; label: string }[] = [
+  { key: 'customPrompt', label: 'Single-pass tailoring' },
+  { key: 'jobAnalysisPrompt', label: 'Job analysis' },
+  { key: 'projectsOptimizationPrompt', label: 'Projects optimization' },
+  { key: 'skillsEnhancementPrompt', label: 'Skills enhancement' },
+  { key: 'experienceRefinementPrompt', label: 'Experience refinement' },
+  { key: 'finalPolishPrompt', label: 'Final polish' },
+];
+
+const PIPELINE_MODES: { id: PipelineMode; label: string }[] = [
+  { id: 'combined', label: 'Combined' },
+  { id: 'sequential', label: 'Sequential' },
+  { id: 'parallel', label: 'Parallel' },
+];
+
+const PAGE_FIT_TARGETS: { pages?: number; label: string }[] = [
+  { label: 'Off' },
+  { pages: 1, label: '1 page' },
+  { pages: 2, label: '2 pages' },
+];
+
 interface SettingsPanelProps {
   onClose: () => void;
 }
@@ -29,9 +66,14 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const [saved, setSaved] = useState(false);
   const [showKey, setShowKey] = useState(false);
   const [repoCount, setRepoCount] = useState(0);
+  const [models, setModels] = useState<string[]>([]);
+  const [modelError, setModelError] = useState('');
+  const [showPrompts, setShowPrompts] = useState(false);
+  const [localEngine, setLocalEngine] = useState<boolean | null>(null);
 
   useEffect(() => {
     loadSettings();
+    latexCompilerService.isLocalEngineInstalled().then(setLocalEngine);
   }, []);
 
   const loadSettings = async () => {
@@ -42,19 +84,28 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
     setRepoCount(kb.githubRepos?.length || 0);
   };
 
+  const pipelineSections = settings.pipelineSections ?? PIPELINE_SECTIONS;
+
+  const togglePipelineSection = (section: PipelineSection) => {
+    const next = pipelineSections.includes(section)
+      ? pipelineSections.filter((s) => s !== section)
+      : [...pipelineSections, section];
+    setSettings({ ...settings, pipelineSections: next });
+  };
+
+  const toggleLintRule = (rule: LintRuleId) => {
+    const disabled = settings.disabledLintRules || [];
+    const next = disabled.includes(rule) ? disabled.filter((r) => r !== rule) : [...disabled, rule];
+    setSettings({ ...settings, disabledLintRules: next });
+  };
+
   const handleSave = async () => {
     setLoading('save');
     try {
       await storageService.saveSettings(settings);
-      // We'll update the active provider key based on selection.
-      // But actually, aiService should probably load both or load the active one on init/change.
-      // For now, let's just save. The AI service will read from storage or we can set it explicitly.
-      // Better to have a configure method that takes full settings or reads them.
-      // Let's rely on aiService reading storage or being re-initialized.
-      await aiService.setApiKey(settings.aiProvider === 'gemini' ? settings.geminiApiKey : settings.groqApiKey);
-      // Also strictly set the provider preference if we add that method to AI service, 
-      // but for now let's just save settings which AI service reads.
-      
+      // Re-initialize so the newly selected provider is built from the saved settings
+      await aiService.reload();
+
       await knowledgeBaseService.saveManualText(manualKB);
 
       // Apply theme
@@ -69,6 +120,29 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
     }
   };
 
+  const handleLoadModels = async () => {
+    setLoading('models');
+    setModelError('');
+    try {
+      // Build a throwaway provider from the unsaved form values
+      const list = await aiProviderRegistry.create(settings).listModels();
+      setModels(list);
+      if (list.length === 0) setModelError('No models returned');
+    } catch (err: any) {
+      setModels([]);
+      setModelError(err.message);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const modelKey = ({
+    gemini: 'geminiModel',
+    groq: 'groqModel',
+    openai: 'openaiModel',
+    ollama: 'ollamaModel',
+  } as const)[settings.aiProvider];
+
   const handleGitHubImport = async () => {
     if (!githubUsername.trim()) return;
     setLoading('github');
@@ -108,7 +182,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
     try {
       const settings = await storageService.getSettings();
       const kb = await storageService.getKnowledgeBase();
-      const history = await storageService.getResumeHistory();
+      const versions = await resumeVersionService.getAll();
 
       const exportData = {
         version: '1.0',
@@ -116,7 +190,16 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
         settings: {
           aiProvider: settings.aiProvider,
           multiAgentMode: settings.multiAgentMode,
+          pipelineSections: settings.pipelineSections,
+          pipelineMode: settings.pipelineMode,
+          tailoringIntensity: settings.tailoringIntensity,
+          lockedSections: settings.lockedSections,
+          pageFitTarget: settings.pageFitTarget,
+          customSkills: settings.customSkills,
+          disabledLintRules: settings.disabledLintRules,
           deepAnalysis: settings.deepAnalysis,
+          remoteCompileFallback: settings.remoteCompileFallback,
+          docxTemplate: settings.docxTemplate,
           theme: settings.theme,
         },
         knowledgeBase: {
@@ -124,8 +207,8 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           repoCount: kb.githubRepos?.length || 0,
         },
         resumeHistory: {
-          count: history.length,
-          lastTailored: history[history.length - 1]?.createdAt || null,
+          count: versions.length,
+          lastTailored: versions.find((v) => v.kind === 'tailored')?.createdAt || null,
         },
       };
 
@@ -170,23 +253,22 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
             {/* Provider Selection */}
             <div className="space-y-2">
               <label className="text-xs font-medium">AI Provider</label>
-              <div className="flex gap-2">
-                <Button 
-                  size="sm" 
-                  variant={settings.aiProvider === 'gemini' ? 'default' : 'outline'}
-                  onClick={() => setSettings({ ...settings, aiProvider: 'gemini' })}
-                  className="flex-1 text-xs"
-                >
-                  Gemini
-                </Button>
-                <Button 
-                  size="sm" 
-                  variant={settings.aiProvider === 'groq' ? 'default' : 'outline'}
-                  onClick={() => setSettings({ ...settings, aiProvider: 'groq' })}
-                  className="flex-1 text-xs"
-                >
-                  Groq 🚀
-                </Button>
+              <div className="grid grid-cols-2 gap-2">
+                {aiProviderRegistry.list().map((p) => (
+                  <Button
+                    key={p.id}
+                    size="sm"
+                    variant={settings.aiProvider === p.id ? 'default' : 'outline'}
+                    onClick={() => {
+                      setSettings({ ...settings, aiProvider: p.id });
+                      setModels([]);
+                      setModelError('');
+                    }}
+                    className="text-xs"
+                  >
+                    {p.label}
+                  </Button>
+                ))}
               </div>
             </div>
 
@@ -255,6 +337,87 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                 </a>
               </div>
             )}
+
+            {/* OpenAI-compatible Endpoint */}
+            {settings.aiProvider === 'openai' && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Server className="w-4 h-4 text-primary" />
+                  <h3 className="text-sm font-semibold">OpenAI-compatible Endpoint</h3>
+                </div>
+                <Input
+                  value={settings.openaiBaseUrl || ''}
+                  onChange={(e) => setSettings({ ...settings, openaiBaseUrl: e.target.value })}
+                  placeholder="https://my-server.example.com/v1"
+                  className="text-xs"
+                />
+                <div className="relative">
+                  <Input
+                    type={showKey ? 'text' : 'password'}
+                    value={settings.openaiApiKey || ''}
+                    onChange={(e) => setSettings({ ...settings, openaiApiKey: e.target.value })}
+                    placeholder="API key (optional for self-hosted)"
+                    className="text-xs pr-14"
+                  />
+                  <button
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground"
+                  >
+                    {showKey ? 'Hide' : 'Show'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Ollama Server */}
+            {settings.aiProvider === 'ollama' && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Server className="w-4 h-4 text-primary" />
+                  <h3 className="text-sm font-semibold">Ollama Server</h3>
+                </div>
+                <Input
+                  value={settings.ollamaBaseUrl || ''}
+                  onChange={(e) => setSettings({ ...settings, ollamaBaseUrl: e.target.value })}
+                  placeholder="http://localhost:11434"
+                  className="text-xs"
+                />
+                <p className="text-[10px] text-muted-foreground">
+                  Start Ollama with OLLAMA_ORIGINS=chrome-extension://* so the extension can reach it.
+                </p>
+              </div>
+            )}
+
+            {/* Model */}
+            <div className="space-y-2">
+              <label className="text-xs font-medium">Model</label>
+              <div className="flex gap-2">
+                <Input
+                  value={settings[modelKey] || ''}
+                  onChange={(e) => setSettings({ ...settings, [modelKey]: e.target.value })}
+                  placeholder={aiProviderRegistry.get(settings.aiProvider)?.defaultModel || 'model-name'}
+                  list="ai-model-options"
+                  className="text-xs flex-1"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleLoadModels}
+                  disabled={loading === 'models'}
+                  className="text-xs"
+                  title="Fetch available models"
+                >
+                  {loading === 'models' ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                </Button>
+              </div>
+              <datalist id="ai-model-options">
+                {models.map((m) => <option key={m} value={m} />)}
+              </datalist>
+              {modelError && <p className="text-[10px] text-destructive">{modelError}</p>}
+              {models.length > 0 && (
+                <p className="text-[10px] text-muted-foreground">{models.length} models available</p>
+              )}
+            </div>
           </CardContent>
         </Card>
 
@@ -265,13 +428,102 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-xs font-medium">Multi-Agent Mode</p>
-                <p className="text-[10px] text-muted-foreground">Uses 5 specialized agents for thorough tailoring</p>
+                <p className="text-[10px] text-muted-foreground">Analyzes the job, rewrites sections, then polishes the result</p>
               </div>
               <Switch
                 checked={settings.multiAgentMode}
                 onCheckedChange={(v) => setSettings({ ...settings, multiAgentMode: v })}
               />
             </div>
+            {settings.multiAgentMode && (
+              <div className="space-y-3 pl-3 border-l-2 border-border">
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium">Sections to rewrite</p>
+                  <div className="flex gap-2">
+                    {PIPELINE_SECTIONS.map((section) => (
+                      <Button
+                        key={section}
+                        size="sm"
+                        variant={pipelineSections.includes(section) ? 'default' : 'outline'}
+                        onClick={() => togglePipelineSection(section)}
+                        className="text-xs capitalize h-7"
+                      >
+                        {section}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium">Section steps</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {PIPELINE_MODES.map((mode) => (
+                      <Button
+                        key={mode.id}
+                        size="sm"
+                        variant={(settings.pipelineMode ?? DEFAULT_PIPELINE_MODE) === mode.id ? 'default' : 'outline'}
+                        onClick={() => setSettings({ ...settings, pipelineMode: mode.id })}
+                        className="text-xs h-7"
+                      >
+                        {mode.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">
+                    {(settings.pipelineMode ?? DEFAULT_PIPELINE_MODE) === 'combined'
+                      ? 'One request drafts every section (fewer API calls)'
+                      : 'Each section gets its own specialized prompt'}
+                  </p>
+                </div>
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium">Fit to pages</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {PAGE_FIT_TARGETS.map((target) => (
+                      <Button
+                        key={target.label}
+                        size="sm"
+                        variant={settings.pageFitTarget === target.pages ? 'default' : 'outline'}
+                        onClick={() => setSettings({ ...settings, pageFitTarget: target.pages })}
+                        className="text-xs h-7"
+                      >
+                        {target.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">
+                    {settings.pageFitTarget
+                      ? 'Measures the result and trims the bullets least relevant to the job until it fits'
+                      : 'The result is not trimmed to a page count'}
+                  </p>
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <button
+                onClick={() => setShowPrompts(!showPrompts)}
+                className="flex items-center gap-1 text-xs font-medium"
+              >
+                {showPrompts ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                Prompt Overrides
+              </button>
+              {showPrompts && (
+                <div className="space-y-3">
+                  <p className="text-[10px] text-muted-foreground">
+                    Leave empty to use the built-in prompt. Placeholders such as {'{jobDesc}'} and {'{originalLatex}'} are filled in automatically.
+                  </p>
+                  {PROMPT_OVERRIDES.map(({ key, label }) => (
+                    <div key={key} className="space-y-1">
+                      <label className="text-[10px] font-medium text-muted-foreground">{label}</label>
+                      <Textarea
+                        value={settings[key] || ''}
+                        onChange={(e) => setSettings({ ...settings, [key]: e.target.value })}
+                        placeholder="Built-in prompt"
+                        className="text-[10px] font-mono min-h-[60px]"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-xs font-medium">Deep Analysis</p>
@@ -301,6 +553,89 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           </CardContent>
         </Card>
 
+        {/* PDF Compilation */}
+        <Card className="glass-card">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <FileCog className="w-4 h-4 text-primary" />
+              <h3 className="text-sm font-semibold">PDF Compilation</h3>
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              {localEngine === null
+                ? 'Checking for the offline LaTeX engine...'
+                : localEngine
+                  ? 'Offline LaTeX engine installed – resumes compile on this device.'
+                  : 'Offline LaTeX engine not installed. Add it under engines/ in the extension build to compile without a network.'}
+            </p>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs font-medium">Remote Compile Fallback</p>
+                <p className="text-[10px] text-muted-foreground">Upload the resume to the compile server when offline compilation is unavailable; off keeps it on this device</p>
+              </div>
+              <Switch
+                checked={settings.remoteCompileFallback ?? false}
+                onCheckedChange={(v) => setSettings({ ...settings, remoteCompileFallback: v })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Word Export */}
+        <Card className="glass-card">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <FileType className="w-4 h-4 text-primary" />
+              <h3 className="text-sm font-semibold">Word Export Template</h3>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {DOCX_TEMPLATES.map((template) => (
+                <Button
+                  key={template.id}
+                  size="sm"
+                  variant={getDocxTemplate(settings.docxTemplate).id === template.id ? 'default' : 'outline'}
+                  onClick={() => setSettings({ ...settings, docxTemplate: template.id })}
+                  className="text-xs h-7"
+                >
+                  {template.name}
+                </Button>
+              ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground">{getDocxTemplate(settings.docxTemplate).description}</p>
+          </CardContent>
+        </Card>
+
+        {/* Skills Taxonomy */}
+        <Card className="glass-card">
+          <CardContent className="p-4">
+            <SkillTaxonomyEditor
+              skills={settings.customSkills || []}
+              onChange={(customSkills) => setSettings({ ...settings, customSkills })}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Resume Lint */}
+        <Card className="glass-card">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <SpellCheck className="w-4 h-4 text-primary" />
+              <h3 className="text-sm font-semibold">Resume Lint</h3>
+            </div>
+            {LINT_RULES.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs font-medium">{rule.label}</p>
+                  <p className="text-[10px] text-muted-foreground">{rule.description}</p>
+                </div>
+                <Switch
+                  checked={!settings.disabledLintRules?.includes(rule.id)}
+                  onCheckedChange={() => toggleLintRule(rule.id)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         {/* Knowledge Base */}
         <Card className="glass-card">
           <CardContent className="p-4 space-y-3">
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/index';
+import { BUNDLED_SKILLS, SKILL_CATEGORIES, type CustomSkill, type SkillCategory } from '@/lib/skills-taxonomy';
+import { Plus, Tags, Trash2 } from 'lucide-react';
+
+interface SkillTaxonomyEditorProps {
+  skills: CustomSkill[];
+  onChange: (skills: CustomSkill[]) => void;
+}
+
+const findBundled = (name: string) =>
+  BUNDLED_SKILLS.find((s) => s.name.toLowerCase() === name.trim().toLowerCase());
+
+// User additions to the skills taxonomy: new skills, or aliases for bundled ones
+export function SkillTaxonomyEditor({ skills, onChange }: SkillTaxonomyEditorProps) {
+  const update = (index: number, changes: Partial<CustomSkill>) =>
+    onChange(skills.map((skill, i) => (i === index ? { ...skill, ...changes } : skill)));
+
+  const rename = (index: number, name: string) => {
+    // Naming a bundled skill extends it, so start from its category
+    const bundled = findBundled(name);
+    update(index, bundled ? { name, category: bundled.category } : { name });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Tags className="w-4 h-4 text-primary" />
+        <h3 className="flex-1 text-sm font-semibold">Skills Taxonomy</h3>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => onChange([...skills, { name: '', category: 'tool', aliases: [] }])}
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </Button>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {BUNDLED_SKILLS.length} skills are built in. Add your own, or enter a built-in name such as Kubernetes to give it extra aliases.
+        Keyword matching, coverage scores and the Skills section use the canonical name.
+      </p>
+
+      {skills.map((skill, index) => {
+        const bundled = findBundled(skill.name);
+        return (
+          <div key={index} className="space-y-1.5 p-2 rounded-md border border-border">
+            <div className="flex items-center gap-2">
+              <Input
+                value={skill.name}
+                onChange={(e) => rename(index, e.target.value)}
+                placeholder="Canonical name"
+                className="h-7 text-xs flex-1"
+              />
+              <select
+                value={skill.category}
+                onChange={(e) => update(index, { category: e.target.value as SkillCategory })}
+                className="h-7 px-1.5 rounded-md border border-border bg-background text-xs"
+              >
+                {(Object.keys(SKILL_CATEGORIES) as SkillCategory[]).map((category) => (
+                  <option key={category} value={category}>
+                    {SKILL_CATEGORIES[category]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange(skills.filter((_, i) => i !== index))}
+                className="p-1 rounded text-muted-foreground hover:bg-muted hover:text-destructive"
+                title="Remove"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <Input
+              value={skill.aliases.join(', ')}
+              onChange={(e) => update(index, { aliases: e.target.value.split(',').map((a) => a.trimStart()) })}
+              placeholder="Aliases, comma separated"
+              className="h-7 text-xs"
+            />
+            {bundled && (
+              <p className="text-[10px] text-muted-foreground">
+                Extends the built-in {bundled.name}
+                {bundled.aliases?.length ? ` (already matches ${bundled.aliases.join(', ')})` : ''}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
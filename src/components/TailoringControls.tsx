@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Lock, LockOpen, SlidersHorizontal } from 'lucide-react';
+import { Button } from './ui/button';
+import { storageService, type TailoringIntensity } from '@/services/storage-service';
+import { DEFAULT_TAILORING_INTENSITY } from '@/services/tailoring-pipeline';
+import { DEFAULT_LOCKED_SECTIONS, listLockableSections } from '@/lib/section-locks';
+import { cn } from '@/lib/utils';
+
+interface TailoringControlsProps {
+  resumeLatex: string;
+}
+
+const INTENSITIES: { id: TailoringIntensity; label: string; hint: string }[] = [
+  { id: 'light', label: 'Light', hint: 'Keyword swaps and reordering, original wording kept' },
+  { id: 'moderate', label: 'Moderate', hint: 'Rewrites bullets and swaps in stronger projects' },
+  { id: 'aggressive', label: 'Aggressive', hint: 'Freely rewrites and replaces content to fit the job' },
+];
+
+// Tailoring intensity and per-section locks, saved straight to settings
+export function TailoringControls({ resumeLatex }: TailoringControlsProps) {
+  const [intensity, setIntensity] = useState<TailoringIntensity>(DEFAULT_TAILORING_INTENSITY);
+  const [locked, setLocked] = useState<string[]>(DEFAULT_LOCKED_SECTIONS);
+  const sections = useMemo(() => (resumeLatex ? listLockableSections(resumeLatex) : []), [resumeLatex]);
+
+  useEffect(() => {
+    storageService.getSettings().then((settings) => {
+      setIntensity(settings.tailoringIntensity ?? DEFAULT_TAILORING_INTENSITY);
+      setLocked(settings.lockedSections ?? DEFAULT_LOCKED_SECTIONS);
+    });
+  }, []);
+
+  const changeIntensity = (value: TailoringIntensity) => {
+    setIntensity(value);
+    storageService.saveSettings({ tailoringIntensity: value });
+  };
+
+  const toggleLock = (key: string) => {
+    const next = locked.includes(key) ? locked.filter((k) => k !== key) : [...locked, key];
+    setLocked(next);
+    storageService.saveSettings({ lockedSections: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <label className="text-xs font-semibold flex items-center gap-1.5">
+          <SlidersHorizontal className="w-3.5 h-3.5 text-primary" />
+          Tailoring Intensity
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {INTENSITIES.map((option) => (
+            <Button
+              key={option.id}
+              size="sm"
+              variant={intensity === option.id ? 'default' : 'outline'}
+              onClick={() => changeIntensity(option.id)}
+              className="text-xs h-7"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          {INTENSITIES.find((option) => option.id === intensity)?.hint}
+        </p>
+      </div>
+
+      {sections.length > 0 && (
+        <div className="space-y-1.5">
+          <label className="text-xs font-semibold flex items-center gap-1.5">
+            <Lock className="w-3.5 h-3.5 text-primary" />
+            Locked Sections
+          </label>
+          <div className="flex flex-wrap gap-1.5">
+            {sections.map((section) => {
+              const isLocked = locked.includes(section.key);
+              return (
+                <button
+                  key={section.key}
+                  onClick={() => toggleLock(section.key)}
+                  className={cn(
+                    'flex items-center gap-1 px-2 py-1 rounded-md border text-[11px] transition-colors',
+                    isLocked
+                      ? 'border-primary/40 bg-primary/10 text-primary'
+                      : 'border-border text-muted-foreground hover:text-foreground'
+                  )}
+                  title={isLocked ? 'Locked: passes through unchanged' : 'Unlocked: the AI may rewrite it'}
+                >
+                  {isLocked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+                  {section.title}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Locked sections are copied byte-for-byte and restored if the AI changes them
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
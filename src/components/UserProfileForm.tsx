@@ -2,7 +2,9 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Input, Toast } from './ui/index';
 import { Button } from './ui/button';
 import { storageService, type UserProfile } from '@/services/storage-service';
+import { resumeVersionService } from '@/services/resume-version-service';
 import { aiService } from '@/services/ai-service';
+import { profileFromResume, resumeFromLatex } from '@/lib/resume-model';
 import {
     User, Mail, Phone, Globe, MapPin, Briefcase,
     GraduationCap, Shield, DollarSign, Clock, Save, Loader2,
@@ -115,16 +117,24 @@ export function UserProfileForm() {
     const handleAutoPopulate = useCallback(async () => {
         setAutoPopulating(true);
         try {
-            // Load resume content from storage
-            const data = await chrome.storage.local.get(['resumeHistory']);
-            const history = data.resumeHistory;
-            const resumeText = history?.versions?.[0]?.content || '';
+            // Load the most recent original resume from history
+            const versions = await resumeVersionService.getAll();
+            const resumeText = versions.find((v) => v.kind === 'original')?.latex || '';
             if (!resumeText) {
                 setToast({ message: 'Upload a resume first', type: 'error' });
                 return;
             }
 
-            const extracted = await aiService.extractProfileFromResume(resumeText);
+            // Contact, education and title fields come straight from the
+            // structured resume; the AI fills in whatever it can't read
+            const structured = profileFromResume(resumeFromLatex(resumeText));
+            let inferred: Partial<UserProfile> = {};
+            try {
+                inferred = await aiService.extractProfileFromResume(resumeText);
+            } catch (err) {
+                if (Object.keys(structured).length === 0) throw err;
+            }
+            const extracted = { ...inferred, ...structured };
 
             // Merge only into empty fields
             setProfile((prev) => {
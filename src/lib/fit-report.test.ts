@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { buildFitReport } from './fit-report';
+import { estimateResumeSeniority } from './jd-analyzer';
+
+const resume = (title: string, dates: string) => String.raw`
+\begin{document}
+\section{Experience}
+\resumeSubHeadingListStart
+\resumeSubheading{${title}}{${dates}}{Acme Corporation}{Austin, TX}
+\resumeItemListStart
+\resumeItem{Built data pipelines in Python}
+\resumeItemListEnd
+\resumeSubHeadingListEnd
+\end{document}`;
+
+const seniorJob = 'Senior Software Engineer\nRequired: 5+ years of Python';
+
+describe('resume seniority in the fit report', () => {
+    it('has no level when neither the title nor dates give one', () => {
+        expect(estimateResumeSeniority(resume('Software Engineer', ''))).toBeNull();
+
+        const report = buildFitReport(resume('Software Engineer', ''), seniorJob);
+        expect(report.seniority.resume).toBeNull();
+        expect(report.seniority.mismatch).toBeNull();
+        expect(report.gaps.some((gap) => gap.kind === 'seniority')).toBe(false);
+    });
+
+    it('still reads the level from dates alone', () => {
+        const year = new Date().getFullYear();
+        expect(estimateResumeSeniority(resume('Software Engineer', `Jan ${year - 5} -- Present`))).toBe('senior');
+    });
+});
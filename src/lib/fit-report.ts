@@ -0,0 +1,162 @@
+// Job fit report
+// How well a resume fits one job description: a match score, the must-haves
+// and nice-to-haves it covers or misses, any seniority mismatch, and for every
+// gap a way to close it – a knowledge-base item to surface, or a small project.
+
+import {
+    SENIORITY_ORDER,
+    analyzeCoverage,
+    estimateResumeSeniority,
+    type CoverageStatus,
+    type RequirementLevel,
+    type Seniority,
+} from './jd-analyzer';
+import { canonicalSkillNames, type SkillCategory } from './skills-taxonomy';
+import type { KnowledgeSource } from './tailoring-changelog';
+
+export interface FitRequirement {
+    name: string;
+    status: CoverageStatus;
+}
+
+export type SeniorityMismatch = 'under' | 'over';
+
+export type FitGapKind = 'skill' | 'experience' | 'seniority';
+
+export interface FitGap {
+    kind: FitGapKind;
+    requirement: string;
+    level: RequirementLevel;
+    suggestion: string;
+    // Knowledge-base item to surface; null when the suggestion is a project
+    source: KnowledgeSource | null;
+}
+
+export interface FitReport {
+    // 0-100: keyword coverage, less a penalty per seniority level short
+    score: number;
+    mustHaves: FitRequirement[];
+    niceToHaves: FitRequirement[];
+    seniority: {
+        job: Seniority | null;
+        // null when the resume has no title or dates to go on
+        resume: Seniority | null;
+        mismatch: SeniorityMismatch | null;
+    };
+    gaps: FitGap[];
+    createdAt: number;
+}
+
+// A knowledge-base item with the text to search for skills
+export interface KnowledgeSourceText {
+    source: KnowledgeSource;
+    text: string;
+}
+
+export interface FitReportInput {
+    // Technologies the AI job analysis marked as required
+    requiredTechnologies?: string[];
+    sources?: KnowledgeSourceText[];
+}
+
+const SENIORITY_PENALTY = 10;
+const MAX_SENIORITY_PENALTY = 30;
+
+// ─── Suggestions ─────────────────────────────────────────────
+const PROJECT_IDEAS: Record<SkillCategory, (skill: string) => string> = {
+    language: (s) => `Port a small tool you use to ${s} and publish it with tests`,
+    frontend: (s) => `Build a small ${s} dashboard over a public API and deploy it`,
+    backend: (s) => `Build a REST API with ${s}: auth, persistence, tests and a deploy`,
+    mobile: (s) => `Ship a small ${s} app that works offline`,
+    database: (s) => `Model a real dataset in ${s} and write the queries one feature needs`,
+    cloud: (s) => `Deploy one of your projects to ${s} with infrastructure as code`,
+    devops: (s) => `Add ${s} to the build and deploy of one of your repositories`,
+    data: (s) => `Build a small ${s} pipeline over a public dataset and write up the results`,
+    ml: (s) => `Train and evaluate a small model with ${s} on a public dataset`,
+    testing: (s) => `Add a ${s} test suite to one of your projects and report the coverage`,
+    tool: (s) => `Use ${s} in one of your projects and document the setup`,
+    practice: (s) => `Apply ${s} in a small project and write up what it changed`,
+};
+
+const SENIORITY_SUGGESTIONS: Record<SeniorityMismatch, string> = {
+    under: 'Show scope in your most recent role: ownership, mentoring and impact beyond your team',
+    over: 'Lead with hands-on work and say why this role appeals in your cover letter',
+};
+
+// ─── Report ──────────────────────────────────────────────────
+export function buildFitReport(resumeLatex: string, jobDescription: string, input: FitReportInput = {}): FitReport {
+    // The AI analysis can name required technologies the offline pass reads
+    // as preferred or misses; a "Required:" line makes them count as such
+    const technologies = input.requiredTechnologies?.filter(Boolean) ?? [];
+    const description = technologies.length ? `${jobDescription}\nRequired: ${technologies.join(', ')}` : jobDescription;
+    const coverage = analyzeCoverage(resumeLatex, description);
+
+    const sources = (input.sources ?? []).map(({ source, text }) => ({ source, skills: new Set(canonicalSkillNames(text)) }));
+    const findSource = (skills: string[]) => sources.find((s) => skills.some((skill) => s.skills.has(skill)))?.source ?? null;
+
+    const gaps: FitGap[] = [];
+    for (const skill of coverage.skills) {
+        // A preferred skill that is only listed is good enough
+        if (skill.status === 'covered' || (skill.status === 'weak' && skill.level === 'preferred')) continue;
+        const source = findSource([skill.name]);
+        gaps.push({
+            kind: 'skill',
+            requirement: skill.name,
+            level: skill.level,
+            source,
+            suggestion: source
+                ? `Surface ${source.name}, which uses ${skill.name}`
+                : skill.status === 'weak'
+                    ? `${skill.name} is only listed; show it in a role or project bullet`
+                    : PROJECT_IDEAS[skill.category](skill.name),
+        });
+    }
+    for (const req of coverage.experience) {
+        if (req.status === 'covered') continue;
+        const source = findSource(canonicalSkillNames(req.subject));
+        gaps.push({
+            kind: 'experience',
+            requirement: `${req.years}+ years · ${req.subject}`,
+            level: req.level,
+            source,
+            suggestion: source
+                ? `Surface ${source.name} to count toward ${req.subject}`
+                : 'Count related work too: internships, open source and long-running projects',
+        });
+    }
+
+    const job = coverage.analysis.seniority;
+    const resume = estimateResumeSeniority(resumeLatex);
+    const levels = job && resume ? SENIORITY_ORDER.indexOf(job) - SENIORITY_ORDER.indexOf(resume) : 0;
+    // One level above is a stretch worth flagging; one below is normal
+    const mismatch: SeniorityMismatch | null = levels >= 1 ? 'under' : levels <= -2 ? 'over' : null;
+    if (job && mismatch) {
+        gaps.push({
+            kind: 'seniority',
+            requirement: `${job} role, resume reads ${resume}`,
+            level: 'required',
+            source: null,
+            suggestion: SENIORITY_SUGGESTIONS[mismatch],
+        });
+    }
+
+    const toRequirement = ({ name, status }: FitRequirement) => ({ name, status });
+    const penalty = mismatch === 'under' ? Math.min(levels * SENIORITY_PENALTY, MAX_SENIORITY_PENALTY) : 0;
+    return {
+        score: Math.max(0, coverage.score - penalty),
+        mustHaves: coverage.skills.filter((s) => s.level === 'required').map(toRequirement),
+        niceToHaves: coverage.skills.filter((s) => s.level === 'preferred').map(toRequirement),
+        seniority: { job, resume, mismatch },
+        gaps,
+        createdAt: Date.now(),
+    };
+}
+
+// Gaps numbered for the prompt; only those without a knowledge-base item
+export function describeProjectGaps(report: FitReport): string {
+    return report.gaps
+        .map((gap, i) => ({ gap, i }))
+        .filter(({ gap }) => gap.kind !== 'seniority' && !gap.source)
+        .map(({ gap, i }) => `[${i}] ${gap.requirement} (${gap.level} ${gap.kind})`)
+        .join('\n');
+}
@@ -0,0 +1,278 @@
+// Offline job description analysis
+// Pulls required and preferred skills, seniority signals and years-of-experience
+// requirements out of a job description with the skills taxonomy,
+// then reports how well a resume covers them. No AI call involved.
+
+import { getSections, latexToText, parseLatex } from './latex-parser';
+import { resumeFromLatex, sectionKind } from './resume-model';
+import { findSkills, type SkillCategory } from './skills-taxonomy';
+
+export type RequirementLevel = 'required' | 'preferred';
+export type Seniority = 'intern' | 'junior' | 'mid' | 'senior' | 'staff' | 'principal' | 'manager';
+
+export interface JobSkill {
+    name: string;
+    category: SkillCategory;
+    level: RequirementLevel;
+    mentions: number;
+    // First sentence the skill appears in
+    context: string;
+}
+
+export interface ExperienceRequirement {
+    years: number;
+    level: RequirementLevel;
+    // What the years apply to, e.g. "Python" or "backend development"
+    subject: string;
+    text: string;
+}
+
+export interface JobAnalysisReport {
+    skills: JobSkill[];
+    experience: ExperienceRequirement[];
+    seniority: Seniority | null;
+    senioritySignals: string[];
+}
+
+// ─── Requirement Level ───────────────────────────────────────
+const PREFERRED_HEADING = /\b(preferred|nice[- ]to[- ]have|bonus|desired|plus(es)?|good to have|ideally)\b/i;
+const REQUIRED_HEADING = /\b(requirements?|required|qualifications|must[- ]haves?|what you('ll)? (need|bring)|you have|about you)\b/i;
+const PREFERRED_CUE = /\b(preferred|nice[- ]to[- ]have|a plus|is a plus|bonus|ideally|desirable|familiarity with|exposure to)\b/i;
+const REQUIRED_CUE = /\b(must|required|requires|strong|proficien(t|cy)|expert(ise)?|deep)\b/i;
+
+// Short lines ending in ":" or without sentence punctuation read as headings
+function isHeading(line: string): boolean {
+    return line.length < 60 && (/:$/.test(line) || (!/[.,;]/.test(line) && /^[A-Z#*]/.test(line)));
+}
+
+interface JobSentence {
+    text: string;
+    level: RequirementLevel;
+}
+
+function readSentences(jobDescription: string): JobSentence[] {
+    const sentences: JobSentence[] = [];
+    let sectionLevel: RequirementLevel = 'required';
+
+    for (const raw of jobDescription.split('\n')) {
+        const line = raw.replace(/^[\s•\-*·▪●]+/, '').trim();
+        if (!line) continue;
+        if (isHeading(line)) {
+            if (PREFERRED_HEADING.test(line)) sectionLevel = 'preferred';
+            else if (REQUIRED_HEADING.test(line)) sectionLevel = 'required';
+        }
+        for (const text of line.split(/(?<=[.;!?])\s+/)) {
+            const level = PREFERRED_CUE.test(text)
+                ? 'preferred'
+                : REQUIRED_CUE.test(text) ? 'required' : sectionLevel;
+            sentences.push({ text, level });
+        }
+    }
+    return sentences;
+}
+
+// ─── Years of Experience ─────────────────────────────────────
+const YEARS_REGEX = /(\d{1,2})\s*(?:\+|plus)?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?\+?\s*(?:years?|yrs?)\b(?:\s+of)?([^.;\n]*)/gi;
+
+function readExperience(sentence: JobSentence): ExperienceRequirement[] {
+    const requirements: ExperienceRequirement[] = [];
+    for (const match of sentence.text.matchAll(YEARS_REGEX)) {
+        const years = Number(match[1]);
+        if (!years || years > 30) continue;
+        const rest = match[2];
+        const skills = findSkills(rest).map((m) => m.skill.name);
+        const subject = skills.length
+            ? [...new Set(skills)].join(', ')
+            : rest
+                .replace(/^\s*(professional|industry|relevant|hands-on|working|of)\b/gi, '')
+                .replace(/^\s*experience\s*(with|in|using|of|as)?\s*/i, '')
+                .trim()
+                .slice(0, 50) || 'overall experience';
+        requirements.push({ years, level: sentence.level, subject, text: sentence.text });
+    }
+    return requirements;
+}
+
+// ─── Seniority ───────────────────────────────────────────────
+const SENIORITY_SIGNALS: { level: Seniority; pattern: RegExp }[] = [
+    { level: 'intern', pattern: /\b(intern(ship)?|co-?op)\b/i },
+    { level: 'junior', pattern: /\b(junior|jr\.?|entry[- ]level|new grad(uate)?)\b/i },
+    { level: 'mid', pattern: /\b(mid[- ]level|intermediate)\b/i },
+    { level: 'senior', pattern: /\b(senior|sr\.?)\b/i },
+    { level: 'staff', pattern: /\b(staff|tech lead|team lead|lead (engineer|developer))\b/i },
+    { level: 'principal', pattern: /\b(principal|distinguished|architect)\b/i },
+    { level: 'manager', pattern: /\b(engineering manager|manager|head of|director)\b/i },
+];
+
+export const SENIORITY_ORDER: Seniority[] = ['intern', 'junior', 'mid', 'senior', 'staff', 'principal', 'manager'];
+
+function seniorityFromYears(years: number): Seniority {
+    if (years <= 1) return 'junior';
+    if (years <= 4) return 'mid';
+    if (years <= 7) return 'senior';
+    return 'staff';
+}
+
+// ─── Analysis ────────────────────────────────────────────────
+export function analyzeJobDescription(jobDescription: string): JobAnalysisReport {
+    const sentences = readSentences(jobDescription);
+    const skills = new Map<string, JobSkill>();
+    const experience: ExperienceRequirement[] = [];
+
+    for (const sentence of sentences) {
+        for (const { skill } of findSkills(sentence.text)) {
+            const existing = skills.get(skill.name);
+            if (existing) {
+                existing.mentions++;
+                // Required anywhere beats preferred elsewhere
+                if (sentence.level === 'required') existing.level = 'required';
+            } else {
+                skills.set(skill.name, {
+                    name: skill.name,
+                    category: skill.category,
+                    level: sentence.level,
+                    mentions: 1,
+                    context: sentence.text,
+                });
+            }
+        }
+        experience.push(...readExperience(sentence));
+    }
+
+    // The title (first lines) counts most; otherwise take the strongest signal
+    const head = sentences.slice(0, 3).map((s) => s.text).join(' ');
+    const signals = SENIORITY_SIGNALS.filter((s) => s.pattern.test(jobDescription));
+    const titleSignal = SENIORITY_SIGNALS.find((s) => s.pattern.test(head));
+    const maxYears = Math.max(0, ...experience.map((e) => e.years));
+    const seniority = titleSignal?.level
+        ?? signals.map((s) => s.level).sort((a, b) => SENIORITY_ORDER.indexOf(b) - SENIORITY_ORDER.indexOf(a))[0]
+        ?? (maxYears ? seniorityFromYears(maxYears) : null);
+
+    return {
+        skills: [...skills.values()].sort(
+            (a, b) => Number(a.level === 'preferred') - Number(b.level === 'preferred') || b.mentions - a.mentions
+        ),
+        experience,
+        seniority,
+        senioritySignals: signals.map((s) => jobDescription.match(s.pattern)![0]),
+    };
+}
+
+// ─── Resume Coverage ─────────────────────────────────────────
+// covered: used in experience, projects or summary; weak: only listed in the
+// skills section, education or header; missing: not found at all
+export type CoverageStatus = 'covered' | 'weak' | 'missing';
+
+export interface SkillCoverage extends JobSkill {
+    status: CoverageStatus;
+    resumeMentions: number;
+}
+
+export interface ExperienceCoverage extends ExperienceRequirement {
+    status: CoverageStatus;
+}
+
+export interface CoverageReport {
+    analysis: JobAnalysisReport;
+    skills: SkillCoverage[];
+    experience: ExperienceCoverage[];
+    resumeYears: number;
+    // 0-100, required skills weigh double
+    score: number;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Jun 2020" / "06/2020" / "2020" as a month count; "Present" is now
+function toMonth(date: string, now: number): number {
+    if (/present|current|now/i.test(date)) return now;
+    const year = date.match(/\b(19|20)\d{2}\b/)?.[0];
+    if (!year) return NaN;
+    const named = MONTHS.findIndex((m) => date.toLowerCase().includes(m));
+    const numeric = Number(date.match(/\b(\d{1,2})\/(?:19|20)\d{2}\b/)?.[1] || 0);
+    return Number(year) * 12 + (named >= 0 ? named : numeric ? numeric - 1 : 0);
+}
+
+// Start and end month of every work entry with readable dates, earliest first
+function workRanges(latex: string): [number, number][] {
+    const today = new Date();
+    const now = today.getFullYear() * 12 + today.getMonth();
+    return resumeFromLatex(latex).work
+        .map((w): [number, number] => [toMonth(w.startDate, now), w.endDate ? toMonth(w.endDate, now) : now])
+        .filter(([start, end]) => !isNaN(start) && !isNaN(end) && end >= start)
+        .sort((a, b) => a[0] - b[0]);
+}
+
+// Total years across work entries, overlapping roles counted once
+function resumeYears(latex: string): number {
+    const ranges = workRanges(latex);
+    let months = 0;
+    let reached = -Infinity;
+    for (const [start, end] of ranges) {
+        const from = Math.max(start, reached);
+        if (end > from) months += end - from;
+        reached = Math.max(reached, end);
+    }
+    return Math.round((months / 12) * 10) / 10;
+}
+
+// Level of the most recent title, or the one total years imply; null when
+// neither says anything, since a resume without dates is not zero years
+export function estimateResumeSeniority(resumeLatex: string): Seniority | null {
+    const latest = resumeFromLatex(resumeLatex).work[0]?.position || '';
+    const titled = SENIORITY_SIGNALS.find((s) => s.pattern.test(latest))?.level;
+    if (titled) return titled;
+    return workRanges(resumeLatex).length ? seniorityFromYears(resumeYears(resumeLatex)) : null;
+}
+
+export function analyzeCoverage(resumeLatex: string, jobDescription: string): CoverageReport {
+    const analysis = analyzeJobDescription(jobDescription);
+    const doc = parseLatex(resumeLatex);
+    const { header, sections } = getSections(doc);
+
+    const listed = new Map<string, number>();
+    const demonstrated = new Map<string, number>();
+    const count = (map: Map<string, number>, text: string) =>
+        findSkills(text).forEach(({ skill }) => map.set(skill.name, (map.get(skill.name) || 0) + 1));
+
+    count(listed, latexToText(header));
+    for (const section of sections) {
+        const kind = sectionKind(section.title);
+        const text = latexToText(section.nodes);
+        count(kind === 'skills' || kind === 'education' ? listed : demonstrated, text);
+    }
+
+    const skills: SkillCoverage[] = analysis.skills.map((skill) => {
+        const used = demonstrated.get(skill.name) || 0;
+        const mentions = used + (listed.get(skill.name) || 0);
+        const status: CoverageStatus = used > 0 ? 'covered' : mentions > 0 ? 'weak' : 'missing';
+        return { ...skill, status, resumeMentions: mentions };
+    });
+
+    const years = resumeYears(resumeLatex);
+    const experience: ExperienceCoverage[] = analysis.experience.map((req) => {
+        // Years for a specific skill can't be measured; the skill must at least appear
+        const subjectSkills = findSkills(req.subject).map((m) => m.skill.name);
+        const skillMissing = subjectSkills.some((name) => !listed.has(name) && !demonstrated.has(name));
+        const status: CoverageStatus = years >= req.years && !skillMissing
+            ? 'covered'
+            : years >= req.years - 1 ? 'weak' : 'missing';
+        return { ...req, status };
+    });
+
+    let total = 0;
+    let earned = 0;
+    for (const skill of skills) {
+        const weight = skill.level === 'required' ? 2 : 1;
+        total += weight;
+        earned += skill.status === 'covered' ? weight : skill.status === 'weak' ? weight / 2 : 0;
+    }
+
+    return {
+        analysis,
+        skills,
+        experience,
+        resumeYears: years,
+        score: total ? Math.round((earned / total) * 100) : 0,
+    };
+}
@@ -0,0 +1,206 @@
+// Line and word diffs between the original and tailored LaTeX
+// Changed lines are grouped into hunks of one bullet or heading each,
+// labelled with their section, so each can be accepted or rejected and the
+// result merged back into a single document.
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+    type: DiffSegmentType;
+    text: string;
+}
+
+export interface DiffHunk {
+    id: number;
+    section: string;
+    original: string[];
+    tailored: string[];
+}
+
+export type DiffPart = { type: 'equal'; lines: string[] } | { type: 'change'; hunk: DiffHunk };
+
+export interface LatexDiff {
+    parts: DiffPart[];
+    hunks: DiffHunk[];
+}
+
+// ─── LCS ─────────────────────────────────────────────────────
+// Edit script from a longest-common-subsequence table. Common prefix and
+// suffix are trimmed first so a typical resume diff stays small.
+function diffSequences<T>(a: T[], b: T[], key: (item: T) => string): DiffSegmentType[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && key(a[prefix]) === key(b[prefix])) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        key(a[a.length - 1 - suffix]) === key(b[b.length - 1 - suffix])
+    ) suffix++;
+
+    const ka = a.slice(prefix, a.length - suffix).map(key);
+    const kb = b.slice(prefix, b.length - suffix).map(key);
+    const n = ka.length;
+    const m = kb.length;
+    const table = new Uint32Array((n + 1) * (m + 1));
+    const at = (i: number, j: number) => i * (m + 1) + j;
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[at(i, j)] = ka[i] === kb[j]
+                ? table[at(i + 1, j + 1)] + 1
+                : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+        }
+    }
+
+    const ops: DiffSegmentType[] = Array(prefix).fill('equal');
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && ka[i] === kb[j]) {
+            ops.push('equal');
+            i++;
+            j++;
+        } else if (j < m && (i === n || table[at(i, j + 1)] >= table[at(i + 1, j)])) {
+            ops.push('added');
+            j++;
+        } else {
+            ops.push('removed');
+            i++;
+        }
+    }
+    return ops.concat(Array(suffix).fill('equal'));
+}
+
+// ─── Line Diff ───────────────────────────────────────────────
+const SECTION_RE = /\\section\*?\{([^}]*)\}/;
+
+// Share of distinct words two lines have in common
+function similarity(a: string, b: string): number {
+    const wa = new Set(a.toLowerCase().match(/\w+/g) || []);
+    const wb = new Set(b.toLowerCase().match(/\w+/g) || []);
+    let common = 0;
+    for (const word of wa) if (wb.has(word)) common++;
+    return common ? common / (wa.size + wb.size - common) : 0;
+}
+
+const MIN_PAIR_SIMILARITY = 0.3;
+
+type LinePair = { original: string[]; tailored: string[] };
+
+// Split a run of changed lines into per-line hunks. Lines pair up with the
+// most similar line they replace; leftover lines between pairs are treated
+// as rewrites in order, and any surplus as plain insertions or deletions.
+function pairLines(removed: string[], added: string[]): LinePair[] {
+    const n = removed.length;
+    const m = added.length;
+    const score = new Float64Array((n + 1) * (m + 1));
+    const at = (i: number, j: number) => i * (m + 1) + j;
+    const pairScore = (i: number, j: number) => {
+        const sim = similarity(removed[i], added[j]);
+        return sim >= MIN_PAIR_SIMILARITY ? sim + score[at(i + 1, j + 1)] : -1;
+    };
+    for (let i = n; i >= 0; i--) {
+        for (let j = m; j >= 0; j--) {
+            if (i === n || j === m) continue;
+            score[at(i, j)] = Math.max(score[at(i + 1, j)], score[at(i, j + 1)], pairScore(i, j));
+        }
+    }
+
+    const pairs: LinePair[] = [];
+    // Unpaired lines between two pairs: zip them as rewrites, the rest stand alone
+    let gap: LinePair = { original: [], tailored: [] };
+    const flushGap = () => {
+        const count = Math.max(gap.original.length, gap.tailored.length);
+        for (let k = 0; k < count; k++) {
+            pairs.push({ original: gap.original.slice(k, k + 1), tailored: gap.tailored.slice(k, k + 1) });
+        }
+        gap = { original: [], tailored: [] };
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && pairScore(i, j) === score[at(i, j)]) {
+            flushGap();
+            pairs.push({ original: [removed[i++]], tailored: [added[j++]] });
+        } else if (i < n && (j === m || score[at(i + 1, j)] === score[at(i, j)])) {
+            gap.original.push(removed[i++]);
+        } else {
+            gap.tailored.push(added[j++]);
+        }
+    }
+    flushGap();
+    return pairs;
+}
+
+export function diffLatex(original: string, tailored: string): LatexDiff {
+    const a = original.split('\n');
+    const b = tailored.split('\n');
+    // Whitespace-only changes don't make a hunk
+    const ops = diffSequences(a, b, (line) => line.trim());
+
+    const parts: DiffPart[] = [];
+    const hunks: DiffHunk[] = [];
+    let section = '';
+    let run: { original: string[]; tailored: string[] } | null = null;
+
+    const flush = () => {
+        if (!run) return;
+        const { original: removed, tailored: added } = run;
+        run = null;
+        for (const pair of pairLines(removed, added)) {
+            section = pair.tailored.map((line) => line.match(SECTION_RE)?.[1]).find((t) => t !== undefined) ?? section;
+            const hunk = { id: hunks.length, section, ...pair };
+            hunks.push(hunk);
+            parts.push({ type: 'change', hunk });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    for (const op of ops) {
+        if (op === 'equal') {
+            flush();
+            section = b[j].match(SECTION_RE)?.[1] ?? section;
+            const last = parts[parts.length - 1];
+            if (last?.type === 'equal') last.lines.push(b[j]);
+            else parts.push({ type: 'equal', lines: [b[j]] });
+            i++;
+            j++;
+        } else {
+            run ||= { original: [], tailored: [] };
+            if (op === 'added') run.tailored.push(b[j++]);
+            else run.original.push(a[i++]);
+        }
+    }
+    flush();
+
+    return { parts, hunks };
+}
+
+// Tailored lines for accepted hunks, original lines for rejected ones
+export function mergeDiff(diff: LatexDiff, rejected: Set<number>): string {
+    return diff.parts
+        .flatMap((part) => {
+            if (part.type === 'equal') return part.lines;
+            return rejected.has(part.hunk.id) ? part.hunk.original : part.hunk.tailored;
+        })
+        .join('\n');
+}
+
+// ─── Word Diff ───────────────────────────────────────────────
+export function diffWords(original: string, tailored: string): DiffSegment[] {
+    const a = original.split(/(\s+)/).filter(Boolean);
+    const b = tailored.split(/(\s+)/).filter(Boolean);
+    const segments: DiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+
+    for (const op of diffSequences(a, b, (token) => token)) {
+        const text = op === 'removed' ? a[i++] : b[j++];
+        if (op === 'equal') i++;
+        const last = segments[segments.length - 1];
+        if (last?.type === op) last.text += text;
+        else segments.push({ type: op, text });
+    }
+    return segments;
+}
@@ -0,0 +1,67 @@
+// LaTeX syntax highlighting for CodeMirror
+// A small stream mode: commands, section headings, environment names,
+// inline/display math, brackets and comments.
+
+import { StreamLanguage } from '@codemirror/language';
+
+interface LatexModeState {
+    math: '$' | '$$' | null;
+    // The {name} after \begin / \end is highlighted as an environment
+    envName: boolean;
+}
+
+export const latexLanguage = StreamLanguage.define<LatexModeState>({
+    name: 'latex',
+    startState: () => ({ math: null, envName: false }),
+
+    token(stream, state) {
+        if (state.math) {
+            while (!stream.eol()) {
+                if (stream.match(state.math)) {
+                    state.math = null;
+                    break;
+                }
+                if (stream.next() === '\\') stream.next();
+            }
+            return 'string';
+        }
+
+        if (state.envName) {
+            state.envName = false;
+            if (stream.match(/^\{[^{}]*\}/)) return 'typeName';
+        }
+
+        const ch = stream.peek();
+        if (ch === '%') {
+            stream.skipToEnd();
+            return 'comment';
+        }
+        if (ch === '$') {
+            state.math = stream.match('$$') ? '$$' : (stream.next(), '$');
+            return 'string';
+        }
+        if (ch === '\\') {
+            if (stream.match(/^\\(begin|end)\b/)) {
+                state.envName = true;
+                return 'keyword';
+            }
+            if (stream.match(/^\\(sub)*section\*?/)) return 'heading';
+            if (stream.match(/^\\[a-zA-Z@]+\*?/)) return 'tagName';
+            // Control symbols: \% \& \\ ...
+            stream.next();
+            stream.next();
+            return 'atom';
+        }
+        if (ch === '{' || ch === '}' || ch === '[' || ch === ']') {
+            stream.next();
+            return 'bracket';
+        }
+
+        if (!stream.match(/^[^\\%${}[\]]+/)) stream.next();
+        return null;
+    },
+
+    languageData: {
+        commentTokens: { line: '%' },
+    },
+});
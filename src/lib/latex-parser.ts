@@ -0,0 +1,601 @@
+// LaTeX tokenizer and parser for resume documents
+// Produces a tree of commands, groups, environments, math and comments with
+// source offsets, plus diagnostics for unbalanced braces and environments.
+
+// ─── Tokens ──────────────────────────────────────────────────
+export type LatexTokenType =
+    | 'command'
+    | 'open'
+    | 'close'
+    | 'openOpt'
+    | 'closeOpt'
+    | 'math'
+    | 'comment'
+    | 'whitespace'
+    | 'text';
+
+export interface LatexToken {
+    type: LatexTokenType;
+    value: string;
+    start: number;
+    end: number;
+    name?: string; // command name without the backslash
+    star?: boolean;
+}
+
+const COMMAND_RE = /\\([a-zA-Z@]+)(\*?)/y;
+const WHITESPACE_RE = /\s+/y;
+const TEXT_RE = /[^\\%{}[\]$\s]+/y;
+const SINGLE_CHAR_TOKENS: Record<string, LatexTokenType> = {
+    '{': 'open',
+    '}': 'close',
+    '[': 'openOpt',
+    ']': 'closeOpt',
+    '$': 'math',
+};
+
+export function tokenizeLatex(source: string): LatexToken[] {
+    const tokens: LatexToken[] = [];
+    let i = 0;
+
+    const sticky = (re: RegExp) => {
+        re.lastIndex = i;
+        return re.exec(source);
+    };
+
+    while (i < source.length) {
+        const ch = source[i];
+        const start = i;
+
+        if (ch === '\\') {
+            const match = sticky(COMMAND_RE);
+            if (match) {
+                i += match[0].length;
+                tokens.push({ type: 'command', value: match[0], start, end: i, name: match[1], star: match[2] === '*' });
+            } else {
+                // Control symbol such as \% \& \{ or the \\ line break
+                i = Math.min(i + 2, source.length);
+                tokens.push({ type: 'command', value: source.slice(start, i), start, end: i, name: source.slice(start + 1, i), star: false });
+            }
+        } else if (ch === '%') {
+            const newline = source.indexOf('\n', i);
+            i = newline === -1 ? source.length : newline;
+            tokens.push({ type: 'comment', value: source.slice(start, i), start, end: i });
+        } else if (SINGLE_CHAR_TOKENS[ch]) {
+            i++;
+            tokens.push({ type: SINGLE_CHAR_TOKENS[ch], value: ch, start, end: i });
+        } else {
+            const match = sticky(WHITESPACE_RE) || sticky(TEXT_RE);
+            i += match ? match[0].length : 1;
+            tokens.push({
+                type: match && /^\s/.test(match[0]) ? 'whitespace' : 'text',
+                value: source.slice(start, i),
+                start,
+                end: i,
+            });
+        }
+    }
+
+    return tokens;
+}
+
+// ─── AST ─────────────────────────────────────────────────────
+interface BaseNode {
+    start: number;
+    end: number;
+}
+
+export interface TextNode extends BaseNode {
+    type: 'text';
+    value: string;
+}
+
+export interface CommentNode extends BaseNode {
+    type: 'comment';
+    value: string;
+}
+
+export interface GroupNode extends BaseNode {
+    type: 'group';
+    children: LatexNode[];
+}
+
+export interface CommandNode extends BaseNode {
+    type: 'command';
+    name: string;
+    star: boolean;
+    optionalArgs: GroupNode[];
+    args: GroupNode[];
+}
+
+export interface EnvironmentNode extends BaseNode {
+    type: 'environment';
+    name: string;
+    optionalArgs: GroupNode[];
+    args: GroupNode[];
+    children: LatexNode[];
+    bodyStart: number;
+    bodyEnd: number;
+}
+
+export interface MathNode extends BaseNode {
+    type: 'math';
+    display: boolean;
+    content: string;
+}
+
+export type LatexNode = TextNode | CommentNode | GroupNode | CommandNode | EnvironmentNode | MathNode;
+
+export interface LatexDiagnostic {
+    message: string;
+    start: number;
+    end: number;
+    severity: 'error' | 'warning';
+}
+
+export interface LatexDocument {
+    source: string;
+    nodes: LatexNode[];
+    diagnostics: LatexDiagnostic[];
+}
+
+// Commands that never take a {} argument, so a following group is content
+const NO_ARG_COMMANDS = new Set([
+    'item', 'hfill', 'vfill', 'centering', 'noindent', 'indent', 'newline', 'newpage', 'clearpage',
+    'linebreak', 'pagebreak', 'par', 'tiny', 'scriptsize', 'footnotesize', 'small', 'normalsize',
+    'large', 'Large', 'LARGE', 'huge', 'Huge', 'bfseries', 'itshape', 'ttfamily', 'scshape',
+    'mdseries', 'upshape', 'rmfamily', 'sffamily', 'raggedright', 'raggedleft', 'maketitle',
+    'today', 'quad', 'qquad', 'hline', 'ldots', 'dots', 'cdot', 'textbar', 'textbullet',
+    'LaTeX', 'TeX', 'resumeSubHeadingListStart', 'resumeSubHeadingListEnd',
+    'resumeItemListStart', 'resumeItemListEnd',
+]);
+
+// Argument counts for common commands. Anything else takes every {} group
+// that follows, which covers user macros defined in the preamble.
+const COMMAND_ARITY: Record<string, number> = {
+    textbf: 1, textit: 1, emph: 1, underline: 1, texttt: 1, textsc: 1, textsf: 1, url: 1,
+    section: 1, subsection: 1, subsubsection: 1, vspace: 1, hspace: 1, href: 2, textcolor: 2,
+    resumeItem: 1, resumeSubItem: 1, resumeSubheading: 4, resumeSubSubheading: 2,
+    resumeProjectHeading: 2,
+};
+
+// Macro definitions and title formats mention commands without their
+// arguments and may hold half an environment (\newcommand{\listStart}{\begin{itemize}})
+const DEFINITION_COMMANDS = new Set([
+    'newcommand', 'renewcommand', 'providecommand', 'newenvironment', 'renewenvironment',
+    'titleformat', 'titlespacing',
+]);
+
+// ─── Parser ──────────────────────────────────────────────────
+type StopAt = 'group' | 'optional' | 'environment' | null;
+
+class LatexParser {
+    private i = 0;
+    private definitionDepth = 0;
+    diagnostics: LatexDiagnostic[] = [];
+
+    constructor(private source: string, private tokens: LatexToken[]) {}
+
+    parse(): LatexNode[] {
+        return this.parseUntil(null);
+    }
+
+    private get token(): LatexToken | undefined {
+        return this.tokens[this.i];
+    }
+
+    private report(message: string, start: number, end: number, severity: 'error' | 'warning' = 'error') {
+        this.diagnostics.push({ message, start, end, severity });
+    }
+
+    private parseUntil(stop: StopAt): LatexNode[] {
+        const nodes: LatexNode[] = [];
+
+        while (this.token) {
+            const tok = this.token;
+
+            if (tok.type === 'close') {
+                if (stop === 'group' || stop === 'optional') return nodes;
+                this.report('Unexpected "}" with no matching "{"', tok.start, tok.end);
+                this.i++;
+                continue;
+            }
+            if (tok.type === 'closeOpt' && stop === 'optional') return nodes;
+            if (tok.type === 'command' && tok.name === 'end' && this.definitionDepth === 0) {
+                if (stop !== null) return nodes;
+                const stray = this.parseCommand();
+                this.report(`Unexpected \\end{${this.argText(stray.args[0])}} with no matching \\begin`, stray.start, stray.end);
+                continue;
+            }
+
+            nodes.push(this.parseNode());
+        }
+
+        return nodes;
+    }
+
+    private parseNode(): LatexNode {
+        const tok = this.token!;
+
+        switch (tok.type) {
+            case 'comment':
+                this.i++;
+                return { type: 'comment', value: tok.value, start: tok.start, end: tok.end };
+            case 'open':
+                return this.parseGroup();
+            case 'math':
+                return this.parseMath();
+            case 'command':
+                return tok.name === 'begin' && this.definitionDepth === 0 ? this.parseEnvironment() : this.parseCommand();
+            default: {
+                // Merge adjacent text and whitespace; a stray bracket is plain text
+                const start = tok.start;
+                let end = tok.end;
+                this.i++;
+                while (this.token && (this.token.type === 'text' || this.token.type === 'whitespace')) {
+                    end = this.token.end;
+                    this.i++;
+                }
+                return { type: 'text', value: this.source.slice(start, end), start, end };
+            }
+        }
+    }
+
+    private parseGroup(): GroupNode {
+        const open = this.token!;
+        this.i++;
+        const children = this.parseUntil('group');
+        const close = this.token;
+
+        if (close?.type === 'close') {
+            this.i++;
+            return { type: 'group', children, start: open.start, end: close.end };
+        }
+        this.report('Unclosed "{"', open.start, open.end);
+        const end = children.length ? children[children.length - 1].end : open.end;
+        return { type: 'group', children, start: open.start, end };
+    }
+
+    // [..] only counts as an optional argument when it closes; otherwise it is text
+    private parseOptional(): GroupNode | null {
+        const open = this.token!;
+        const saved = this.i;
+        const savedDiagnostics = this.diagnostics.length;
+        this.i++;
+        const children = this.parseUntil('optional');
+        const close = this.token;
+
+        if (close?.type === 'closeOpt') {
+            this.i++;
+            return { type: 'group', children, start: open.start, end: close.end };
+        }
+        this.i = saved;
+        this.diagnostics.length = savedDiagnostics;
+        return null;
+    }
+
+    private parseMath(): LatexNode {
+        const open = this.token!;
+        const next = this.tokens[this.i + 1];
+        const display = next?.type === 'math' && next.start === open.end;
+        const delimiter = display ? 2 : 1;
+
+        for (let j = this.i + delimiter; j < this.tokens.length; j++) {
+            const tok = this.tokens[j];
+            if (tok.type !== 'math') continue;
+            if (display && this.tokens[j + 1]?.type !== 'math') continue;
+
+            const end = display ? this.tokens[j + 1].end : tok.end;
+            this.i = j + delimiter;
+            return {
+                type: 'math',
+                display,
+                content: this.source.slice(open.start + delimiter, end - delimiter),
+                start: open.start,
+                end,
+            };
+        }
+
+        this.report('Unclosed math "$"', open.start, open.end);
+        this.i += delimiter;
+        return { type: 'text', value: this.source.slice(open.start, open.start + delimiter), start: open.start, end: open.start + delimiter };
+    }
+
+    private parseCommand(): CommandNode {
+        const tok = this.token!;
+        this.i++;
+        const node: CommandNode = {
+            type: 'command',
+            name: tok.name!,
+            star: !!tok.star,
+            optionalArgs: [],
+            args: [],
+            start: tok.start,
+            end: tok.end,
+        };
+
+        // Control symbols (\%, \&, \\) take no arguments
+        if (!/^[a-zA-Z@]/.test(node.name)) return node;
+        const arity = NO_ARG_COMMANDS.has(node.name) ? 0 : COMMAND_ARITY[node.name] ?? Infinity;
+        const defining = DEFINITION_COMMANDS.has(node.name);
+        if (defining) this.definitionDepth++;
+        this.readArguments(node, arity, true);
+        if (defining) this.definitionDepth--;
+
+        if (Number.isFinite(arity) && node.args.length < arity && this.definitionDepth === 0) {
+            this.report(
+                `\\${node.name} expects ${arity} argument${arity === 1 ? '' : 's'} but got ${node.args.length}`,
+                node.start,
+                node.end,
+                'warning'
+            );
+        }
+        return node;
+    }
+
+    private parseEnvironment(): LatexNode {
+        const begin = this.token!;
+        this.i++;
+        const nameGroup = this.token?.type === 'open' ? this.parseGroup() : null;
+        const name = nameGroup ? this.argText(nameGroup) : '';
+        if (!name) {
+            this.report('\\begin without an environment name', begin.start, begin.end);
+            return { type: 'command', name: 'begin', star: false, optionalArgs: [], args: [], start: begin.start, end: begin.end };
+        }
+
+        const env: EnvironmentNode = {
+            type: 'environment',
+            name,
+            optionalArgs: [],
+            args: [],
+            children: [],
+            start: begin.start,
+            end: nameGroup!.end,
+            bodyStart: nameGroup!.end,
+            bodyEnd: nameGroup!.end,
+        };
+        // Environment arguments must follow \begin{name} directly
+        this.readArguments(env, Infinity, false);
+        env.bodyStart = env.end;
+
+        env.children = this.parseUntil('environment');
+        const endTok = this.token;
+
+        if (endTok?.type === 'command' && endTok.name === 'end') {
+            const endCommand = this.parseCommandWithoutArgs();
+            const endGroup = this.token?.type === 'open' ? this.parseGroup() : null;
+            const endName = endGroup ? this.argText(endGroup) : '';
+            if (endName !== name) {
+                this.report(`\\begin{${name}} is closed by \\end{${endName}}`, endCommand.start, endGroup?.end ?? endCommand.end);
+            }
+            env.bodyEnd = endCommand.start;
+            env.end = endGroup?.end ?? endCommand.end;
+        } else {
+            const last = env.children[env.children.length - 1];
+            env.bodyEnd = env.end = last ? last.end : env.bodyStart;
+            this.report(`\\begin{${name}} is never closed`, begin.start, nameGroup!.end);
+        }
+
+        return env;
+    }
+
+    private parseCommandWithoutArgs(): LatexToken {
+        const tok = this.token!;
+        this.i++;
+        return tok;
+    }
+
+    // Attach [opt] and {arg} groups. Arguments may be spread over several
+    // lines (\resumeSubheading{..}{..}\n{..}{..}) but never across a blank line.
+    private readArguments(node: CommandNode | EnvironmentNode, maxArgs: number, allowWhitespace: boolean) {
+        while (this.token) {
+            if (this.token.type === 'openOpt' && this.token.start === node.end) {
+                const optional = this.parseOptional();
+                if (!optional) return;
+                node.optionalArgs.push(optional);
+                node.end = optional.end;
+                continue;
+            }
+            if (node.args.length >= maxArgs) return;
+
+            let j = this.i;
+            if (allowWhitespace && this.tokens[j]?.type === 'whitespace' && !/\n\s*\n/.test(this.tokens[j].value)) j++;
+            if (this.tokens[j]?.type !== 'open') return;
+            if (j !== this.i && !allowWhitespace) return;
+
+            this.i = j;
+            const group = this.parseGroup();
+            node.args.push(group);
+            node.end = group.end;
+        }
+    }
+
+    private argText(group: GroupNode | undefined): string {
+        return group ? this.source.slice(group.start + 1, group.end - 1).trim() : '';
+    }
+}
+
+export function parseLatex(source: string): LatexDocument {
+    const parser = new LatexParser(source, tokenizeLatex(source));
+    const nodes = parser.parse();
+    return { source, nodes, diagnostics: parser.diagnostics };
+}
+
+// ─── Traversal ───────────────────────────────────────────────
+export function walkLatex(nodes: LatexNode[], visit: (node: LatexNode) => void): void {
+    for (const node of nodes) {
+        visit(node);
+        switch (node.type) {
+            case 'group':
+                walkLatex(node.children, visit);
+                break;
+            case 'command':
+                walkLatex(node.optionalArgs, visit);
+                walkLatex(node.args, visit);
+                break;
+            case 'environment':
+                walkLatex(node.optionalArgs, visit);
+                walkLatex(node.args, visit);
+                walkLatex(node.children, visit);
+                break;
+        }
+    }
+}
+
+export function findCommands(
+    nodes: LatexNode[],
+    match: string | ((name: string) => boolean)
+): CommandNode[] {
+    const test = typeof match === 'string' ? (name: string) => name === match : match;
+    const found: CommandNode[] = [];
+    walkLatex(nodes, (node) => {
+        if (node.type === 'command' && test(node.name)) found.push(node);
+    });
+    return found;
+}
+
+export function findEnvironment(nodes: LatexNode[], name: string): EnvironmentNode | null {
+    let found: EnvironmentNode | null = null;
+    walkLatex(nodes, (node) => {
+        if (!found && node.type === 'environment' && node.name === name) found = node;
+    });
+    return found;
+}
+
+// Source text inside a {} or [] argument
+export function argSource(source: string, group: GroupNode | undefined): string {
+    return group ? source.slice(group.start + 1, group.end - 1) : '';
+}
+
+// ─── Plain Text ──────────────────────────────────────────────
+const SYMBOLS: Record<string, string> = {
+    '%': '%', '&': '&', '$': '$', '#': '#', '_': '_', '{': '{', '}': '}', '\\': '\n', ' ': ' ', ',': ' ',
+    textbar: '|', textbullet: '•', ldots: '…', dots: '…', cdot: '·', LaTeX: 'LaTeX', TeX: 'TeX',
+    quad: ' ', qquad: ' ', newline: '\n', linebreak: '\n',
+};
+// Commands whose arguments are not visible text
+const HIDDEN_ARG_COMMANDS = new Set([
+    'vspace', 'hspace', 'setlength', 'addtolength', 'usepackage', 'documentclass', 'newcommand',
+    'renewcommand', 'pagestyle', 'thispagestyle', 'titleformat', 'titlespacing', 'color',
+    'definecolor', 'input', 'include', 'label', 'ref',
+]);
+
+export function latexToText(nodes: LatexNode | LatexNode[]): string {
+    const list = Array.isArray(nodes) ? nodes : [nodes];
+    return list.map(nodeText).join('');
+}
+
+function nodeText(node: LatexNode): string {
+    switch (node.type) {
+        case 'text':
+            return node.value.replace(/~/g, ' ').replace(/---/g, '—').replace(/--/g, '–');
+        case 'comment':
+            return '';
+        case 'math':
+            return node.content.replace(/\\[a-zA-Z]+/g, '').replace(/[{}^_]/g, '').trim();
+        case 'group':
+            return latexToText(node.children);
+        case 'environment':
+            return latexToText(node.children);
+        case 'command':
+            if (node.name in SYMBOLS) return SYMBOLS[node.name];
+            if (HIDDEN_ARG_COMMANDS.has(node.name)) return '';
+            // \href{url}{label} shows only the label
+            if (node.name === 'href') return latexToText(node.args[1]?.children || []);
+            return node.args.map((arg) => latexToText(arg.children)).join(' ');
+    }
+}
+
+// ─── Sections ────────────────────────────────────────────────
+export interface LatexSection {
+    title: string;
+    command: CommandNode;
+    start: number;
+    bodyStart: number;
+    end: number;
+    nodes: LatexNode[];
+}
+
+// Split the document body at \section commands. Nodes before the first
+// section (the contact header) are returned separately.
+export function getSections(doc: LatexDocument): { header: LatexNode[]; sections: LatexSection[] } {
+    const body = findEnvironment(doc.nodes, 'document');
+    const nodes = body ? body.children : doc.nodes;
+    const bodyEnd = body ? body.bodyEnd : doc.source.length;
+
+    const header: LatexNode[] = [];
+    const sections: LatexSection[] = [];
+
+    for (const node of nodes) {
+        if (node.type === 'command' && node.name === 'section') {
+            const previous = sections[sections.length - 1];
+            if (previous) previous.end = node.start;
+            sections.push({
+                title: latexToText(node.args[0]?.children || []).trim(),
+                command: node,
+                start: node.start,
+                bodyStart: node.end,
+                end: bodyEnd,
+                nodes: [],
+            });
+        } else if (sections.length) {
+            sections[sections.length - 1].nodes.push(node);
+        } else {
+            header.push(node);
+        }
+    }
+
+    return { header, sections };
+}
+
+// ─── Entries ─────────────────────────────────────────────────
+export interface LatexEntry {
+    heading: CommandNode | null;
+    items: LatexNode[][];
+}
+
+// Group a section into \resume...Heading entries and the bullets under each.
+// Bullets before the first heading land in an entry with no heading.
+export function readEntries(nodes: LatexNode[]): LatexEntry[] {
+    const entries: LatexEntry[] = [];
+    const push = (item: LatexNode[]) => {
+        if (!latexToText(item).trim()) return;
+        if (!entries.length) entries.push({ heading: null, items: [] });
+        entries[entries.length - 1].items.push(item);
+    };
+
+    const collect = (list: LatexNode[]) => {
+        let item: LatexNode[] | null = null;
+        const flush = () => {
+            if (item) push(item);
+            item = null;
+        };
+
+        for (const node of list) {
+            if (node.type === 'command' && /^resume\w*heading$/i.test(node.name)) {
+                flush();
+                entries.push({ heading: node, items: [] });
+            } else if (node.type === 'command' && /^resume(Sub)?Item$/.test(node.name)) {
+                flush();
+                push(node.args[0]?.children || []);
+            } else if (node.type === 'command' && node.name === 'item') {
+                flush();
+                item = [];
+            } else if (item) {
+                item.push(node);
+            } else if (node.type === 'group' || node.type === 'environment') {
+                collect(node.children);
+            }
+        }
+        flush();
+    };
+
+    collect(nodes);
+    return entries;
+}
+
+export function getLineColumn(source: string, offset: number): { line: number; column: number } {
+    const before = source.slice(0, offset);
+    const line = before.split('\n').length;
+    return { line, column: offset - before.lastIndexOf('\n') };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { repairLatexFragment } from './latex-repair';
+
+describe('repairLatexFragment', () => {
+    it('closes a brace left open at the next \\item', () => {
+        const fragment = '\\section{Skills}\n\\begin{itemize}\n\\item \\textbf{Kubernetes\n\\item Docker\n\\end{itemize}\n';
+
+        const repair = repairLatexFragment(fragment);
+
+        expect(repair.latex).toBe('\\section{Skills}\n\\begin{itemize}\n\\item \\textbf{Kubernetes}\n\\item Docker\n\\end{itemize}\n');
+        expect(repair.fixes).toEqual(['Closed "{"']);
+        expect(repair.valid).toBe(true);
+    });
+
+    it('leaves groups that wrap their bullets alone', () => {
+        const fragment = '\\section{Skills}\n\\begin{itemize}\n\\small{\\item{Go} \\item{Rust}}\n\\end{itemize}\n\\textbf{Note';
+
+        const repair = repairLatexFragment(fragment);
+
+        expect(repair.latex).toBe('\\section{Skills}\n\\begin{itemize}\n\\small{\\item{Go} \\item{Rust}}\n\\end{itemize}\n\\textbf{Note}');
+        expect(repair.fixes).toEqual(['Closed "{"']);
+    });
+});
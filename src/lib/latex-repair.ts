@@ -0,0 +1,337 @@
+// LaTeX repair for model output
+// Fixes the mistakes models make most often in generated resumes: specials
+// left unescaped in bullet text, unbalanced braces and environments that are
+// never closed. Documents are split into regions (the contact header, then
+// each \section) so every fix stays inside the section it belongs to.
+
+import { latexToText, parseLatex, tokenizeLatex, type LatexNode, type LatexToken } from './latex-parser';
+import { HEADER_LOCK, sectionLockKey } from './section-locks';
+
+// ─── Regions ─────────────────────────────────────────────────
+export interface LatexRegion {
+    key: string;
+    title: string;
+    start: number;
+    end: number;
+}
+
+export interface LatexRegions {
+    // Offsets of the document body; the whole source when \begin{document} or
+    // \end{document} is missing
+    bodyStart: number;
+    bodyEnd: number;
+    hasBegin: boolean;
+    hasEnd: boolean;
+    regions: LatexRegion[];
+}
+
+// Name of the environment a \begin or \end token at index i opens or closes
+function environmentAt(tokens: LatexToken[], i: number): string | null {
+    const [open, name, close] = [tokens[i + 1], tokens[i + 2], tokens[i + 3]];
+    return open?.type === 'open' && name?.type === 'text' && close?.type === 'close' ? name.value : null;
+}
+
+// Source of the {} group opened at token index i, kept to one line
+function groupSourceAt(source: string, tokens: LatexToken[], i: number): string {
+    if (tokens[i]?.type !== 'open') return '';
+    let depth = 0;
+    for (let j = i; j < tokens.length && !tokens[j].value.includes('\n'); j++) {
+        if (tokens[j].type === 'open') depth++;
+        if (tokens[j].type === 'close' && --depth === 0) return source.slice(tokens[i].end, tokens[j].start);
+    }
+    return '';
+}
+
+// Split at \section commands from tokens alone; parsing would let an
+// unclosed brace swallow every section after it
+export function splitLatexRegions(latex: string): LatexRegions {
+    const tokens = tokenizeLatex(latex);
+    let bodyStart = 0;
+    let bodyEnd = latex.length;
+    let hasBegin = false;
+    let hasEnd = false;
+    const sections: { start: number; title: string }[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const tok = tokens[i];
+        if (tok.type !== 'command') continue;
+        if (tok.name === 'begin' && !hasBegin && environmentAt(tokens, i) === 'document') {
+            hasBegin = true;
+            bodyStart = tokens[i + 3].end;
+            // \section in the preamble belongs to \titleformat and the like
+            sections.length = 0;
+        } else if (tok.name === 'end' && environmentAt(tokens, i) === 'document') {
+            hasEnd = true;
+            bodyEnd = tok.start;
+            break;
+        } else if (tok.name === 'section') {
+            const title = groupSourceAt(latex, tokens, tokens[i + 1]?.type === 'whitespace' ? i + 2 : i + 1);
+            sections.push({ start: tok.start, title: latexToText(parseLatex(title).nodes).trim() });
+        }
+    }
+
+    const regions: LatexRegion[] = [
+        { key: HEADER_LOCK, title: 'Contact Header', start: bodyStart, end: sections[0]?.start ?? bodyEnd },
+        ...sections.map((s, i) => ({
+            key: sectionLockKey(s.title),
+            title: s.title || 'Untitled section',
+            start: s.start,
+            end: sections[i + 1]?.start ?? bodyEnd,
+        })),
+    ];
+    return { bodyStart, bodyEnd, hasBegin, hasEnd, regions };
+}
+
+// ─── Edits ───────────────────────────────────────────────────
+interface Edit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+function applyEdits(source: string, edits: Edit[]): string {
+    // Stable sort keeps insertions at one offset in the order they were made
+    const ordered = [...edits].sort((a, b) => a.start - b.start);
+    let result = '';
+    let cursor = 0;
+    for (const edit of ordered) {
+        result += source.slice(cursor, edit.start) + edit.text;
+        cursor = Math.max(cursor, edit.end);
+    }
+    return result + source.slice(cursor);
+}
+
+// Remove source, along with its line when nothing else is on it
+function deletion(source: string, start: number, end: number): Edit {
+    const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = source.indexOf('\n', end);
+    const alone = !source.slice(lineStart, start).trim() && !source.slice(end, lineEnd === -1 ? undefined : lineEnd).trim();
+    return alone && lineEnd !== -1 ? { start: lineStart, end: lineEnd + 1, text: '' } : { start, end, text: '' };
+}
+
+type Tally = Map<string, number>;
+
+const count = (tally: Tally, fix: string) => tally.set(fix, (tally.get(fix) || 0) + 1);
+
+// ─── Passes ──────────────────────────────────────────────────
+// Environments where & separates columns
+const ALIGNMENT_ENVIRONMENTS = new Set(['tabular', 'tabular*', 'tabularx', 'array', 'align', 'align*', 'eqnarray']);
+const DEFINITION_COMMANDS = new Set(['newcommand', 'renewcommand', 'providecommand', 'newenvironment', 'renewenvironment']);
+// Arguments taken as they are: URLs, labels and file names
+const RAW_ARGUMENT_COMMANDS: Record<string, number> = {
+    href: 1, url: 1, path: 1, label: 1, ref: 1, includegraphics: 1, input: 1, include: 1,
+};
+
+// "40% faster" starts a comment and "$5M" starts math; both need escaping
+// before the structure can be read
+function escapeCommentsAndCurrency(latex: string, tally: Tally): string {
+    const tokens = tokenizeLatex(latex);
+    const edits: Edit[] = [];
+    let inMath = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const tok = tokens[i];
+        if (tok.type === 'comment' && /\d/.test(latex[tok.start - 1] || '')) {
+            edits.push({ start: tok.start, end: tok.start + 1, text: '\\%' });
+            count(tally, 'Escaped "%"');
+        } else if (tok.type === 'math') {
+            if (inMath) {
+                inMath = false;
+            } else if (tokens[i + 1]?.type === 'math' && tokens[i + 1].start === tok.end) {
+                // $$ display math: copy through its closing $$
+                const close = tokens.findIndex((t, j) => j > i + 1 && t.type === 'math');
+                i = close === -1 ? tokens.length : close + 1;
+            } else {
+                // A price rather than math: "$5M" with no closing "$" on the
+                // line, or one only after some words
+                const lineEnd = latex.indexOf('\n', tok.end);
+                const rest = latex.slice(tok.end, lineEnd === -1 ? latex.length : lineEnd);
+                const close = rest.indexOf('$');
+                if (/^\d/.test(rest) && (close === -1 || /\s/.test(rest.slice(0, close)))) {
+                    edits.push({ start: tok.start, end: tok.end, text: '\\$' });
+                    count(tally, 'Escaped "$"');
+                } else {
+                    inMath = true;
+                }
+            }
+        }
+    }
+    return applyEdits(latex, edits);
+}
+
+// Index of the first token after the [] and {} groups starting at i
+function skipArguments(tokens: LatexToken[], i: number): number {
+    let depth = 0;
+    for (; i < tokens.length; i++) {
+        const tok = tokens[i];
+        if (depth === 0) {
+            const between = tok.type === 'whitespace' && !/\n\s*\n/.test(tok.value);
+            if (!between && tok.type !== 'open' && tok.type !== 'openOpt') return i;
+        }
+        if (tok.type === 'open' || tok.type === 'openOpt') depth++;
+        if (tok.type === 'close' || tok.type === 'closeOpt') depth--;
+    }
+    return i;
+}
+
+type Open = { kind: 'brace'; start: number } | { kind: 'environment'; name: string };
+
+// \item and template bullet macros (\resumeItem, \resumeItemListEnd, …); a
+// "{" still open here was left open by the bullet before
+const isBulletBoundary = (tok: LatexToken) => tok.type === 'command' && /^(item|resume[A-Za-z]*)$/.test(tok.name!);
+
+// Offsets of the "{" that no "}" closes
+function unclosedBraces(tokens: LatexToken[]): Set<number> {
+    const opens: number[] = [];
+    for (const tok of tokens) {
+        if (tok.type === 'open') opens.push(tok.start);
+        else if (tok.type === 'close') opens.pop();
+    }
+    return new Set(opens);
+}
+
+const closing = (open: Open) => (open.kind === 'brace' ? '}' : `\\end{${open.name}}`);
+
+// Close environments left open, drop stray "}" and \end, and close any "{"
+// still open at the next bullet or the end of the region
+function balanceStructure(latex: string, tally: Tally): string {
+    const tokens = tokenizeLatex(latex);
+    const unclosed = unclosedBraces(tokens);
+    const isUnclosed = (open: Open) => open.kind === 'brace' && unclosed.has(open.start);
+    const edits: Edit[] = [];
+    const stack: Open[] = [];
+
+    // Close everything opened after stack[index]
+    const closeAbove = (index: number, at: number) => {
+        while (stack.length > index + 1) {
+            const open = stack.pop()!;
+            edits.push({ start: at, end: at, text: closing(open) });
+            count(tally, open.kind === 'brace' ? 'Closed "{"' : `Closed \\begin{${open.name}}`);
+        }
+    };
+    // stack[index] is matched at the given offset
+    const unwind = (index: number, at: number) => {
+        closeAbove(index, at);
+        stack.pop();
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const tok = tokens[i];
+        if (tok.type === 'open') {
+            stack.push({ kind: 'brace', start: tok.start });
+        } else if (isBulletBoundary(tok)) {
+            // "\textbf{Kubernetes" left open belongs to the bullet before;
+            // "\small{\item{…}}" wraps its bullets and is left alone
+            const at = latex.slice(0, tok.start).trimEnd().length;
+            let top = stack.length - 1;
+            while (top >= 0 && isUnclosed(stack[top])) top--;
+            closeAbove(top, at);
+        } else if (tok.type === 'command' && DEFINITION_COMMANDS.has(tok.name!)) {
+            // Definitions may hold half an environment; step over their arguments
+            i = skipArguments(tokens, i + 1) - 1;
+        } else if (tok.type === 'close') {
+            const brace = stack.map((o) => o.kind).lastIndexOf('brace');
+            if (brace === -1) {
+                edits.push(deletion(latex, tok.start, tok.end));
+                count(tally, 'Removed unmatched "}"');
+            } else {
+                unwind(brace, tok.start);
+            }
+        } else if (tok.type === 'command' && (tok.name === 'begin' || tok.name === 'end')) {
+            const name = environmentAt(tokens, i);
+            if (!name) continue;
+            if (tok.name === 'begin') {
+                stack.push({ kind: 'environment', name });
+            } else {
+                const env = stack.map((o) => (o.kind === 'environment' ? o.name : '')).lastIndexOf(name);
+                if (env === -1) {
+                    edits.push(deletion(latex, tok.start, tokens[i + 3].end));
+                    count(tally, `Removed unmatched \\end{${name}}`);
+                } else {
+                    unwind(env, latex.slice(0, tok.start).trimEnd().length);
+                }
+            }
+            i += 3;
+        }
+    }
+
+    if (stack.length) {
+        // Before the blank lines that separate this region from the next
+        const at = latex.trimEnd().length;
+        const opens = [...stack].reverse();
+        edits.push({ start: at, end: at, text: opens.map((o) => (o.kind === 'brace' ? '}' : `\n${closing(o)}`)).join('') });
+        for (const open of opens) count(tally, open.kind === 'brace' ? 'Closed "{"' : `Closed \\begin{${open.name}}`);
+    }
+    return applyEdits(latex, edits);
+}
+
+// Escape &, # and _ in text outside math, URLs and alignment environments
+function escapeText(latex: string, tally: Tally): string {
+    const edits: Edit[] = [];
+
+    const visit = (nodes: LatexNode[], aligned: boolean) => {
+        for (const node of nodes) {
+            switch (node.type) {
+                case 'text':
+                    for (const match of node.value.matchAll(/[&#_]/g)) {
+                        if (match[0] === '&' && aligned) continue;
+                        const start = node.start + match.index!;
+                        edits.push({ start, end: start + 1, text: `\\${match[0]}` });
+                        count(tally, `Escaped "${match[0]}"`);
+                    }
+                    break;
+                case 'group':
+                    visit(node.children, aligned);
+                    break;
+                case 'command':
+                    if (DEFINITION_COMMANDS.has(node.name)) break;
+                    visit(node.args.slice(RAW_ARGUMENT_COMMANDS[node.name] ?? 0), aligned);
+                    break;
+                case 'environment':
+                    visit(node.args, aligned);
+                    visit(node.children, aligned || ALIGNMENT_ENVIRONMENTS.has(node.name));
+                    break;
+            }
+        }
+    };
+
+    visit(parseLatex(latex).nodes, false);
+    return applyEdits(latex, edits);
+}
+
+// A "$" that never closes is a stray dollar sign
+function escapeUnclosedMath(latex: string, tally: Tally): string {
+    for (;;) {
+        const unclosed = parseLatex(latex).diagnostics.find((d) => d.message.startsWith('Unclosed math'));
+        if (!unclosed) return latex;
+        const delimiter = latex.slice(unclosed.start, unclosed.start + 2) === '$$' ? 2 : 1;
+        latex = latex.slice(0, unclosed.start) + '\\$'.repeat(delimiter) + latex.slice(unclosed.start + delimiter);
+        count(tally, 'Escaped "$"');
+    }
+}
+
+// ─── Fragments ───────────────────────────────────────────────
+export interface FragmentRepair {
+    latex: string;
+    // What was changed, e.g. 'Escaped "&" (3×)'
+    fixes: string[];
+    // Whether the result parses without errors
+    valid: boolean;
+}
+
+export function repairLatexFragment(fragment: string): FragmentRepair {
+    const tally: Tally = new Map();
+    let latex = escapeCommentsAndCurrency(fragment, tally);
+    // Structure that already parses is left as it is
+    if (parseLatex(latex).diagnostics.some((d) => d.severity === 'error')) {
+        latex = balanceStructure(latex, tally);
+    }
+    latex = escapeText(latex, tally);
+    latex = escapeUnclosedMath(latex, tally);
+
+    return {
+        latex,
+        fixes: [...tally].map(([fix, n]) => (n > 1 ? `${fix} (${n}×)` : fix)),
+        valid: !parseLatex(latex).diagnostics.some((d) => d.severity === 'error'),
+    };
+}
@@ -0,0 +1,118 @@
+// Page-fit estimation
+// Estimates how many pages a LaTeX resume fills from a line budget when no
+// compiled PDF is available, and ranks bullets by relevance to a job
+// description so the least relevant ones are trimmed first.
+
+import { getSections, latexToText, parseLatex, readEntries } from './latex-parser';
+import { layoutResume } from './resume-layout';
+import { sectionKind } from './resume-model';
+import { sectionLockKey } from './section-locks';
+import { canonicalSkillNames } from './skills-taxonomy';
+
+export type PageCountSource = 'pdf' | 'estimate';
+
+export interface PageEstimate {
+    // Whole pages from a PDF; fractional from the line budget
+    pages: number;
+    source: PageCountSource;
+}
+
+// ─── Line Budget ─────────────────────────────────────────────
+// Characters per full-width line and lines per page for a letter page with
+// half-inch margins, the usual resume setup
+const PAGE_METRICS: Record<number, { charsPerLine: number; linesPerPage: number }> = {
+    10: { charsPerLine: 110, linesPerPage: 60 },
+    11: { charsPerLine: 100, linesPerPage: 54 },
+    12: { charsPerLine: 92, linesPerPage: 50 },
+};
+
+// Lines taken by blocks beyond their text: large name, section rules, spacing
+const NAME_LINES = 2.5;
+const CONTACT_LINES = 1.5;
+const SECTION_LINES = 2;
+const ENTRY_LINE = 1.1;
+const BULLET_SPACING = 0.15;
+// Bullets are indented, so fewer characters fit on a line
+const BULLET_WIDTH = 0.93;
+
+function fontSize(latex: string): number {
+    const options = latex.match(/\\documentclass\s*\[([^\]]*)\]/)?.[1] || '';
+    const size = Number(options.match(/\b(10|11|12)pt\b/)?.[1]);
+    return size || 10;
+}
+
+export function estimatePages(latex: string): PageEstimate {
+    const { charsPerLine, linesPerPage } = PAGE_METRICS[fontSize(latex)];
+    const wrapped = (text: string, width: number) => Math.max(1, Math.ceil(text.length / width));
+    const spanText = (spans: { text: string }[]) => spans.map((s) => s.text).join('');
+
+    let lines = 0;
+    for (const block of layoutResume(latex)) {
+        switch (block.type) {
+            case 'name':
+                lines += NAME_LINES;
+                break;
+            case 'contact':
+                lines += CONTACT_LINES;
+                break;
+            case 'section':
+                lines += SECTION_LINES;
+                break;
+            case 'entry':
+                lines += block.lines.length * ENTRY_LINE;
+                break;
+            case 'bullet':
+                lines += wrapped(spanText(block.spans), charsPerLine * BULLET_WIDTH) + BULLET_SPACING;
+                break;
+            case 'line':
+                lines += wrapped(spanText(block.spans), charsPerLine);
+                break;
+        }
+    }
+    return { pages: Math.round((lines / linesPerPage) * 10) / 10, source: 'estimate' };
+}
+
+export function describePageEstimate(estimate: PageEstimate): string {
+    const count = `${estimate.pages} page${estimate.pages === 1 ? '' : 's'}`;
+    return estimate.source === 'pdf' ? count : `about ${count}`;
+}
+
+// ─── Trim Candidates ─────────────────────────────────────────
+export interface TrimCandidate {
+    section: string;
+    text: string;
+    // Higher is more relevant to the job
+    relevance: number;
+}
+
+const SKILL_WEIGHT = 3;
+const STOP_TERMS = new Set([
+    'with', 'that', 'this', 'from', 'have', 'will', 'your', 'their', 'they', 'into', 'over', 'across',
+    'about', 'also', 'more', 'work', 'team', 'teams', 'using', 'used', 'within', 'which', 'while',
+]);
+
+const termsOf = (text: string) =>
+    new Set((text.toLowerCase().match(/[a-z][a-z+#.-]{3,}/g) || []).filter((t) => !STOP_TERMS.has(t)));
+
+// Experience and project bullets, least relevant first. Locked sections and
+// sections without bullets worth trimming (skills, education) are left out.
+export function rankBulletsForTrim(latex: string, jobDescription: string, lockedSections: string[] = []): TrimCandidate[] {
+    const jobSkills = new Set(canonicalSkillNames(jobDescription));
+    const jobTerms = termsOf(jobDescription);
+    const candidates: TrimCandidate[] = [];
+
+    for (const section of getSections(parseLatex(latex)).sections) {
+        const kind = sectionKind(section.title);
+        if (kind === 'skills' || kind === 'education' || lockedSections.includes(sectionLockKey(section.title))) continue;
+        for (const { items } of readEntries(section.nodes)) {
+            for (const item of items) {
+                const text = latexToText(item).replace(/\s+/g, ' ').trim();
+                const skills = canonicalSkillNames(text).filter((s) => jobSkills.has(s)).length;
+                const terms = [...termsOf(text)].filter((t) => jobTerms.has(t)).length;
+                candidates.push({ section: section.title, text, relevance: skills * SKILL_WEIGHT + terms });
+            }
+        }
+    }
+    // Stable sort keeps document order among equals
+    return candidates.sort((a, b) => a.relevance - b.relevance);
+}
@@ -0,0 +1,740 @@
+// PDF text extraction
+// A small PDF reader: parses objects (including compressed object streams),
+// inflates FlateDecode content streams, decodes text through ToUnicode CMaps
+// or simple-font encodings, then rebuilds lines from glyph positions.
+
+export type InflateFn = (data: Uint8Array) => Promise<Uint8Array>;
+
+// ─── Objects ─────────────────────────────────────────────────
+class PdfName {
+    constructor(readonly name: string) {}
+}
+
+class PdfRef {
+    constructor(readonly num: number) {}
+}
+
+// Raw bytes, one char per byte; fonts decide what they mean
+class PdfString {
+    constructor(readonly bytes: string) {}
+}
+
+class PdfOp {
+    constructor(readonly op: string) {}
+}
+
+class PdfDict {
+    constructor(readonly entries: Record<string, PdfValue>) {}
+
+    get(key: string): PdfValue {
+        return this.entries[key] ?? null;
+    }
+}
+
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfValue[];
+
+interface PdfObject {
+    value: PdfValue;
+    stream?: string;
+}
+
+// ─── Lexer ───────────────────────────────────────────────────
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+
+class PdfLexer {
+    constructor(private src: string, public pos = 0) {}
+
+    get done(): boolean {
+        this.skipWhitespace();
+        return this.pos >= this.src.length;
+    }
+
+    private skipWhitespace() {
+        while (this.pos < this.src.length) {
+            const c = this.src[this.pos];
+            if (WHITESPACE.includes(c)) {
+                this.pos++;
+            } else if (c === '%') {
+                while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++;
+            } else {
+                break;
+            }
+        }
+    }
+
+    private readRegular(): string {
+        const start = this.pos;
+        while (this.pos < this.src.length) {
+            const c = this.src[this.pos];
+            if (WHITESPACE.includes(c) || DELIMITERS.includes(c)) break;
+            this.pos++;
+        }
+        return this.src.slice(start, this.pos);
+    }
+
+    read(): PdfValue | PdfOp | undefined {
+        this.skipWhitespace();
+        if (this.pos >= this.src.length) return undefined;
+        const c = this.src[this.pos];
+
+        if (c === '/') {
+            this.pos++;
+            return new PdfName(this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+        }
+        if (c === '(') return this.readLiteralString();
+        if (c === '<' && this.src[this.pos + 1] === '<') return this.readDict();
+        if (c === '<') return this.readHexString();
+        if (c === '[') return this.readArray();
+        if (c === ']' || c === '>' || c === ')' || c === '{' || c === '}') {
+            this.pos += c === '>' && this.src[this.pos + 1] === '>' ? 2 : 1;
+            return new PdfOp(c);
+        }
+
+        const word = this.readRegular();
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+            // "12 0 R" is a reference to object 12
+            const ref = /^\s+\d+\s+R(?=[\s/<>[\]()%]|$)/.exec(this.src.slice(this.pos, this.pos + 24));
+            if (ref && /^\d+$/.test(word)) {
+                this.pos += ref[0].length;
+                return new PdfRef(Number(word));
+            }
+            return Number(word);
+        }
+        if (word === 'true' || word === 'false') return word === 'true';
+        if (word === 'null') return null;
+        if (!word) {
+            this.pos++;
+            return this.read();
+        }
+        return new PdfOp(word);
+    }
+
+    private readLiteralString(): PdfString {
+        let depth = 0;
+        let out = '';
+        this.pos++;
+        while (this.pos < this.src.length) {
+            const c = this.src[this.pos++];
+            if (c === '\\') {
+                const next = this.src[this.pos++];
+                const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+                if (next in escapes) out += escapes[next];
+                else if (/[0-7]/.test(next)) {
+                    let octal = next;
+                    while (octal.length < 3 && /[0-7]/.test(this.src[this.pos])) octal += this.src[this.pos++];
+                    out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+                } else if (next === '\r') {
+                    if (this.src[this.pos] === '\n') this.pos++;
+                } else if (next !== '\n') {
+                    out += next;
+                }
+            } else if (c === '(') {
+                depth++;
+                out += c;
+            } else if (c === ')') {
+                if (depth-- === 0) break;
+                out += c;
+            } else {
+                out += c;
+            }
+        }
+        return new PdfString(out);
+    }
+
+    private readHexString(): PdfString {
+        const end = this.src.indexOf('>', this.pos);
+        const hex = this.src.slice(this.pos + 1, end === -1 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+        this.pos = end === -1 ? this.src.length : end + 1;
+        let out = '';
+        for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+        return new PdfString(out);
+    }
+
+    private readDict(): PdfDict {
+        this.pos += 2;
+        const entries: Record<string, PdfValue> = {};
+        while (!this.done) {
+            const key = this.read();
+            if (key instanceof PdfOp) {
+                if (key.op === '>') break;
+                continue;
+            }
+            if (!(key instanceof PdfName)) continue;
+            const value = this.read();
+            if (value instanceof PdfOp) {
+                if (value.op === '>') break;
+                continue;
+            }
+            if (value !== undefined) entries[key.name] = value;
+        }
+        return new PdfDict(entries);
+    }
+
+    private readArray(): PdfValue[] {
+        this.pos++;
+        const items: PdfValue[] = [];
+        while (!this.done) {
+            const value = this.read();
+            if (value instanceof PdfOp) {
+                if (value.op === ']') break;
+                continue;
+            }
+            if (value !== undefined) items.push(value);
+        }
+        return items;
+    }
+
+    // Inline image data (BI … ID <binary> EI) is skipped unparsed
+    skipInlineImage() {
+        const match = /\sEI(?=[\s]|$)/g;
+        match.lastIndex = this.pos;
+        const found = match.exec(this.src);
+        this.pos = found ? found.index + found[0].length : this.src.length;
+    }
+
+    // Bytes between "stream" and "endstream"
+    readStream(length: number | null): string | undefined {
+        const match = /^\s*stream\r?\n/.exec(this.src.slice(this.pos, this.pos + 32));
+        if (!match) return undefined;
+        const start = this.pos + match[0].length;
+        if (length !== null && /^\s*endstream/.test(this.src.slice(start + length, start + length + 32))) {
+            this.pos = start + length;
+            return this.src.slice(start, this.pos);
+        }
+        const end = this.src.indexOf('endstream', start);
+        this.pos = end === -1 ? this.src.length : end;
+        return this.src.slice(start, this.pos).replace(/\r?\n$/, '');
+    }
+}
+
+// ─── Document ────────────────────────────────────────────────
+function bytesToBinary(bytes: Uint8Array): string {
+    let out = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return out;
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+class PdfDocument {
+    objects = new Map<number, PdfObject>();
+    private decoded = new Map<PdfObject, Promise<string>>();
+
+    constructor(private src: string, private inflate: InflateFn) {
+        const header = /(\d+)\s+\d+\s+obj\b/g;
+        let match: RegExpExecArray | null;
+        while ((match = header.exec(src)) !== null) {
+            const lexer = new PdfLexer(src, match.index + match[0].length);
+            const value = lexer.read();
+            if (value instanceof PdfOp || value === undefined) continue;
+            const length = value instanceof PdfDict ? value.get('Length') : null;
+            const stream = value instanceof PdfDict ? lexer.readStream(typeof length === 'number' ? length : null) : undefined;
+            // Later revisions of an object (incremental saves) replace earlier ones
+            this.objects.set(Number(match[1]), { value, stream });
+            // Skip the stream body so binary data is never read as an object header
+            if (stream !== undefined) header.lastIndex = lexer.pos;
+        }
+    }
+
+    resolve(value: PdfValue | undefined): PdfValue {
+        let current = value ?? null;
+        for (let depth = 0; current instanceof PdfRef && depth < 10; depth++) {
+            current = this.objects.get(current.num)?.value ?? null;
+        }
+        return current;
+    }
+
+    dict(value: PdfValue | undefined): PdfDict | null {
+        const resolved = this.resolve(value);
+        return resolved instanceof PdfDict ? resolved : null;
+    }
+
+    // Objects packed into /Type /ObjStm streams (PDF 1.5+, Word, Google Docs)
+    async loadObjectStreams() {
+        for (const object of [...this.objects.values()]) {
+            const dict = object.value instanceof PdfDict ? object.value : null;
+            if (!dict || nameOf(dict.get('Type')) !== 'ObjStm' || object.stream === undefined) continue;
+
+            const data = await this.decodeStream(object);
+            const first = Number(this.resolve(dict.get('First'))) || 0;
+            const count = Number(this.resolve(dict.get('N'))) || 0;
+            const lexer = new PdfLexer(data);
+            const offsets: [number, number][] = [];
+            for (let i = 0; i < count; i++) offsets.push([Number(lexer.read()), Number(lexer.read())]);
+
+            for (const [num, offset] of offsets) {
+                if (this.objects.has(num)) continue;
+                const value = new PdfLexer(data, first + offset).read();
+                if (!(value instanceof PdfOp) && value !== undefined) this.objects.set(num, { value });
+            }
+        }
+    }
+
+    stream(value: PdfValue | undefined): Promise<string> {
+        const ref = value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+        return ref ? this.decodeStream(ref) : Promise.resolve('');
+    }
+
+    decodeStream(object: PdfObject): Promise<string> {
+        let decoded = this.decoded.get(object);
+        if (!decoded) {
+            decoded = this._decode(object);
+            this.decoded.set(object, decoded);
+        }
+        return decoded;
+    }
+
+    private async _decode(object: PdfObject): Promise<string> {
+        if (object.stream === undefined || !(object.value instanceof PdfDict)) return '';
+        const filter = this.resolve(object.value.get('Filter'));
+        const filters = (Array.isArray(filter) ? filter : [filter]).map((f) => nameOf(this.resolve(f))).filter(Boolean);
+
+        let data = object.stream;
+        for (const name of filters) {
+            if (name !== 'FlateDecode' && name !== 'Fl') return ''; // images and other encodings carry no text
+            try {
+                data = bytesToBinary(await this.inflate(binaryToBytes(data)));
+            } catch {
+                return '';
+            }
+        }
+        return data;
+    }
+
+    pages(): PdfDict[] {
+        const pages: PdfDict[] = [];
+        const seen = new Set<PdfDict>();
+        const walk = (node: PdfDict | null) => {
+            if (!node || seen.has(node)) return;
+            seen.add(node);
+            if (nameOf(node.get('Type')) === 'Page') {
+                pages.push(node);
+                return;
+            }
+            const kids = this.resolve(node.get('Kids'));
+            if (Array.isArray(kids)) kids.forEach((kid) => walk(this.dict(kid)));
+        };
+
+        const catalog = [...this.objects.values()].find(
+            (o) => o.value instanceof PdfDict && nameOf(o.value.get('Type')) === 'Catalog'
+        );
+        if (catalog) walk(this.dict((catalog.value as PdfDict).get('Pages')));
+
+        // No usable page tree: fall back to every page object in file order
+        if (pages.length === 0) {
+            for (const { value } of this.objects.values()) {
+                if (value instanceof PdfDict && nameOf(value.get('Type')) === 'Page') pages.push(value);
+            }
+        }
+        return pages;
+    }
+
+    // Resources may be inherited from an ancestor page tree node
+    inherited(page: PdfDict, key: string): PdfValue {
+        let node: PdfDict | null = page;
+        for (let depth = 0; node && depth < 20; depth++) {
+            const value = node.get(key);
+            if (value !== null) return this.resolve(value);
+            node = this.dict(node.get('Parent'));
+        }
+        return null;
+    }
+}
+
+function nameOf(value: PdfValue | undefined): string {
+    return value instanceof PdfName ? value.name : '';
+}
+
+// ─── Fonts ───────────────────────────────────────────────────
+const GLYPH_NAMES: Record<string, string> = {
+    space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+    quotesingle: "'", quoteright: '’', quoteleft: '‘', parenleft: '(', parenright: ')', asterisk: '*',
+    plus: '+', comma: ',', hyphen: '-', minus: '−', period: '.', slash: '/', colon: ':', semicolon: ';',
+    less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+    bracketright: ']', asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|',
+    braceright: '}', asciitilde: '~', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5',
+    six: '6', seven: '7', eight: '8', nine: '9', endash: '–', emdash: '—', bullet: '•',
+    periodcentered: '·', quotedblleft: '“', quotedblright: '”', quotesinglbase: '‚', quotedblbase: '„',
+    ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', dagger: '†', daggerdbl: '‡',
+    copyright: '©', registered: '®', trademark: '™', degree: '°', section: '§', paragraph: '¶',
+    dotlessi: 'ı', germandbls: 'ß', eacute: 'é', egrave: 'è', aacute: 'á', agrave: 'à', oacute: 'ó',
+    uacute: 'ú', iacute: 'í', ntilde: 'ñ', ccedilla: 'ç', udieresis: 'ü', odieresis: 'ö', adieresis: 'ä',
+    nbspace: ' ', sterling: '£', Euro: '€', yen: '¥', multiply: '×', arrowright: '→', circle: '○',
+};
+
+function glyphToUnicode(name: string): string {
+    const base = name.split('.')[0];
+    if (base in GLYPH_NAMES) return GLYPH_NAMES[base];
+    if (base.length === 1) return base;
+    const uni = /^uni([0-9A-Fa-f]{4})$/.exec(base) || /^u([0-9A-Fa-f]{4,6})$/.exec(base);
+    if (uni) return String.fromCodePoint(parseInt(uni[1], 16));
+    return '';
+}
+
+// TeX's OT1 fonts keep ligatures in the control range
+const TEX_LIGATURES: Record<number, string> = { 11: 'ff', 12: 'fi', 13: 'fl', 14: 'ffi', 15: 'ffl' };
+
+let winAnsi: string[] | null = null;
+function winAnsiTable(): string[] {
+    if (!winAnsi) {
+        const decoder = new TextDecoder('windows-1252');
+        winAnsi = Array.from({ length: 256 }, (_, i) =>
+            i < 32 ? '' : decoder.decode(new Uint8Array([i]))
+        );
+    }
+    return winAnsi;
+}
+
+function utf16be(hex: string): string {
+    let out = '';
+    for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    return out;
+}
+
+interface ToUnicodeMap {
+    codeBytes: number;
+    map: Map<number, string>;
+}
+
+function parseToUnicode(cmap: string): ToUnicodeMap {
+    const map = new Map<number, string>();
+    const space = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+    const codeBytes = space ? Math.ceil(space[1].length / 2) : 2;
+
+    for (const block of cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || []) {
+        for (const [, src, dst] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+            map.set(parseInt(src, 16), utf16be(dst));
+        }
+    }
+    for (const block of cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || []) {
+        for (const [, lo, hi, dst] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+            const start = parseInt(lo, 16);
+            const end = Math.min(parseInt(hi, 16), start + 0xffff);
+            if (dst.startsWith('[')) {
+                const targets = [...dst.matchAll(/<([0-9a-fA-F]*)>/g)].map((m) => utf16be(m[1]));
+                targets.forEach((target, i) => map.set(start + i, target));
+            } else {
+                // Increment the last code unit across the range
+                const hex = dst.slice(1, -1);
+                const prefix = utf16be(hex.slice(0, -4));
+                const last = parseInt(hex.slice(-4), 16);
+                for (let code = start; code <= end; code++) map.set(code, prefix + String.fromCharCode(last + code - start));
+            }
+        }
+    }
+    return { codeBytes, map };
+}
+
+interface Glyph {
+    text: string;
+    width: number; // in 1/1000 text space units
+    isSpace: boolean;
+}
+
+class PdfFont {
+    private widths = new Map<number, number>();
+    private defaultWidth = 500;
+    private encoding: string[] = winAnsiTable().slice();
+    private toUnicode: ToUnicodeMap | null = null;
+    private composite = false;
+    // Predefined CMaps such as UniJIS-UCS2-H use UTF-16 codes directly
+    private unicodeCodes = false;
+
+    static async load(doc: PdfDocument, dict: PdfDict): Promise<PdfFont> {
+        const font = new PdfFont();
+        font.composite = nameOf(dict.get('Subtype')) === 'Type0';
+        font.unicodeCodes = font.composite && /UCS2|UTF16/.test(nameOf(dict.get('Encoding')));
+
+        const toUnicode = dict.get('ToUnicode');
+        if (toUnicode instanceof PdfRef) {
+            const cmap = await doc.stream(toUnicode);
+            if (cmap) font.toUnicode = parseToUnicode(cmap);
+        }
+
+        if (font.composite) {
+            const descendants = doc.resolve(dict.get('DescendantFonts'));
+            const cid = Array.isArray(descendants) ? doc.dict(descendants[0]) : null;
+            if (cid) font.readCidWidths(doc, cid);
+        } else {
+            font.readSimpleWidths(doc, dict);
+            font.readEncoding(doc, dict);
+        }
+        return font;
+    }
+
+    private readSimpleWidths(doc: PdfDocument, dict: PdfDict) {
+        const first = Number(doc.resolve(dict.get('FirstChar'))) || 0;
+        const widths = doc.resolve(dict.get('Widths'));
+        if (Array.isArray(widths)) widths.forEach((w, i) => this.widths.set(first + i, Number(doc.resolve(w)) || 0));
+    }
+
+    // /W [ c [w1 w2 …]  cFirst cLast w … ]
+    private readCidWidths(doc: PdfDocument, cid: PdfDict) {
+        this.defaultWidth = Number(doc.resolve(cid.get('DW'))) || 1000;
+        const w = doc.resolve(cid.get('W'));
+        if (!Array.isArray(w)) return;
+        for (let i = 0; i < w.length; ) {
+            const start = Number(w[i]);
+            const next = doc.resolve(w[i + 1]);
+            if (Array.isArray(next)) {
+                next.forEach((width, j) => this.widths.set(start + j, Number(width) || 0));
+                i += 2;
+            } else {
+                const end = Number(next);
+                const width = Number(w[i + 2]) || 0;
+                for (let code = start; code <= end && code - start < 0xffff; code++) this.widths.set(code, width);
+                i += 3;
+            }
+        }
+    }
+
+    private readEncoding(doc: PdfDocument, dict: PdfDict) {
+        // Computer Modern text fonts embedded without an encoding use OT1; the symbol fonts (CMSY, CMMI) don't
+        if (/^(\w{6}\+)?CM(R|BX|TI|SL|SS|TT|CSC|B\d)/.test(nameOf(dict.get('BaseFont')))) {
+            for (const [code, text] of Object.entries(TEX_LIGATURES)) this.encoding[Number(code)] = text;
+        }
+        const encoding = doc.resolve(dict.get('Encoding'));
+        const differences = encoding instanceof PdfDict ? doc.resolve(encoding.get('Differences')) : null;
+        if (!Array.isArray(differences)) return;
+        let code = 0;
+        for (const entry of differences) {
+            if (typeof entry === 'number') code = entry;
+            else if (entry instanceof PdfName) this.encoding[code++] = glyphToUnicode(entry.name);
+        }
+    }
+
+    decode(bytes: string): Glyph[] {
+        const glyphs: Glyph[] = [];
+        const size = this.toUnicode?.codeBytes ?? (this.composite ? 2 : 1);
+
+        for (let i = 0; i < bytes.length; i += size) {
+            let code = 0;
+            for (let j = 0; j < size; j++) code = (code << 8) | (bytes.charCodeAt(i + j) || 0);
+
+            // Identity-encoded composite fonts without a ToUnicode map have no recoverable text
+            const fallback = this.unicodeCodes ? String.fromCharCode(code) : this.composite ? '' : this.encoding[code] || '';
+            const text = this.toUnicode?.map.get(code) ?? fallback;
+            glyphs.push({
+                text,
+                width: this.widths.get(code) ?? this.defaultWidth,
+                isSpace: size === 1 && code === 32,
+            });
+        }
+        return glyphs;
+    }
+}
+
+// ─── Content Streams ─────────────────────────────────────────
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[1] * n[2],
+        m[0] * n[1] + m[1] * n[3],
+        m[2] * n[0] + m[3] * n[2],
+        m[2] * n[1] + m[3] * n[3],
+        m[4] * n[0] + m[5] * n[2] + n[4],
+        m[4] * n[1] + m[5] * n[3] + n[5],
+    ];
+}
+
+interface TextRun {
+    text: string;
+    x: number;
+    xEnd: number;
+    y: number;
+    size: number;
+}
+
+async function readPage(doc: PdfDocument, page: PdfDict): Promise<TextRun[]> {
+    const runs: TextRun[] = [];
+    const fonts = new Map<string, PdfFont | null>();
+
+    const fontFor = async (resources: PdfDict | null, name: string): Promise<PdfFont | null> => {
+        if (!fonts.has(name)) {
+            const dict = doc.dict(doc.dict(resources?.get('Font'))?.get(name));
+            fonts.set(name, dict ? await PdfFont.load(doc, dict) : null);
+        }
+        return fonts.get(name)!;
+    };
+
+    const contents = doc.resolve(page.get('Contents'));
+    const parts = Array.isArray(contents) ? contents : [page.get('Contents')];
+    const source = (await Promise.all(parts.map((part) => doc.stream(part)))).join('\n');
+    const resources = doc.inherited(page, 'Resources');
+    await interpret(source, resources instanceof PdfDict ? resources : null, IDENTITY);
+    return runs;
+
+    async function interpret(content: string, resources: PdfDict | null, baseCtm: Matrix, depth = 0) {
+        const lexer = new PdfLexer(content);
+        const operands: PdfValue[] = [];
+        const stack: Matrix[] = [];
+        let ctm = baseCtm;
+        let tm: Matrix = IDENTITY;
+        let tlm: Matrix = IDENTITY;
+        let font: PdfFont | null = null;
+        let fontSize = 1;
+        let leading = 0;
+        let charSpacing = 0;
+        let wordSpacing = 0;
+        let scale = 1;
+
+        const num = (i: number) => Number(operands[operands.length - i]) || 0;
+        const moveLine = (tx: number, ty: number) => {
+            tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+            tm = tlm;
+        };
+
+        const show = (bytes: string) => {
+            if (!font) return;
+            let text = '';
+            const start = multiply(tm, ctm);
+            for (const glyph of font.decode(bytes)) {
+                text += glyph.text;
+                const advance = (glyph.width / 1000) * fontSize + charSpacing + (glyph.isSpace ? wordSpacing : 0);
+                tm = multiply([1, 0, 0, 1, advance * scale, 0], tm);
+            }
+            const end = multiply(tm, ctm);
+            const size = Math.abs(fontSize * Math.hypot(start[2], start[3])) || fontSize;
+            if (text) runs.push({ text, x: start[4], xEnd: end[4], y: start[5], size });
+        };
+
+        while (!lexer.done) {
+            const token = lexer.read();
+            if (!(token instanceof PdfOp)) {
+                if (token !== undefined) operands.push(token);
+                continue;
+            }
+
+            switch (token.op) {
+                case 'q': stack.push(ctm); break;
+                case 'Q': ctm = stack.pop() || baseCtm; break;
+                case 'cm': ctm = multiply([num(6), num(5), num(4), num(3), num(2), num(1)], ctm); break;
+                case 'BT': tm = tlm = IDENTITY; break;
+                case 'Tf': {
+                    const name = operands[operands.length - 2];
+                    font = name instanceof PdfName ? await fontFor(resources, name.name) : null;
+                    fontSize = num(1);
+                    break;
+                }
+                case 'TL': leading = num(1); break;
+                case 'Tc': charSpacing = num(1); break;
+                case 'Tw': wordSpacing = num(1); break;
+                case 'Tz': scale = num(1) / 100; break;
+                case 'Td': moveLine(num(2), num(1)); break;
+                case 'TD': leading = -num(1); moveLine(num(2), num(1)); break;
+                case 'Tm': tm = tlm = [num(6), num(5), num(4), num(3), num(2), num(1)]; break;
+                case 'T*': moveLine(0, -leading); break;
+                case 'Tj': {
+                    const str = operands[operands.length - 1];
+                    if (str instanceof PdfString) show(str.bytes);
+                    break;
+                }
+                case "'":
+                case '"': {
+                    if (token.op === '"') {
+                        wordSpacing = num(3);
+                        charSpacing = num(2);
+                    }
+                    moveLine(0, -leading);
+                    const str = operands[operands.length - 1];
+                    if (str instanceof PdfString) show(str.bytes);
+                    break;
+                }
+                case 'TJ': {
+                    const items = operands[operands.length - 1];
+                    if (!Array.isArray(items)) break;
+                    for (const item of items) {
+                        if (item instanceof PdfString) show(item.bytes);
+                        else if (typeof item === 'number') tm = multiply([1, 0, 0, 1, (-item / 1000) * fontSize * scale, 0], tm);
+                    }
+                    break;
+                }
+                case 'Do': {
+                    // Form XObjects can carry text (headers, templates)
+                    const name = operands[operands.length - 1];
+                    const xobjects = doc.dict(resources?.get('XObject'));
+                    const ref = name instanceof PdfName ? xobjects?.get(name.name) : null;
+                    const form = ref instanceof PdfRef ? doc.objects.get(ref.num) : undefined;
+                    const dict = form?.value instanceof PdfDict ? form.value : null;
+                    if (!form || !dict || nameOf(dict.get('Subtype')) !== 'Form' || depth > 5) break;
+                    const matrix = doc.resolve(dict.get('Matrix'));
+                    const formCtm = Array.isArray(matrix) && matrix.length === 6
+                        ? multiply(matrix.map(Number) as Matrix, ctm)
+                        : ctm;
+                    const formResources = doc.dict(dict.get('Resources')) || resources;
+                    await interpret(await doc.decodeStream(form), formResources, formCtm, depth + 1);
+                    break;
+                }
+                case 'BI': lexer.skipInlineImage(); break;
+            }
+            operands.length = 0;
+        }
+    }
+}
+
+// ─── Layout ──────────────────────────────────────────────────
+// Group runs into lines top to bottom, then join each line left to right
+function layoutRuns(runs: TextRun[]): string {
+    const sorted = runs
+        .filter((r) => r.text.trim() || r.text === ' ')
+        .sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const lines: { y: number; size: number; runs: TextRun[] }[] = [];
+    for (const run of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line.y - run.y) < Math.max(line.size, run.size) * 0.5) {
+            line.runs.push(run);
+        } else {
+            lines.push({ y: run.y, size: run.size, runs: [run] });
+        }
+    }
+
+    const output: string[] = [];
+    lines.forEach((line, index) => {
+        const ordered = line.runs.sort((a, b) => a.x - b.x);
+        let text = '';
+        let lastEnd = -Infinity;
+        for (const run of ordered) {
+            const gap = run.x - lastEnd;
+            if (text && gap > run.size * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.text)) text += ' ';
+            text += run.text;
+            lastEnd = Math.max(lastEnd, run.xEnd);
+        }
+
+        // A gap of two lines or more starts a new block
+        const previous = lines[index - 1];
+        if (previous && previous.y - line.y > Math.max(previous.size, line.size) * 2.2) output.push('');
+        output.push(text.replace(/\s+/g, ' ').trim());
+    });
+
+    return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// ─── Public API ──────────────────────────────────────────────
+export async function extractPdfText(data: Uint8Array, inflate: InflateFn): Promise<string> {
+    const doc = new PdfDocument(bytesToBinary(data), inflate);
+    await doc.loadObjectStreams();
+
+    const pages: string[] = [];
+    for (const page of doc.pages()) {
+        const text = layoutRuns(await readPage(doc, page));
+        if (text) pages.push(text);
+    }
+    return pages.join('\n\n');
+}
+
+export async function countPdfPages(data: Uint8Array, inflate: InflateFn): Promise<number> {
+    const doc = new PdfDocument(bytesToBinary(data), inflate);
+    await doc.loadObjectStreams();
+    return doc.pages().length;
+}
@@ -0,0 +1,206 @@
+// Word export for LaTeX resumes
+// Renders the resume layout as a Word document – contact header, ruled
+// section headings, entry headings with right-aligned dates, real bullet
+// lists, bold/italic runs and hyperlinks – styled by a selectable template.
+
+import {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    LevelFormat,
+    Paragraph,
+    Tab,
+    TabStopType,
+    TextRun,
+    type ParagraphChild,
+} from 'docx';
+import { absoluteUrl, layoutResume, type ResumeBlock, type TextSpan } from './resume-layout';
+
+// ─── Templates ───────────────────────────────────────────────
+export type DocxTemplateId = 'classic' | 'modern' | 'compact';
+
+export interface DocxTemplate {
+    id: DocxTemplateId;
+    name: string;
+    description: string;
+    font: string;
+    // Font sizes are in half-points, spacing and margins in twips (1440 per inch)
+    bodySize: number;
+    nameSize: number;
+    headingSize: number;
+    accentColor: string;
+    headerAlignment: 'center' | 'left';
+    smallCapsHeadings: boolean;
+    margin: number;
+    sectionSpacing: number;
+    entrySpacing: number;
+}
+
+export const DOCX_TEMPLATES: DocxTemplate[] = [
+    {
+        id: 'classic',
+        name: 'Classic',
+        description: 'Serif type, centered header and small-caps section rules',
+        font: 'Garamond',
+        bodySize: 22,
+        nameSize: 44,
+        headingSize: 24,
+        accentColor: '000000',
+        headerAlignment: 'center',
+        smallCapsHeadings: true,
+        margin: 720,
+        sectionSpacing: 200,
+        entrySpacing: 100,
+    },
+    {
+        id: 'modern',
+        name: 'Modern',
+        description: 'Sans-serif type, left-aligned header and coloured headings',
+        font: 'Calibri',
+        bodySize: 21,
+        nameSize: 48,
+        headingSize: 26,
+        accentColor: '1F4E79',
+        headerAlignment: 'left',
+        smallCapsHeadings: false,
+        margin: 864,
+        sectionSpacing: 240,
+        entrySpacing: 120,
+    },
+    {
+        id: 'compact',
+        name: 'Compact',
+        description: 'Narrow margins and tight spacing to keep to one page',
+        font: 'Arial',
+        bodySize: 19,
+        nameSize: 36,
+        headingSize: 21,
+        accentColor: '000000',
+        headerAlignment: 'center',
+        smallCapsHeadings: true,
+        margin: 540,
+        sectionSpacing: 120,
+        entrySpacing: 60,
+    },
+];
+
+export const DEFAULT_DOCX_TEMPLATE: DocxTemplateId = 'classic';
+
+export function getDocxTemplate(id?: string): DocxTemplate {
+    return DOCX_TEMPLATES.find((t) => t.id === id) || DOCX_TEMPLATES[0];
+}
+
+// ─── Runs ────────────────────────────────────────────────────
+function toRuns(spans: TextSpan[]): ParagraphChild[] {
+    return spans.map(({ text, link, bold, italics, underline }) => {
+        const run = new TextRun({ text, bold, italics, underline: underline ? {} : undefined, style: link ? 'Hyperlink' : undefined });
+        return link ? new ExternalHyperlink({ link: absoluteUrl(link), children: [run] }) : run;
+    });
+}
+
+// ─── Document ────────────────────────────────────────────────
+const PAGE_WIDTH = 12240; // US Letter
+const PAGE_HEIGHT = 15840;
+const BULLETS = 'resume-bullets';
+
+function blockParagraphs(block: ResumeBlock, template: DocxTemplate, tabStop: number): Paragraph[] {
+    const alignment = template.headerAlignment === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT;
+
+    switch (block.type) {
+        case 'name':
+            return [
+                new Paragraph({
+                    alignment,
+                    spacing: { after: 60 },
+                    children: [
+                        new TextRun({
+                            text: block.text,
+                            bold: true,
+                            size: template.nameSize,
+                            color: template.accentColor,
+                            smallCaps: template.smallCapsHeadings,
+                        }),
+                    ],
+                }),
+            ];
+        case 'contact':
+            return [
+                new Paragraph({
+                    alignment,
+                    spacing: { after: 120 },
+                    children: block.items.flatMap((span, i) => [...(i ? [new TextRun({ text: '  |  ' })] : []), ...toRuns([span])]),
+                }),
+            ];
+        case 'section':
+            return [
+                new Paragraph({
+                    keepNext: true,
+                    spacing: { before: template.sectionSpacing, after: 80 },
+                    border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: template.accentColor, space: 1 } },
+                    children: [
+                        new TextRun({
+                            text: block.title,
+                            bold: true,
+                            size: template.headingSize,
+                            color: template.accentColor,
+                            smallCaps: template.smallCapsHeadings,
+                        }),
+                    ],
+                }),
+            ];
+        case 'entry':
+            return block.lines.map(
+                ({ left, right }, i) =>
+                    new Paragraph({
+                        keepNext: true,
+                        spacing: { before: i === 0 ? template.entrySpacing : 0 },
+                        tabStops: [{ type: TabStopType.RIGHT, position: tabStop }],
+                        children: [...toRuns(left), ...(right.length ? [new TextRun({ children: [new Tab()] }), ...toRuns(right)] : [])],
+                    })
+            );
+        case 'bullet':
+            return [new Paragraph({ numbering: { reference: BULLETS, level: 0 }, spacing: { after: 20 }, children: toRuns(block.spans) })];
+        case 'line':
+            return [new Paragraph({ spacing: { after: 40 }, children: toRuns(block.spans) })];
+    }
+}
+
+export function buildResumeDocx(latex: string, templateId?: DocxTemplateId): Document {
+    const template = getDocxTemplate(templateId);
+    const tabStop = PAGE_WIDTH - 2 * template.margin;
+    const children = layoutResume(latex).flatMap((block) => blockParagraphs(block, template, tabStop));
+
+    return new Document({
+        styles: {
+            default: { document: { run: { font: template.font, size: template.bodySize } } },
+        },
+        numbering: {
+            config: [
+                {
+                    reference: BULLETS,
+                    levels: [
+                        {
+                            level: 0,
+                            format: LevelFormat.BULLET,
+                            text: '•',
+                            alignment: AlignmentType.LEFT,
+                            style: { paragraph: { indent: { left: 360, hanging: 200 } } },
+                        },
+                    ],
+                },
+            ],
+        },
+        sections: [
+            {
+                properties: {
+                    page: {
+                        size: { width: PAGE_WIDTH, height: PAGE_HEIGHT },
+                        margin: { top: template.margin, right: template.margin, bottom: template.margin, left: template.margin },
+                    },
+                },
+                children,
+            },
+        ],
+    });
+}
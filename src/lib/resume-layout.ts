@@ -0,0 +1,199 @@
+// Resume layout shared by the document exporters
+// Reads a LaTeX resume into format-neutral blocks – name, contact line,
+// section headings, entry headings with right-hand details, bullets and plain
+// lines – made of styled text spans, so DOCX, plain text and Markdown render
+// the same structure.
+
+import { argSource, getSections, latexToText, parseLatex, readEntries, type CommandNode, type LatexNode } from './latex-parser';
+import { resumeFromLatex, sectionKind } from './resume-model';
+
+// ─── Inline Text ─────────────────────────────────────────────
+export interface SpanStyle {
+    bold?: boolean;
+    italics?: boolean;
+    underline?: boolean;
+    link?: string;
+}
+
+export interface TextSpan extends SpanStyle {
+    text: string;
+}
+
+const STYLE_COMMANDS: Record<string, SpanStyle> = {
+    textbf: { bold: true },
+    textit: { italics: true },
+    emph: { italics: true },
+    textsl: { italics: true },
+    underline: { underline: true },
+    uline: { underline: true },
+};
+// Declarations like {\bfseries ...} style the rest of their group
+const STYLE_DECLARATIONS: Record<string, SpanStyle> = {
+    bfseries: { bold: true },
+    bf: { bold: true },
+    itshape: { italics: true },
+    it: { italics: true },
+    em: { italics: true },
+    slshape: { italics: true },
+};
+
+function readSpans(source: string, nodes: LatexNode[], style: SpanStyle = {}, out: TextSpan[] = []): TextSpan[] {
+    let current = style;
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'comment':
+                break;
+            case 'group':
+            case 'environment':
+                readSpans(source, node.children, current, out);
+                break;
+            case 'command':
+                if (STYLE_DECLARATIONS[node.name]) {
+                    current = { ...current, ...STYLE_DECLARATIONS[node.name] };
+                } else if (STYLE_COMMANDS[node.name]) {
+                    for (const arg of node.args) readSpans(source, arg.children, { ...current, ...STYLE_COMMANDS[node.name] }, out);
+                } else if (node.name === 'href') {
+                    const link = argSource(source, node.args[0]).trim();
+                    readSpans(source, node.args[1]?.children || [], { ...current, link }, out);
+                } else if (node.name === 'url') {
+                    const link = argSource(source, node.args[0]).trim();
+                    out.push({ ...current, text: link, link });
+                } else if (node.args.length && latexToText(node)) {
+                    // Wrappers like \small{...}: keep the styling inside the arguments
+                    node.args.forEach((arg, i) => {
+                        if (i) out.push({ ...current, text: ' ' });
+                        readSpans(source, arg.children, current, out);
+                    });
+                } else {
+                    out.push({ ...current, text: latexToText(node) });
+                }
+                break;
+            default:
+                out.push({ ...current, text: latexToText(node) });
+        }
+    }
+    return out;
+}
+
+// Collapse whitespace across span boundaries and drop empty spans
+function normalizeSpans(spans: TextSpan[]): TextSpan[] {
+    const out: TextSpan[] = [];
+    let pendingSpace = false;
+    for (const span of spans) {
+        const text = span.text.replace(/\s+/g, ' ');
+        const leading = text.startsWith(' ');
+        const body = text.trim();
+        if (!body) {
+            pendingSpace ||= leading;
+            continue;
+        }
+        if (out.length && (pendingSpace || leading)) out.push({ text: ' ' });
+        out.push({ ...span, text: body });
+        pendingSpace = text.endsWith(' ');
+    }
+    return out;
+}
+
+// Split at \\ and \newline so each line can become its own paragraph
+function splitLines(spans: TextSpan[]): TextSpan[][] {
+    const lines: TextSpan[][] = [[]];
+    for (const span of spans) {
+        span.text.split('\n').forEach((part, i) => {
+            if (i) lines.push([]);
+            lines[lines.length - 1].push({ ...span, text: part });
+        });
+    }
+    return lines.map(normalizeSpans).filter((line) => line.length);
+}
+
+function withStyle(spans: TextSpan[], style: SpanStyle): TextSpan[] {
+    return spans.map((span) => ({ ...span, ...style }));
+}
+
+export function absoluteUrl(url: string): string {
+    return /^(https?:|mailto:|tel:)/i.test(url) ? url : `https://${url}`;
+}
+
+// ─── Blocks ──────────────────────────────────────────────────
+// One line of an entry heading; `right` is set against the right margin
+export interface EntryLine {
+    left: TextSpan[];
+    right: TextSpan[];
+}
+
+export type ResumeBlock =
+    | { type: 'name'; text: string }
+    | { type: 'contact'; items: TextSpan[] }
+    | { type: 'section'; title: string }
+    | { type: 'entry'; lines: EntryLine[] }
+    | { type: 'bullet'; spans: TextSpan[] }
+    | { type: 'line'; spans: TextSpan[] };
+
+function displayUrl(url: string): string {
+    return url.replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/+$/, '');
+}
+
+// \resumeSubheading{#1}{#2}{#3}{#4} → two lines as the template draws them,
+// #2 and #4 on the right; two-argument headings keep one line
+function entryLines(source: string, heading: CommandNode): EntryLine[] {
+    const args = heading.args.map((arg) => normalizeSpans(readSpans(source, arg.children)));
+
+    if (args.length >= 4) {
+        const [title, location, subtitle, dates] = args;
+        const lines = [{ left: withStyle(title, { bold: true }), right: location }];
+        if (subtitle.length || dates.length) {
+            lines.push({ left: withStyle(subtitle, { italics: true }), right: withStyle(dates, { italics: true }) });
+        }
+        return lines;
+    }
+    if (args.length === 3) {
+        const [title, detail, dates] = args;
+        return [{ left: [...withStyle(title, { bold: true }), { text: ' | ' }, ...detail], right: dates }];
+    }
+    if (args.length === 2) return [{ left: args[0], right: args[1] }];
+    return args.length ? [{ left: withStyle(args[0], { bold: true }), right: [] }] : [];
+}
+
+export function layoutResume(latex: string): ResumeBlock[] {
+    const blocks: ResumeBlock[] = [];
+    const { basics } = resumeFromLatex(latex);
+
+    if (basics.name) blocks.push({ type: 'name', text: basics.name });
+    const contact: TextSpan[] = [
+        { text: basics.phone },
+        { text: basics.email, link: basics.email && `mailto:${basics.email}` },
+        ...basics.profiles.map((p) => ({ text: displayUrl(p.url), link: p.url })),
+        { text: basics.url && displayUrl(basics.url), link: basics.url },
+        { text: basics.location },
+    ].filter((span) => span.text);
+    if (contact.length) blocks.push({ type: 'contact', items: contact });
+
+    for (const section of getSections(parseLatex(latex)).sections) {
+        blocks.push({ type: 'section', title: section.title });
+        const entries = readEntries(section.nodes);
+        // Skill lists read as "Category: a, b, c" lines rather than bullets
+        const lineItems = sectionKind(section.title) === 'skills';
+
+        if (!entries.length) {
+            for (const spans of splitLines(readSpans(latex, section.nodes))) blocks.push({ type: 'line', spans });
+            continue;
+        }
+
+        for (const { heading, items } of entries) {
+            if (heading) {
+                const lines = entryLines(latex, heading);
+                if (lines.length) blocks.push({ type: 'entry', lines });
+            }
+            for (const item of items) {
+                const spans = readSpans(latex, item);
+                if (lineItems) {
+                    for (const line of splitLines(spans)) blocks.push({ type: 'line', spans: line });
+                } else {
+                    blocks.push({ type: 'bullet', spans: normalizeSpans(spans) });
+                }
+            }
+        }
+    }
+
+    return blocks;
+}
@@ -0,0 +1,491 @@
+// Resume lint rules
+// Style and consistency checks over the resume's bullets and entry headings:
+// tense, pronouns, weak verbs, quantification, length, repeated openers, date
+// formats and unescaped LaTeX specials. Every finding points at a source range
+// and carries a suggested fix; mechanical fixes come with a replacement.
+
+import {
+    argSource,
+    findEnvironment,
+    getLineColumn,
+    getSections,
+    latexToText,
+    parseLatex,
+    readEntries,
+    type LatexNode,
+} from './latex-parser';
+import { sectionKind, type SectionKind } from './resume-model';
+
+export type LintRuleId =
+    | 'tense'
+    | 'pronouns'
+    | 'weak-verbs'
+    | 'quantification'
+    | 'bullet-length'
+    | 'duplicate-verbs'
+    | 'date-format'
+    | 'latex-specials';
+
+export interface LintRule {
+    id: LintRuleId;
+    label: string;
+    description: string;
+}
+
+export const LINT_RULES: LintRule[] = [
+    { id: 'tense', label: 'Tense', description: 'Past roles use past tense verbs' },
+    { id: 'pronouns', label: 'Pronouns', description: 'No first-person pronouns such as "I" or "my"' },
+    { id: 'weak-verbs', label: 'Weak verbs', description: 'Flags "responsible for", "helped", "worked on" and similar' },
+    { id: 'quantification', label: 'Quantification', description: 'Experience and project bullets include a number' },
+    { id: 'bullet-length', label: 'Bullet length', description: 'Bullets between 5 and 30 words' },
+    { id: 'duplicate-verbs', label: 'Repeated verbs', description: 'Bullets in a role don\'t open with the same verb' },
+    { id: 'date-format', label: 'Date format', description: 'Every date uses the same format' },
+    { id: 'latex-specials', label: 'LaTeX specials', description: 'Unescaped &, % and # in text' },
+];
+
+export interface LintFinding {
+    rule: LintRuleId;
+    message: string;
+    // Source range in the LaTeX
+    start: number;
+    end: number;
+    line: number;
+    suggestion: string;
+    // Text for start..end when the fix is mechanical
+    replacement?: string;
+}
+
+type Finding = Omit<LintFinding, 'line'>;
+
+// ─── Bullets ─────────────────────────────────────────────────
+interface Bullet {
+    text: string;
+    start: number;
+    end: number;
+    section: SectionKind;
+    // Index of the entry (role, project) the bullet belongs to
+    entry: number;
+    // Whether the entry's dates run to the present; null without dates
+    current: boolean | null;
+}
+
+const YEAR_REGEX = /\b(19|20)\d{2}\b/;
+const PRESENT_REGEX = /\b(present|current|now|ongoing)\b/i;
+
+function readBullets(latex: string): Bullet[] {
+    const { sections } = getSections(parseLatex(latex));
+    const bullets: Bullet[] = [];
+    let entryIndex = 0;
+
+    for (const section of sections) {
+        const kind = sectionKind(section.title);
+        if (kind === 'skills') continue;
+        let current: boolean | null = null;
+        for (const entry of readEntries(section.nodes)) {
+            entryIndex++;
+            if (entry.heading) {
+                const dates = entry.heading.args.map((arg) => latexToText(arg.children)).join(' ');
+                current = PRESENT_REGEX.test(dates) ? true : YEAR_REGEX.test(dates) ? false : null;
+            }
+            for (const item of entry.items) {
+                // Point at the bullet's text, not the whitespace around it
+                const source = latex.slice(item[0].start, item[item.length - 1].end);
+                const start = item[0].start + (source.length - source.trimStart().length);
+                bullets.push({
+                    text: latexToText(item).replace(/\s+/g, ' ').trim(),
+                    start,
+                    end: start + source.trim().length,
+                    section: kind,
+                    entry: entryIndex,
+                    current,
+                });
+            }
+        }
+    }
+    return bullets;
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Source range of a word inside a bullet, or the whole bullet when markup
+// splits it
+function locate(latex: string, bullet: Bullet, word: string): { start: number; end: number } {
+    const match = new RegExp(`(?<![\\w'])${escapeRegex(word)}(?![\\w'])`).exec(latex.slice(bullet.start, bullet.end));
+    return match
+        ? { start: bullet.start + match.index, end: bullet.start + match.index + match[0].length }
+        : { start: bullet.start, end: bullet.end };
+}
+
+const leadingWord = (text: string) => text.match(/^[A-Za-z][A-Za-z-]*/)?.[0] || '';
+const matchCase = (word: string, like: string) =>
+    /^[A-Z]/.test(like) ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+
+// ─── Verbs ───────────────────────────────────────────────────
+const ACTION_VERBS = new Set([
+    'achieve', 'analyze', 'architect', 'automate', 'build', 'collaborate', 'conduct', 'contribute',
+    'coordinate', 'create', 'cut', 'debug', 'decrease', 'define', 'deliver', 'deploy', 'design',
+    'develop', 'direct', 'drive', 'enable', 'engineer', 'enhance', 'establish', 'expand', 'grow',
+    'guide', 'identify', 'implement', 'improve', 'increase', 'integrate', 'introduce', 'launch',
+    'lead', 'maintain', 'manage', 'mentor', 'migrate', 'monitor', 'optimize', 'own', 'partner',
+    'plan', 'produce', 'reduce', 'refactor', 'resolve', 'run', 'scale', 'ship', 'spearhead',
+    'streamline', 'support', 'teach', 'test', 'train', 'troubleshoot', 'work', 'write',
+]);
+
+const IRREGULAR_PAST: Record<string, string> = {
+    build: 'built', drive: 'drove', grow: 'grew', lead: 'led', run: 'ran', teach: 'taught',
+    write: 'wrote', plan: 'planned', ship: 'shipped', cut: 'cut',
+};
+
+function pastTense(base: string): string {
+    if (IRREGULAR_PAST[base]) return IRREGULAR_PAST[base];
+    if (base.endsWith('e')) return `${base}d`;
+    if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ied`;
+    return `${base}ed`;
+}
+
+const PAST_TO_BASE = new Map([...ACTION_VERBS].map((base) => [pastTense(base), base]));
+
+// Base form of a present-tense or -ing action verb ("builds", "building")
+function presentBase(word: string): string | null {
+    const w = word.toLowerCase();
+    const candidates = [w];
+    if (w.endsWith('ies')) candidates.push(`${w.slice(0, -3)}y`);
+    if (w.endsWith('es')) candidates.push(w.slice(0, -2));
+    if (w.endsWith('s')) candidates.push(w.slice(0, -1));
+    if (w.endsWith('ing')) {
+        const stem = w.slice(0, -3);
+        candidates.push(stem, `${stem}e`, stem.slice(0, -1));
+    }
+    const base = candidates.find((c) => ACTION_VERBS.has(c));
+    return base && pastTense(base) !== w ? base : null;
+}
+
+const verbBase = (word: string) => PAST_TO_BASE.get(word.toLowerCase()) ?? presentBase(word);
+
+const VERB_ALTERNATIVES: Record<string, string[]> = {
+    build: ['Developed', 'Engineered', 'Assembled'],
+    create: ['Designed', 'Launched', 'Established'],
+    design: ['Architected', 'Crafted', 'Shaped'],
+    develop: ['Built', 'Engineered', 'Authored'],
+    implement: ['Delivered', 'Executed', 'Rolled out'],
+    improve: ['Boosted', 'Strengthened', 'Sharpened'],
+    lead: ['Directed', 'Headed', 'Spearheaded'],
+    manage: ['Oversaw', 'Coordinated', 'Ran'],
+    reduce: ['Cut', 'Trimmed', 'Lowered'],
+    work: ['Partnered', 'Collaborated', 'Contributed'],
+};
+
+// `replacement` only where the swap reads right in any sentence
+const WEAK_PHRASES: { pattern: RegExp; alternatives: string; replacement?: string }[] = [
+    { pattern: /\bresponsible for\b/i, alternatives: '"Owned", "Led" or "Managed"' },
+    { pattern: /\bhelped( to)?\b/i, alternatives: '"Contributed to", "Enabled" or the specific action' },
+    { pattern: /\bassisted (with|in)\b/i, alternatives: '"Supported" or the specific action' },
+    { pattern: /\bworked on\b/i, alternatives: '"Built", "Developed" or "Delivered"' },
+    { pattern: /\b(involved|participated) in\b/i, alternatives: '"Contributed to" or "Drove"' },
+    { pattern: /\btasked with\b/i, alternatives: '"Led" or "Delivered"' },
+    { pattern: /\bduties included\b/i, alternatives: 'the actions themselves' },
+    { pattern: /\bin charge of\b/i, alternatives: '"Led" or "Directed"' },
+    { pattern: /\butilized\b/i, alternatives: '"Used"', replacement: 'used' },
+    { pattern: /\butilizes\b/i, alternatives: '"Uses"', replacement: 'uses' },
+    { pattern: /\bin order to\b/i, alternatives: '"To"', replacement: 'to' },
+];
+
+const PRONOUN_REGEX = /(?<![\w'])(I|[Mm]e|[Mm]y|[Mm]ine|[Mm]yself|[Ww]e|[Oo]ur|[Oo]urs|us)(?![\w'])/g;
+const NUMBER_WORDS = /\b(one|two|three|four|five|six|seven|eight|nine|ten|dozens?|hundreds?|thousands?|millions?|billions?|doubled|tripled|halved)\b/i;
+const MIN_WORDS = 5;
+const MAX_WORDS = 30;
+const MAX_VERB_REPEATS = 3;
+
+// ─── Bullet Rules ────────────────────────────────────────────
+type BulletRule = (latex: string, bullets: Bullet[]) => Finding[];
+
+const BULLET_RULES: Partial<Record<LintRuleId, BulletRule>> = {
+    tense: (latex, bullets) =>
+        bullets.flatMap((bullet) => {
+            const word = leadingWord(bullet.text);
+            const base = presentBase(word);
+            if (bullet.section !== 'work' || bullet.current !== false || !base) return [];
+            const past = matchCase(pastTense(base), word);
+            return [{
+                rule: 'tense' as const,
+                ...locate(latex, bullet, word),
+                message: `"${word}" is present tense in a past role`,
+                suggestion: `Use past tense: "${past}"`,
+                replacement: past,
+            }];
+        }),
+
+    pronouns: (latex, bullets) =>
+        bullets.flatMap((bullet) =>
+            [...new Set([...bullet.text.matchAll(PRONOUN_REGEX)].map(([word]) => word))].map((word) => {
+                const range = locate(latex, bullet, word);
+                // "I built …" → "Built …": only a leading pronoun before an action verb
+                const next = /^\s+([a-z])[a-z-]*/.exec(latex.slice(range.end, bullet.end));
+                const dropLeading = (word === 'I' || word === 'We') && range.start === bullet.start && next && verbBase(next[0].trim());
+                return {
+                    rule: 'pronouns' as const,
+                    ...range,
+                    message: `First-person pronoun "${word}"`,
+                    suggestion: `Drop "${word}" and lead with the action verb`,
+                    ...(dropLeading
+                        ? { end: range.end + next[0].length - next[0].trimStart().length + 1, replacement: next[1].toUpperCase() }
+                        : {}),
+                };
+            })
+        ),
+
+    'weak-verbs': (latex, bullets) =>
+        bullets.flatMap((bullet) =>
+            WEAK_PHRASES.flatMap(({ pattern, alternatives, replacement }) => {
+                const match = bullet.text.match(pattern);
+                if (!match) return [];
+                const range = locate(latex, bullet, match[0]);
+                // Markup inside the phrase leaves the whole bullet as the range
+                const exact = latex.slice(range.start, range.end) === match[0];
+                return [{
+                    rule: 'weak-verbs' as const,
+                    ...range,
+                    message: `Weak phrasing "${match[0]}"`,
+                    suggestion: `Replace with ${alternatives}`,
+                    ...(replacement && exact ? { replacement: matchCase(replacement, match[0]) } : {}),
+                }];
+            })
+        ),
+
+    quantification: (latex, bullets) =>
+        bullets
+            .filter((b) => (b.section === 'work' || b.section === 'projects') && b.text.split(' ').length >= MIN_WORDS)
+            .filter((b) => !/\d/.test(b.text) && !NUMBER_WORDS.test(b.text))
+            .map((bullet) => ({
+                rule: 'quantification' as const,
+                start: bullet.start,
+                end: bullet.end,
+                message: 'No measurable result',
+                suggestion: 'Add a number: users, requests, % improvement, time or money saved',
+            })),
+
+    'bullet-length': (latex, bullets) =>
+        bullets.flatMap((bullet) => {
+            const words = bullet.text.split(' ').length;
+            if (words >= MIN_WORDS && words <= MAX_WORDS) return [];
+            return [{
+                rule: 'bullet-length' as const,
+                start: bullet.start,
+                end: bullet.end,
+                message: words < MIN_WORDS ? `Bullet is too short (${words} words)` : `Bullet runs long (${words} words)`,
+                suggestion: words < MIN_WORDS
+                    ? 'Say what you did, how, and what came of it'
+                    : `Split it in two or cut it to ${MAX_WORDS} words (about two lines)`,
+            }];
+        }),
+
+    'duplicate-verbs': (latex, bullets) => {
+        const findings: Finding[] = [];
+        const inEntry = new Map<string, number>();
+        const overall = new Map<string, number>();
+        for (const bullet of bullets) {
+            const word = leadingWord(bullet.text);
+            const base = verbBase(word);
+            if (!base) continue;
+            const entryKey = `${bullet.entry}:${base}`;
+            inEntry.set(entryKey, (inEntry.get(entryKey) || 0) + 1);
+            overall.set(base, (overall.get(base) || 0) + 1);
+            const repeatedInEntry = inEntry.get(entryKey)! > 1;
+            if (!repeatedInEntry && overall.get(base)! <= MAX_VERB_REPEATS) continue;
+            const alternatives = VERB_ALTERNATIVES[base];
+            findings.push({
+                rule: 'duplicate-verbs',
+                ...locate(latex, bullet, word),
+                message: repeatedInEntry
+                    ? `"${word}" already opens another bullet in this entry`
+                    : `"${word}" opens ${overall.get(base)} bullets`,
+                suggestion: alternatives ? `Try ${alternatives.map((a) => `"${a}"`).join(', ')}` : 'Open with a different verb',
+            });
+        }
+        return findings;
+    },
+};
+
+// ─── Date Formats ────────────────────────────────────────────
+type DateStyle = 'short' | 'short-dot' | 'long' | 'numeric' | 'iso';
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DATE_REGEX = /\b(?:([A-Z][a-z]{2,8})(\.?)\s+((?:19|20)\d{2})|(\d{1,2})\/((?:19|20)\d{2})|((?:19|20)\d{2})-(\d{2})|((?:19|20)\d{2}))\b/g;
+const DATE_STYLE_LABELS: Record<DateStyle, string> = {
+    short: 'Jan 2020',
+    'short-dot': 'Jan. 2020',
+    long: 'January 2020',
+    numeric: '01/2020',
+    iso: '2020-01',
+};
+
+interface DateToken {
+    start: number;
+    end: number;
+    text: string;
+    // null for year-only dates
+    month: number | null;
+    year: string;
+}
+
+const DATE_STYLES = Object.keys(DATE_STYLE_LABELS) as DateStyle[];
+
+function readDate(match: RegExpMatchArray, offset: number): DateToken | null {
+    const [text, name, dot, namedYear, numMonth, numYear, isoYear, isoMonth, year] = match;
+    const position = { start: offset + match.index!, end: offset + match.index! + text.length, text };
+    if (name) {
+        // "Summer 2020" and other words before a year are not dates we can reformat
+        const month = MONTHS.findIndex((m) => m === name || m.slice(0, 3) === name || (name === 'Sept' && m === 'September'));
+        if (month < 0) return null;
+        return { ...position, month, year: namedYear };
+    }
+    const month = Number(numMonth || isoMonth) - 1;
+    // "2019-20" is a year range, not a month
+    if ((numYear || isoYear) && (month < 0 || month > 11)) return null;
+    if (numYear || isoYear) return { ...position, month, year: numYear || isoYear };
+    return { ...position, month: null, year };
+}
+
+function formatDate(style: DateStyle, month: number, year: string): string {
+    const pad = String(month + 1).padStart(2, '0');
+    switch (style) {
+        case 'short': return `${MONTHS[month].slice(0, 3)} ${year}`;
+        // Months of four letters or fewer are written out: "Aug. 2020", "June 2020"
+        case 'short-dot': return MONTHS[month].length > 4 ? `${MONTHS[month].slice(0, 3)}. ${year}` : `${MONTHS[month]} ${year}`;
+        case 'long': return `${MONTHS[month]} ${year}`;
+        case 'numeric': return `${pad}/${year}`;
+        case 'iso': return `${year}-${pad}`;
+    }
+}
+
+function lintDates(latex: string): Finding[] {
+    const { sections } = getSections(parseLatex(latex));
+    const dates: DateToken[] = [];
+    for (const section of sections) {
+        for (const { heading } of readEntries(section.nodes)) {
+            for (const arg of heading?.args || []) {
+                for (const match of argSource(latex, arg).matchAll(DATE_REGEX)) {
+                    const date = readDate(match, arg.start + 1);
+                    if (date) dates.push(date);
+                }
+            }
+        }
+    }
+
+    // A date counts toward every format it already reads as ("May 2020" is
+    // short, short-dot and long alike) and the most common one wins, so one
+    // odd date early on doesn't set the style. A tie, or no months at all,
+    // leaves no house style to enforce.
+    const writtenIn = (date: DateToken, style: DateStyle) =>
+        date.month !== null && formatDate(style, date.month, date.year) === date.text.replace(/\s+/g, ' ').replace(/^Sept\./, 'Sep.');
+    const counts = DATE_STYLES
+        .map((style) => ({ style, count: dates.filter((d) => writtenIn(d, style)).length }))
+        .sort((a, b) => b.count - a.count);
+    if (!counts[0].count || counts[0].count === counts[1].count) return [];
+    const majority = counts[0].style;
+
+    return dates
+        .filter((d) => !writtenIn(d, majority))
+        .map((date) => ({
+            rule: 'date-format' as const,
+            start: date.start,
+            end: date.end,
+            message: `"${date.text}" doesn't match the "${DATE_STYLE_LABELS[majority]}" format used elsewhere`,
+            ...(date.month === null
+                ? { suggestion: `Add the month, as in "${DATE_STYLE_LABELS[majority]}"` }
+                : {
+                    suggestion: `Write "${formatDate(majority, date.month, date.year)}"`,
+                    replacement: formatDate(majority, date.month, date.year),
+                }),
+        }));
+}
+
+// ─── LaTeX Specials ──────────────────────────────────────────
+// Environments where & separates columns
+const ALIGNMENT_ENVIRONMENTS = new Set(['tabular', 'tabular*', 'tabularx', 'array', 'align', 'align*', 'eqnarray']);
+const DEFINITION_COMMANDS = new Set(['newcommand', 'renewcommand', 'providecommand', 'newenvironment', 'renewenvironment']);
+// URLs may hold # and % as they are
+const URL_COMMANDS = new Set(['href', 'url']);
+
+function lintSpecials(latex: string): Finding[] {
+    const doc = parseLatex(latex);
+    const body = findEnvironment(doc.nodes, 'document');
+    const findings: Finding[] = [];
+    const flag = (start: number, char: string, message: string) =>
+        findings.push({
+            rule: 'latex-specials',
+            start,
+            end: start + 1,
+            message,
+            suggestion: `Write \\${char} to print "${char}"`,
+            replacement: `\\${char}`,
+        });
+
+    const visit = (nodes: LatexNode[], aligned: boolean) => {
+        for (const node of nodes) {
+            switch (node.type) {
+                case 'text':
+                    for (const match of node.value.matchAll(/[&#]/g)) {
+                        if (match[0] === '&' && aligned) continue;
+                        flag(node.start + match.index!, match[0], `Unescaped "${match[0]}"`);
+                    }
+                    break;
+                case 'comment':
+                    // "20%" starts a comment and hides the rest of the line
+                    if (/\d/.test(latex[node.start - 1] || '')) {
+                        flag(node.start, '%', 'Unescaped "%" comments out the rest of the line');
+                    }
+                    break;
+                case 'group':
+                    visit(node.children, aligned);
+                    break;
+                case 'command':
+                    if (DEFINITION_COMMANDS.has(node.name)) break;
+                    visit(URL_COMMANDS.has(node.name) ? node.args.slice(1) : node.args, aligned);
+                    break;
+                case 'environment':
+                    visit(node.args, aligned);
+                    visit(node.children, aligned || ALIGNMENT_ENVIRONMENTS.has(node.name));
+                    break;
+            }
+        }
+    };
+
+    visit(body ? body.children : doc.nodes, false);
+    return findings;
+}
+
+// ─── Engine ──────────────────────────────────────────────────
+export function lintResume(latex: string, disabled: LintRuleId[] = []): LintFinding[] {
+    const enabled = (rule: LintRuleId) => !disabled.includes(rule);
+    const bullets = readBullets(latex);
+    const findings: Finding[] = [];
+
+    for (const [rule, check] of Object.entries(BULLET_RULES) as [LintRuleId, BulletRule][]) {
+        if (enabled(rule)) findings.push(...check(latex, bullets));
+    }
+    if (enabled('date-format')) findings.push(...lintDates(latex));
+    if (enabled('latex-specials')) findings.push(...lintSpecials(latex));
+
+    return findings
+        .sort((a, b) => a.start - b.start)
+        .map((finding) => ({ ...finding, line: getLineColumn(latex, finding.start).line }));
+}
+
+// Apply every mechanical fix; later ranges first so earlier offsets hold
+export function applyLintFixes(latex: string, findings: LintFinding[]): string {
+    const fixes = findings
+        .filter((f) => f.replacement !== undefined)
+        .sort((a, b) => b.start - a.start);
+    let result = latex;
+    let limit = Infinity;
+    for (const fix of fixes) {
+        // Overlapping fixes would corrupt each other; keep the later one
+        if (fix.end > limit) continue;
+        result = result.slice(0, fix.start) + fix.replacement + result.slice(fix.end);
+        limit = fix.start;
+    }
+    return result;
+}
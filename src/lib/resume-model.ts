@@ -0,0 +1,633 @@
+// Structured resume model
+// A canonical resume (basics, work, education, projects, skills) that can be
+// read from LaTeX, rendered back to LaTeX and converted to and from the
+// JSON Resume format (https://jsonresume.org/schema).
+
+import {
+    argSource,
+    findCommands,
+    getSections,
+    latexToText,
+    parseLatex,
+    readEntries,
+    type LatexNode,
+} from './latex-parser';
+import type { UserProfile } from '@/services/storage-service';
+
+// ─── Types ───────────────────────────────────────────────────
+export interface ResumeProfileLink {
+    network: string;
+    username: string;
+    url: string;
+}
+
+export interface ResumeBasics {
+    name: string;
+    label: string;
+    email: string;
+    phone: string;
+    url: string;
+    location: string;
+    summary: string;
+    profiles: ResumeProfileLink[];
+}
+
+// Dates are kept as displayed on the resume ("Jun 2020", "Present")
+export interface ResumeWork {
+    name: string;
+    position: string;
+    location: string;
+    startDate: string;
+    endDate: string;
+    highlights: string[];
+}
+
+export interface ResumeEducation {
+    institution: string;
+    studyType: string;
+    area: string;
+    location: string;
+    startDate: string;
+    endDate: string;
+    score: string;
+    courses: string[];
+}
+
+export interface ResumeProject {
+    name: string;
+    description: string;
+    url: string;
+    startDate: string;
+    endDate: string;
+    keywords: string[];
+    highlights: string[];
+}
+
+export interface ResumeSkill {
+    name: string;
+    keywords: string[];
+}
+
+// Sections without a structured equivalent (awards, certifications, …)
+export interface ResumeSection {
+    title: string;
+    items: string[];
+}
+
+export interface Resume {
+    basics: ResumeBasics;
+    work: ResumeWork[];
+    education: ResumeEducation[];
+    projects: ResumeProject[];
+    skills: ResumeSkill[];
+    sections: ResumeSection[];
+}
+
+export function createEmptyResume(): Resume {
+    return {
+        basics: { name: '', label: '', email: '', phone: '', url: '', location: '', summary: '', profiles: [] },
+        work: [],
+        education: [],
+        projects: [],
+        skills: [],
+        sections: [],
+    };
+}
+
+// ─── Dates ───────────────────────────────────────────────────
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function splitDateRange(text: string): { startDate: string; endDate: string } {
+    const [startDate = '', endDate = ''] = text.split(/\s*[–—]\s*|\s+-+\s+|\s+to\s+/i).map((d) => d.trim());
+    return { startDate, endDate };
+}
+
+function joinDateRange(startDate: string, endDate: string): string {
+    return [startDate, endDate].filter(Boolean).join(' -- ');
+}
+
+// "June 2020" → "2020-06", "2019" → "2019", "Present" → ""
+function toIsoDate(date: string): string {
+    if (!date || /present|current|now/i.test(date)) return '';
+    const year = date.match(/\b(19|20)\d{2}\b/)?.[0];
+    if (!year) return date;
+    const month = MONTHS.findIndex((m) => date.toLowerCase().includes(m.toLowerCase()));
+    if (month >= 0) return `${year}-${String(month + 1).padStart(2, '0')}`;
+    const numeric = date.match(/\b(\d{1,2})\/(?:19|20)\d{2}\b/)?.[1];
+    return numeric ? `${year}-${numeric.padStart(2, '0')}` : year;
+}
+
+// "2020-06-01" → "Jun 2020"
+function fromIsoDate(date: string | undefined): string {
+    const match = date?.match(/^(\d{4})(?:-(\d{2}))?/);
+    if (!match) return date || '';
+    const month = match[2] ? MONTHS[Number(match[2]) - 1] : '';
+    return month ? `${month} ${match[1]}` : match[1];
+}
+
+// ─── LaTeX → Resume ──────────────────────────────────────────
+export type SectionKind = 'work' | 'education' | 'projects' | 'skills' | 'summary' | 'other';
+
+export function sectionKind(title: string): SectionKind {
+    if (/experience|employment|work/i.test(title)) return 'work';
+    if (/education|academic/i.test(title)) return 'education';
+    if (/project/i.test(title)) return 'projects';
+    if (/skill|technolog|tools/i.test(title)) return 'skills';
+    if (/summary|objective|profile|about/i.test(title)) return 'summary';
+    return 'other';
+}
+
+interface LatexEntry {
+    heading: string[];
+    items: string[];
+}
+
+const plain = (nodes: LatexNode[]) => latexToText(nodes).replace(/\s+/g, ' ').trim();
+
+function readPlainEntries(nodes: LatexNode[]): LatexEntry[] {
+    return readEntries(nodes).map(({ heading, items }) => ({
+        heading: heading ? heading.args.map((arg) => plain(arg.children)) : [],
+        items: items.map(plain),
+    }));
+}
+
+// ─── Heading Arguments ───────────────────────────────────────
+// Templates order heading arguments differently: Jake's resume writes
+// experience as {Title}{Dates}{Company}{Location} but education as
+// {School}{Location}{Degree}{Dates}. Arguments are read by what they contain.
+const DATE_ARG_REGEX = /\b(?:19|20)\d{2}\b|\b(?:present|current|now)\b/i;
+const LOCATION_ARG_REGEX = /^(?:remote|[A-Za-z .'-]+,\s*[A-Za-z .'-]+)$/i;
+const COMPANY_SUFFIX_REGEX = /,\s*(?:inc|llc|ltd|corp|co|gmbh|plc)\.?$/i;
+const TITLE_ARG_REGEX = /\b(?:engineer|developer|intern|manager|analyst|assistant|scientist|designer|lead|consultant|architect|director|specialist|researcher|officer|administrator|associate|technician|programmer|founder|president|fellow|tutor|instructor)\b/i;
+const DEGREE_ARG_REGEX = /\b(?:bachelor|master|doctor|ph\.?\s?d|[bm]\.?\s?(?:s|a|sc|tech|eng|e)\b\.?|mba|associate|diploma|degree|minor|major|certificate)/i;
+
+interface HeadingParts {
+    dates: string;
+    location: string;
+    // Remaining arguments in document order
+    names: string[];
+}
+
+function classifyHeading(heading: string[], namePattern: RegExp): HeadingParts {
+    const parts: HeadingParts = { dates: '', location: '', names: [] };
+    for (const arg of heading) {
+        if (!arg) continue;
+        if (!parts.dates && DATE_ARG_REGEX.test(arg)) parts.dates = arg;
+        else if (!parts.location && LOCATION_ARG_REGEX.test(arg) && !namePattern.test(arg) && !COMPANY_SUFFIX_REGEX.test(arg)) parts.location = arg;
+        else parts.names.push(arg);
+    }
+    return parts;
+}
+
+// [the name that reads like `pattern`, the other]; without a clear match the
+// second name is taken, as in {Company}{Location}{Position}{Dates}
+function pickName(names: string[], pattern: RegExp): [string, string] {
+    const [first = '', second = ''] = names;
+    return pattern.test(first) && !pattern.test(second) ? [first, second] : [second, first];
+}
+
+function splitList(text: string): string[] {
+    return text.split(/,|;/).map((t) => t.trim()).filter(Boolean);
+}
+
+function readBasics(latex: string, header: LatexNode[], basics: ResumeBasics) {
+    const name = findCommands(header, 'name')[0];
+    const lines = latexToText(header).split('\n').map((l) => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    basics.name = name ? plain(name.args[0]?.children || []) : lines[0] || '';
+
+    for (const link of findCommands(header, (n) => n === 'href' || n === 'url')) {
+        const url = argSource(latex, link.args[0]).trim();
+        if (url.startsWith('mailto:')) {
+            basics.email = url.slice('mailto:'.length);
+        } else if (/linkedin\.com|github\.com|gitlab\.com|twitter\.com/i.test(url)) {
+            const network = url.match(/(linkedin|github|gitlab|twitter)\.com/i)![1];
+            const username = url.replace(/\/+$/, '').split('/').pop() || '';
+            basics.profiles.push({
+                network: network.charAt(0).toUpperCase() + network.slice(1).toLowerCase(),
+                username,
+                url: /^https?:/.test(url) ? url : `https://${url}`,
+            });
+        } else if (!basics.url && /^(https?:|www\.)/.test(url)) {
+            basics.url = url;
+        }
+    }
+
+    // Contact line: "555-123-4567 | jane@x.com | Austin, TX"
+    for (const part of lines.slice(1).join(' | ').split(/\s*[|•·]\s*/)) {
+        if (!basics.email && /^\S+@\S+\.\w+$/.test(part)) basics.email = part;
+        else if (!basics.phone && /^\+?[\d\s().-]{7,}\d$/.test(part)) basics.phone = part;
+        else if (!basics.location && /^[A-Za-z .'-]+,\s*[A-Za-z .'-]+$/.test(part)) basics.location = part;
+    }
+}
+
+export function resumeFromLatex(latex: string): Resume {
+    const resume = createEmptyResume();
+    const { header, sections } = getSections(parseLatex(latex));
+    readBasics(latex, header, resume.basics);
+
+    for (const section of sections) {
+        const entries = readPlainEntries(section.nodes);
+
+        switch (sectionKind(section.title)) {
+            case 'work':
+                for (const { heading, items } of entries) {
+                    if (!heading.length && resume.work.length) {
+                        resume.work[resume.work.length - 1].highlights.push(...items);
+                        continue;
+                    }
+                    const { dates, location, names } = classifyHeading(heading, TITLE_ARG_REGEX);
+                    const [position, name] = pickName(names, TITLE_ARG_REGEX);
+                    resume.work.push({ name, position, location, ...splitDateRange(dates), highlights: items });
+                }
+                break;
+            case 'education':
+                for (const { heading, items } of entries) {
+                    if (!heading.length) continue;
+                    const { dates, location, names } = classifyHeading(heading, DEGREE_ARG_REGEX);
+                    const [degree, institution] = pickName(names, DEGREE_ARG_REGEX);
+                    const [studyType, ...area] = degree.split(/\s+in\s+/);
+                    resume.education.push({
+                        institution,
+                        studyType: studyType || '',
+                        area: area.join(' in '),
+                        location,
+                        ...splitDateRange(dates),
+                        score: items.find((i) => /\bgpa\b/i.test(i)) || '',
+                        courses: items.filter((i) => !/\bgpa\b/i.test(i)),
+                    });
+                }
+                break;
+            case 'projects':
+                for (const { heading, items } of entries) {
+                    if (!heading.length) continue;
+                    // \resumeProjectHeading{\textbf{Name} $|$ \emph{Tech, Tech}}{Dates}
+                    const [title = '', dates = ''] = heading;
+                    const [name, tech = ''] = title.split(/\s*\|\s*/);
+                    resume.projects.push({
+                        name: name || '',
+                        description: '',
+                        url: '',
+                        ...splitDateRange(dates),
+                        keywords: splitList(tech),
+                        highlights: items,
+                    });
+                }
+                break;
+            case 'skills':
+                for (const line of latexToText(section.nodes).split('\n')) {
+                    const text = line.replace(/\s+/g, ' ').trim();
+                    if (!text) continue;
+                    const colon = text.indexOf(':');
+                    resume.skills.push(colon > 0
+                        ? { name: text.slice(0, colon).trim(), keywords: splitList(text.slice(colon + 1)) }
+                        : { name: '', keywords: splitList(text) });
+                }
+                break;
+            case 'summary':
+                resume.basics.summary = plain(section.nodes);
+                break;
+            default: {
+                const items = entries.flatMap(({ heading, items }) => [heading.filter(Boolean).join(' | '), ...items]).filter(Boolean);
+                resume.sections.push({ title: section.title, items: items.length ? items : [plain(section.nodes)].filter(Boolean) });
+            }
+        }
+    }
+
+    return resume;
+}
+
+// ─── Resume → LaTeX ──────────────────────────────────────────
+const LATEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+    '&': '\\&', '%': '\\%', '$': '\\$', '#': '\\#', '_': '\\_', '{': '\\{', '}': '\\}',
+};
+
+export function escapeLatex(text: string): string {
+    return text.replace(/[\\~^&%$#_{}]/g, (ch) => LATEX_ESCAPES[ch]);
+}
+
+const LATEX_PREAMBLE = String.raw`\documentclass[letterpaper,11pt]{article}
+
+\usepackage{latexsym}
+\usepackage[empty]{fullpage}
+\usepackage{titlesec}
+\usepackage[usenames,dvipsnames]{color}
+\usepackage{enumitem}
+\usepackage[hidelinks]{hyperref}
+\usepackage{fancyhdr}
+\usepackage{tabularx}
+
+\pagestyle{fancy}
+\fancyhf{}
+\renewcommand{\headrulewidth}{0pt}
+\renewcommand{\footrulewidth}{0pt}
+
+\addtolength{\oddsidemargin}{-0.5in}
+\addtolength{\evensidemargin}{-0.5in}
+\addtolength{\textwidth}{1in}
+\addtolength{\topmargin}{-.5in}
+\addtolength{\textheight}{1.0in}
+
+\urlstyle{same}
+\raggedbottom
+\raggedright
+\setlength{\tabcolsep}{0in}
+
+\titleformat{\section}{\vspace{-4pt}\scshape\raggedright\large}{}{0em}{}[\color{black}\titlerule \vspace{-5pt}]
+
+\newcommand{\resumeItem}[1]{\item\small{{#1 \vspace{-2pt}}}}
+\newcommand{\resumeSubheading}[4]{
+  \vspace{-2pt}\item
+    \begin{tabular*}{0.97\textwidth}[t]{l@{\extracolsep{\fill}}r}
+      \textbf{#1} & #2 \\
+      \textit{\small#3} & \textit{\small #4} \\
+    \end{tabular*}\vspace{-7pt}
+}
+\newcommand{\resumeProjectHeading}[2]{
+    \item
+    \begin{tabular*}{0.97\textwidth}{l@{\extracolsep{\fill}}r}
+      \small#1 & #2 \\
+    \end{tabular*}\vspace{-7pt}
+}
+\renewcommand\labelitemii{$\vcenter{\hbox{\tiny$\bullet$}}$}
+\newcommand{\resumeSubHeadingListStart}{\begin{itemize}[leftmargin=0.15in, label={}]}
+\newcommand{\resumeSubHeadingListEnd}{\end{itemize}}
+\newcommand{\resumeItemListStart}{\begin{itemize}}
+\newcommand{\resumeItemListEnd}{\end{itemize}\vspace{-5pt}}
+`;
+
+function renderItems(items: string[], indent: string): string[] {
+    if (!items.length) return [];
+    return [
+        `${indent}\\resumeItemListStart`,
+        ...items.map((item) => `${indent}  \\resumeItem{${escapeLatex(item)}}`),
+        `${indent}\\resumeItemListEnd`,
+    ];
+}
+
+export function resumeToLatex(resume: Resume): string {
+    const { basics } = resume;
+    const e = escapeLatex;
+    const lines: string[] = [LATEX_PREAMBLE, '\\begin{document}', '', '\\begin{center}'];
+
+    lines.push(`    \\textbf{\\Huge \\scshape ${e(basics.name)}} \\\\ \\vspace{1pt}`);
+    const contact = [
+        basics.phone && e(basics.phone),
+        basics.email && `\\href{mailto:${basics.email}}{\\underline{${e(basics.email)}}}`,
+        ...basics.profiles.map((p) => `\\href{${p.url}}{\\underline{${e(p.url.replace(/^https?:\/\/(www\.)?/, ''))}}}`),
+        basics.url && `\\href{${basics.url}}{\\underline{${e(basics.url.replace(/^https?:\/\/(www\.)?/, ''))}}}`,
+        basics.location && e(basics.location),
+    ].filter(Boolean);
+    if (contact.length) lines.push(`    \\small ${contact.join(' $|$ ')}`);
+    lines.push('\\end{center}', '');
+
+    if (basics.summary) {
+        lines.push('\\section{Summary}', `\\small{${e(basics.summary)}}`, '');
+    }
+
+    if (resume.education.length) {
+        lines.push('\\section{Education}', '  \\resumeSubHeadingListStart');
+        for (const edu of resume.education) {
+            const degree = [edu.studyType, edu.area].filter(Boolean).join(' in ');
+            lines.push(
+                '    \\resumeSubheading',
+                `      {${e(edu.institution)}}{${e(edu.location)}}`,
+                `      {${e(degree)}}{${e(joinDateRange(edu.startDate, edu.endDate))}}`,
+                ...renderItems([edu.score, ...edu.courses].filter(Boolean), '      ')
+            );
+        }
+        lines.push('  \\resumeSubHeadingListEnd', '');
+    }
+
+    if (resume.work.length) {
+        lines.push('\\section{Experience}', '  \\resumeSubHeadingListStart');
+        for (const work of resume.work) {
+            lines.push(
+                '    \\resumeSubheading',
+                `      {${e(work.name)}}{${e(work.location)}}`,
+                `      {${e(work.position)}}{${e(joinDateRange(work.startDate, work.endDate))}}`,
+                ...renderItems(work.highlights, '      ')
+            );
+        }
+        lines.push('  \\resumeSubHeadingListEnd', '');
+    }
+
+    if (resume.projects.length) {
+        lines.push('\\section{Projects}', '  \\resumeSubHeadingListStart');
+        for (const project of resume.projects) {
+            const tech = project.keywords.length ? ` $|$ \\emph{${e(project.keywords.join(', '))}}` : '';
+            const highlights = project.description ? [project.description, ...project.highlights] : project.highlights;
+            lines.push(
+                '    \\resumeProjectHeading',
+                `      {\\textbf{${e(project.name)}}${tech}}{${e(joinDateRange(project.startDate, project.endDate))}}`,
+                ...renderItems(highlights, '      ')
+            );
+        }
+        lines.push('  \\resumeSubHeadingListEnd', '');
+    }
+
+    if (resume.skills.length) {
+        const skillLines = resume.skills.map((skill) => skill.name
+            ? `     \\textbf{${e(skill.name)}}{: ${e(skill.keywords.join(', '))}}`
+            : `     ${e(skill.keywords.join(', '))}`);
+        lines.push(
+            '\\section{Technical Skills}',
+            ' \\begin{itemize}[leftmargin=0.15in, label={}]',
+            '    \\small{\\item{',
+            skillLines.join(' \\\\\n'),
+            '    }}',
+            ' \\end{itemize}',
+            ''
+        );
+    }
+
+    for (const section of resume.sections) {
+        lines.push(`\\section{${e(section.title)}}`, ...renderItems(section.items, '  '), '');
+    }
+
+    lines.push('\\end{document}', '');
+    return lines.join('\n');
+}
+
+// ─── JSON Resume ─────────────────────────────────────────────
+export interface JsonResume {
+    basics?: {
+        name?: string;
+        label?: string;
+        email?: string;
+        phone?: string;
+        url?: string;
+        summary?: string;
+        location?: { address?: string; postalCode?: string; city?: string; region?: string; countryCode?: string };
+        profiles?: { network?: string; username?: string; url?: string }[];
+    };
+    work?: { name?: string; position?: string; location?: string; url?: string; startDate?: string; endDate?: string; summary?: string; highlights?: string[] }[];
+    volunteer?: { organization?: string; position?: string; startDate?: string; endDate?: string; summary?: string; highlights?: string[] }[];
+    education?: { institution?: string; area?: string; studyType?: string; startDate?: string; endDate?: string; score?: string; courses?: string[] }[];
+    awards?: { title?: string; date?: string; awarder?: string; summary?: string }[];
+    certificates?: { name?: string; date?: string; issuer?: string; url?: string }[];
+    publications?: { name?: string; publisher?: string; releaseDate?: string; url?: string; summary?: string }[];
+    skills?: { name?: string; level?: string; keywords?: string[] }[];
+    languages?: { language?: string; fluency?: string }[];
+    interests?: { name?: string; keywords?: string[] }[];
+    projects?: { name?: string; description?: string; highlights?: string[]; keywords?: string[]; startDate?: string; endDate?: string; url?: string }[];
+    meta?: { canonical?: string; version?: string; lastModified?: string; [key: string]: unknown };
+}
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const strList = (value: unknown): string[] => (Array.isArray(value) ? value.map(str).filter(Boolean) : []);
+const list = <T>(value: T[] | undefined): T[] => (Array.isArray(value) ? value : []);
+const describe = (...parts: unknown[]) => parts.map(str).filter(Boolean).join(' – ');
+
+export function fromJsonResume(input: unknown): Resume {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        throw new Error('Not a JSON Resume document');
+    }
+    const json = input as JsonResume;
+    if (!json.basics && !json.work && !json.education && !json.skills) {
+        throw new Error('Not a JSON Resume document: expected basics, work, education or skills');
+    }
+
+    const resume = createEmptyResume();
+    const basics = json.basics || {};
+    const location = basics.location || {};
+    resume.basics = {
+        name: str(basics.name),
+        label: str(basics.label),
+        email: str(basics.email),
+        phone: str(basics.phone),
+        url: str(basics.url),
+        location: [location.city, location.region].map(str).filter(Boolean).join(', '),
+        summary: str(basics.summary),
+        profiles: list(basics.profiles).map((p) => ({ network: str(p.network), username: str(p.username), url: str(p.url) })),
+    };
+
+    // JSON Resume leaves endDate out for ongoing roles
+    const range = (start?: string, end?: string) => ({
+        startDate: fromIsoDate(start),
+        endDate: end ? fromIsoDate(end) : start ? 'Present' : '',
+    });
+
+    resume.work = list(json.work).map((w) => ({
+        name: str(w.name),
+        position: str(w.position),
+        location: str(w.location),
+        ...range(w.startDate, w.endDate),
+        highlights: [str(w.summary), ...strList(w.highlights)].filter(Boolean),
+    }));
+    resume.education = list(json.education).map((ed) => ({
+        institution: str(ed.institution),
+        studyType: str(ed.studyType),
+        area: str(ed.area),
+        location: '',
+        ...range(ed.startDate, ed.endDate),
+        score: ed.score ? `GPA: ${str(ed.score)}` : '',
+        courses: strList(ed.courses),
+    }));
+    resume.projects = list(json.projects).map((p) => ({
+        name: str(p.name),
+        description: str(p.description),
+        url: str(p.url),
+        ...range(p.startDate, p.endDate),
+        keywords: strList(p.keywords),
+        highlights: strList(p.highlights),
+    }));
+    resume.skills = list(json.skills).map((s) => ({ name: str(s.name), keywords: strList(s.keywords) }));
+
+    const sections: ResumeSection[] = [
+        { title: 'Volunteering', items: list(json.volunteer).map((v) => describe(v.position, v.organization, v.summary)) },
+        { title: 'Awards', items: list(json.awards).map((a) => describe(a.title, a.awarder, fromIsoDate(a.date))) },
+        { title: 'Certifications', items: list(json.certificates).map((c) => describe(c.name, c.issuer, fromIsoDate(c.date))) },
+        { title: 'Publications', items: list(json.publications).map((p) => describe(p.name, p.publisher, fromIsoDate(p.releaseDate))) },
+        { title: 'Languages', items: list(json.languages).map((l) => describe(l.language, l.fluency)) },
+        { title: 'Interests', items: list(json.interests).map((i) => describe(i.name, strList(i.keywords).join(', '))) },
+    ];
+    const extra = Array.isArray(json.meta?.sections) ? (json.meta!.sections as ResumeSection[]) : [];
+    resume.sections = [...sections, ...extra]
+        .map((s) => ({ title: str(s.title), items: strList(s.items) }))
+        .filter((s) => s.title && s.items.length);
+
+    return resume;
+}
+
+export function toJsonResume(resume: Resume): JsonResume {
+    const { basics } = resume;
+    const [city = '', region = ''] = basics.location.split(/\s*,\s*/);
+    const range = (startDate: string, endDate: string) => ({
+        startDate: toIsoDate(startDate) || undefined,
+        endDate: toIsoDate(endDate) || undefined,
+    });
+
+    return {
+        basics: {
+            name: basics.name,
+            label: basics.label || undefined,
+            email: basics.email || undefined,
+            phone: basics.phone || undefined,
+            url: basics.url || undefined,
+            summary: basics.summary || undefined,
+            location: basics.location ? { city, region: region || undefined } : undefined,
+            profiles: basics.profiles,
+        },
+        work: resume.work.map((w) => ({
+            name: w.name,
+            position: w.position,
+            location: w.location || undefined,
+            ...range(w.startDate, w.endDate),
+            highlights: w.highlights,
+        })),
+        education: resume.education.map((ed) => ({
+            institution: ed.institution,
+            studyType: ed.studyType || undefined,
+            area: ed.area || undefined,
+            ...range(ed.startDate, ed.endDate),
+            score: ed.score.replace(/^gpa\s*:?\s*/i, '') || undefined,
+            courses: ed.courses,
+        })),
+        projects: resume.projects.map((p) => ({
+            name: p.name,
+            description: p.description || undefined,
+            url: p.url || undefined,
+            ...range(p.startDate, p.endDate),
+            keywords: p.keywords,
+            highlights: p.highlights,
+        })),
+        skills: resume.skills.map((s) => ({ name: s.name, keywords: s.keywords })),
+        // Sections JSON Resume has no slot for survive a round trip through meta
+        meta: {
+            version: 'v1.0.0',
+            lastModified: new Date().toISOString(),
+            ...(resume.sections.length ? { sections: resume.sections } : {}),
+        },
+    };
+}
+
+// ─── Profile ─────────────────────────────────────────────────
+// Autofill profile fields that can be read straight off the resume
+export function profileFromResume(resume: Resume): Partial<UserProfile> {
+    const { basics } = resume;
+    const profileUrl = (network: string) =>
+        basics.profiles.find((p) => p.network.toLowerCase() === network)?.url || '';
+    const [firstName = '', ...rest] = basics.name.split(/\s+/);
+    const [city = '', state = ''] = basics.location.split(/\s*,\s*/);
+    const education = resume.education[0];
+
+    const profile: Partial<UserProfile> = {
+        fullName: basics.name,
+        firstName,
+        lastName: rest.join(' '),
+        email: basics.email,
+        phone: basics.phone,
+        linkedinUrl: profileUrl('linkedin'),
+        githubUrl: profileUrl('github'),
+        portfolioUrl: basics.url,
+        location: basics.location,
+        city: basics.location ? city : '',
+        state,
+        currentTitle: resume.work[0]?.position || basics.label,
+        highestDegree: education ? [education.studyType, education.area].filter(Boolean).join(' in ') : '',
+        university: education?.institution || '',
+    };
+
+    return Object.fromEntries(Object.entries(profile).filter(([, value]) => value)) as Partial<UserProfile>;
+}
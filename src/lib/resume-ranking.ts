@@ -0,0 +1,97 @@
+// Base resume ranking
+// Scores each resume in the library by how much of the job description's
+// vocabulary (single terms and two-word phrases) it already covers, so the
+// closest base can be suggested before tailoring starts.
+
+import { latexToText, parseLatex } from './latex-parser';
+import { normalizeSkillMentions } from './skills-taxonomy';
+import type { BaseResume } from '@/services/storage-service';
+
+export interface ResumeMatch {
+    // 0-100, weighted share of job terms found in the resume
+    score: number;
+    matched: string[];
+    missing: string[];
+}
+
+export interface BaseResumeRank extends ResumeMatch {
+    resume: BaseResume;
+}
+
+const STOP_WORDS = new Set([
+    'a', 'about', 'across', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'being',
+    'both', 'but', 'by', 'can', 'do', 'each', 'etc', 'for', 'from', 'has', 'have', 'how', 'if', 'in',
+    'into', 'is', 'it', 'its', 'job', 'may', 'more', 'most', 'must', 'new', 'not', 'of', 'on', 'one',
+    'or', 'other', 'our', 'over', 'per', 'plus', 'role', 'should', 'so', 'such', 'team', 'than', 'that',
+    'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'up', 'us', 'using',
+    'we', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with', 'within',
+    'work', 'working', 'would', 'year', 'years', 'you', 'your',
+]);
+
+// Keeps tech tokens such as c++, c#, node.js and ci/cd whole
+const TERM_REGEX = /[a-z0-9][a-z0-9+#./-]*[a-z0-9+#]|[a-z0-9]/g;
+const MAX_TERM_FREQUENCY = 3;
+const PHRASE_WEIGHT = 1.5;
+const TAG_BONUS = 5;
+
+function readTerms(text: string): { terms: string[]; phrases: string[] } {
+    const terms: string[] = [];
+    const phrases: string[] = [];
+    // Phrases never span a sentence break or a stop word
+    for (const sentence of text.toLowerCase().split(/[\n,;:!?()]+|\.(?:\s|$)/)) {
+        let previous: string | null = null;
+        for (const token of sentence.match(TERM_REGEX) || []) {
+            if (STOP_WORDS.has(token) || /^\d+$/.test(token)) {
+                previous = null;
+                continue;
+            }
+            terms.push(token);
+            if (previous) phrases.push(`${previous} ${token}`);
+            previous = token;
+        }
+    }
+    return { terms, phrases };
+}
+
+export function scoreResumeMatch(latex: string, jobDescription: string, tags: string[] = []): ResumeMatch {
+    // Skill aliases read as their canonical name on both sides ("k8s" = "Kubernetes")
+    const job = readTerms(normalizeSkillMentions(jobDescription));
+    const resume = readTerms(normalizeSkillMentions(latexToText(parseLatex(latex).nodes)));
+    const resumeTerms = new Set([...resume.terms, ...resume.phrases]);
+
+    // Weight job terms by how often they appear, phrases only when repeated
+    const weights = new Map<string, number>();
+    job.terms.forEach((term) => weights.set(term, Math.min((weights.get(term) || 0) + 1, MAX_TERM_FREQUENCY)));
+    const phraseCounts = new Map<string, number>();
+    job.phrases.forEach((phrase) => phraseCounts.set(phrase, (phraseCounts.get(phrase) || 0) + 1));
+    phraseCounts.forEach((count, phrase) => {
+        if (count > 1) weights.set(phrase, Math.min(count, MAX_TERM_FREQUENCY) * PHRASE_WEIGHT);
+    });
+
+    let total = 0;
+    let covered = 0;
+    const matched: string[] = [];
+    const missing: string[] = [];
+    const byWeight = [...weights].sort((a, b) => b[1] - a[1]);
+    for (const [term, weight] of byWeight) {
+        total += weight;
+        if (resumeTerms.has(term)) {
+            covered += weight;
+            matched.push(term);
+        } else {
+            missing.push(term);
+        }
+    }
+
+    const jobText = jobDescription.toLowerCase();
+    const tagBonus = tags.filter((tag) => tag.trim() && jobText.includes(tag.trim().toLowerCase())).length * TAG_BONUS;
+    const score = total ? Math.min(100, Math.round((covered / total) * 100) + tagBonus) : 0;
+    return { score, matched, missing };
+}
+
+// Best match first; ties keep library order
+export function rankBaseResumes(resumes: BaseResume[], jobDescription: string): BaseResumeRank[] {
+    return resumes
+        .map((resume) => ({ resume, ...scoreResumeMatch(resume.latex, jobDescription, resume.tags) }))
+        .sort((a, b) => b.score - a.score);
+}
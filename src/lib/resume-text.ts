@@ -0,0 +1,108 @@
+// Plain-text and Markdown resume exports
+// Both render the shared resume layout. Plain text is ATS-safe: ASCII
+// punctuation, "-" bullets and link targets spelled out after their labels.
+
+import { absoluteUrl, layoutResume, type EntryLine, type ResumeBlock, type TextSpan } from './resume-layout';
+
+type Renderer = (spans: TextSpan[]) => string;
+
+function renderBlocks(blocks: ResumeBlock[], spans: Renderer, format: 'text' | 'markdown'): string {
+    const markdown = format === 'markdown';
+    const out: string[] = [];
+    const entryLine = ({ left, right }: EntryLine) => [spans(left), spans(right)].filter(Boolean).join(' | ');
+    // Markdown needs a hard break to keep consecutive lines apart
+    const lineBreak = markdown ? '  ' : '';
+
+    blocks.forEach((block, i) => {
+        const previous = blocks[i - 1]?.type;
+        switch (block.type) {
+            case 'name':
+                out.push(markdown ? `# ${spans([{ text: block.text }])}` : block.text.toUpperCase());
+                break;
+            case 'contact':
+                out.push(block.items.map((item) => spans([item])).join(' | '));
+                break;
+            case 'section':
+                out.push('', markdown ? `## ${spans([{ text: block.title }])}` : block.title.toUpperCase());
+                break;
+            case 'entry':
+                if (previous !== 'section') out.push('');
+                out.push(block.lines.map(entryLine).join(`${lineBreak}\n`));
+                break;
+            case 'bullet':
+                out.push(`- ${spans(block.spans)}`);
+                break;
+            case 'line':
+                if (previous === 'line') out[out.length - 1] += lineBreak;
+                out.push(spans(block.spans));
+                break;
+        }
+    });
+
+    return out.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+// ─── Plain Text ──────────────────────────────────────────────
+const ASCII_PUNCTUATION: Record<string, string> = {
+    '–': '-', '—': '-', '‘': "'", '’': "'", '“': '"', '”': '"', '…': '...', '•': '-', '·': '-', ' ': ' ',
+};
+
+function toAscii(text: string): string {
+    return text.replace(/[–—‘’“”…•· ]/g, (ch) => ASCII_PUNCTUATION[ch]);
+}
+
+function plainSpans(spans: TextSpan[]): string {
+    return toAscii(
+        spans
+            .map(({ text, link }) => {
+                const target = link?.replace(/^mailto:/, '');
+                // Keep the URL visible when the label hides it
+                return target && !target.includes(text) && !text.includes(target.replace(/^https?:\/\/(www\.)?/, ''))
+                    ? `${text} (${target})`
+                    : text;
+            })
+            .join('')
+    );
+}
+
+export function resumeToPlainText(latex: string): string {
+    return renderBlocks(layoutResume(latex), plainSpans, 'text');
+}
+
+// ─── Markdown ────────────────────────────────────────────────
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_[\]<>]/g, '\\$&');
+}
+
+const sameStyle = (a: TextSpan, b: TextSpan) => !!a.bold === !!b.bold && !!a.italics === !!b.italics && a.link === b.link;
+
+// Merge neighbours with the same emphasis (and the spaces between them) so
+// "**Acme** **Corp**" renders as "**Acme Corp**"
+function mergeSpans(spans: TextSpan[]): TextSpan[] {
+    const merged: TextSpan[] = [];
+    spans.forEach((span, i) => {
+        const last = merged[merged.length - 1];
+        const next = spans[i + 1];
+        if (last && (sameStyle(last, span) || (!span.text.trim() && next && sameStyle(last, next)))) {
+            last.text += span.text;
+        } else {
+            merged.push({ ...span });
+        }
+    });
+    return merged;
+}
+
+function markdownSpans(spans: TextSpan[]): string {
+    return mergeSpans(spans)
+        .map(({ text, bold, italics, link }) => {
+            let md = escapeMarkdown(text);
+            if (italics && md.trim()) md = `*${md}*`;
+            if (bold && md.trim()) md = `**${md}**`;
+            return link ? `[${md}](${absoluteUrl(link)})` : md;
+        })
+        .join('');
+}
+
+export function resumeToMarkdown(latex: string): string {
+    return renderBlocks(layoutResume(latex), markdownSpans, 'markdown');
+}
@@ -0,0 +1,94 @@
+// Section locks for tailoring
+// Locked sections (and the contact header) must come back from the model
+// byte-for-byte. After generation every locked region is compared with the
+// original and restored if the model touched, moved or dropped it.
+
+import { findEnvironment, getSections, parseLatex } from './latex-parser';
+
+// Lock key of the contact header (everything before the first \section)
+export const HEADER_LOCK = 'header';
+export const DEFAULT_LOCKED_SECTIONS = [HEADER_LOCK, 'education'];
+
+export interface LockableSection {
+    key: string;
+    title: string;
+}
+
+interface Region {
+    key: string;
+    title: string;
+    start: number;
+    end: number;
+}
+
+export function sectionLockKey(title: string): string {
+    return title.trim().toLowerCase();
+}
+
+function readRegions(latex: string): Region[] {
+    const doc = parseLatex(latex);
+    const body = findEnvironment(doc.nodes, 'document');
+    const { sections } = getSections(doc);
+    const bodyStart = body ? body.bodyStart : 0;
+    const bodyEnd = body ? body.bodyEnd : latex.length;
+
+    return [
+        { key: HEADER_LOCK, title: 'Contact Header', start: bodyStart, end: sections[0]?.start ?? bodyEnd },
+        ...sections.map((s) => ({ key: sectionLockKey(s.title), title: s.title, start: s.start, end: s.end })),
+    ];
+}
+
+export function listLockableSections(latex: string): LockableSection[] {
+    const seen = new Set<string>();
+    return readRegions(latex)
+        .filter((r) => !seen.has(r.key) && seen.add(r.key))
+        .map(({ key, title }) => ({ key, title }));
+}
+
+// Locked regions quoted for the prompt, or "None"
+export function describeLockedSections(latex: string, locked: string[]): string {
+    const lockedKeys = new Set(locked);
+    const quoted = readRegions(latex)
+        .filter((r) => lockedKeys.has(r.key))
+        .map((r) => `${r.title}:\n${latex.slice(r.start, r.end).trim()}`);
+    return quoted.join('\n\n') || 'None';
+}
+
+export interface LockEnforcement {
+    latex: string;
+    // Titles of locked sections the model changed and that were restored
+    reverted: string[];
+}
+
+export function enforceSectionLocks(original: string, tailored: string, locked: string[]): LockEnforcement {
+    const lockedKeys = new Set(locked);
+    const reverted: string[] = [];
+    let latex = tailored;
+
+    const originalRegions = readRegions(original);
+    for (const region of originalRegions) {
+        if (!lockedKeys.has(region.key)) continue;
+        const expected = original.slice(region.start, region.end);
+        // Re-read after every fix; restoring a region shifts the offsets
+        const current = readRegions(latex);
+        const match = current.find((r) => r.key === region.key);
+
+        if (match) {
+            if (latex.slice(match.start, match.end) === expected) continue;
+            latex = latex.slice(0, match.start) + expected + latex.slice(match.end);
+        } else {
+            // Dropped entirely: put it back after the section that preceded it
+            const index = originalRegions.indexOf(region);
+            const anchor = originalRegions
+                .slice(0, index)
+                .reverse()
+                .map((prev) => current.find((r) => r.key === prev.key))
+                .find(Boolean);
+            const at = anchor ? anchor.end : current[0]?.end ?? latex.length;
+            latex = latex.slice(0, at) + expected + latex.slice(at);
+        }
+        reverted.push(region.title);
+    }
+
+    return { latex, reverted };
+}
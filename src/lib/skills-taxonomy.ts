@@ -0,0 +1,336 @@
+// Skills taxonomy
+// Canonical skill and tool names with the aliases they appear under in job
+// descriptions and resumes ("JS", "ECMAScript" → JavaScript; "k8s" →
+// Kubernetes), each under a parent category. Users extend the bundled list
+// with their own skills and aliases from Settings. All offline keyword
+// extraction, matching and scoring goes through findSkills/normalizeSkill.
+
+export type SkillCategory =
+    | 'language'
+    | 'frontend'
+    | 'backend'
+    | 'mobile'
+    | 'database'
+    | 'cloud'
+    | 'devops'
+    | 'data'
+    | 'ml'
+    | 'testing'
+    | 'tool'
+    | 'practice';
+
+export const SKILL_CATEGORIES: Record<SkillCategory, string> = {
+    language: 'Languages',
+    frontend: 'Frontend',
+    backend: 'Backend',
+    mobile: 'Mobile',
+    database: 'Databases',
+    cloud: 'Cloud',
+    devops: 'DevOps',
+    data: 'Data',
+    ml: 'Machine Learning',
+    testing: 'Testing',
+    tool: 'Tools',
+    practice: 'Practices',
+};
+
+export interface SkillEntry {
+    name: string;
+    category: SkillCategory;
+    // Other spellings, matched case-insensitively
+    aliases?: string[];
+    // Match the name only with its exact casing ("Go", "Spring", "React")
+    caseSensitive?: boolean;
+}
+
+// Added in Settings. A name matching a bundled skill extends it with the
+// aliases and moves it to the given category.
+export interface CustomSkill {
+    name: string;
+    category: SkillCategory;
+    aliases: string[];
+}
+
+export const BUNDLED_SKILLS: SkillEntry[] = [
+    // ─── Languages ───────────────────────────────────────────
+    { name: 'JavaScript', category: 'language', aliases: ['js', 'ecmascript', 'es6', 'vanilla js'] },
+    { name: 'TypeScript', category: 'language', aliases: ['ts'] },
+    { name: 'Python', category: 'language', aliases: ['python3'] },
+    { name: 'Java', category: 'language' },
+    { name: 'Kotlin', category: 'language' },
+    { name: 'Scala', category: 'language' },
+    { name: 'Go', category: 'language', aliases: ['golang'], caseSensitive: true },
+    { name: 'Rust', category: 'language', caseSensitive: true },
+    { name: 'C++', category: 'language', aliases: ['cpp', 'c plus plus'] },
+    { name: 'C#', category: 'language', aliases: ['csharp', 'c sharp'] },
+    { name: 'Ruby', category: 'language', caseSensitive: true },
+    { name: 'PHP', category: 'language' },
+    { name: 'Swift', category: 'language', caseSensitive: true },
+    { name: 'Objective-C', category: 'language', aliases: ['objc', 'obj-c'] },
+    { name: 'Elixir', category: 'language' },
+    { name: 'Haskell', category: 'language' },
+    { name: 'Clojure', category: 'language' },
+    { name: 'Bash', category: 'language', aliases: ['shell scripting'] },
+    { name: 'SQL', category: 'language' },
+    { name: 'HTML', category: 'language', aliases: ['html5'] },
+    { name: 'CSS', category: 'language', aliases: ['css3'] },
+    { name: 'Solidity', category: 'language' },
+
+    // ─── Frontend ────────────────────────────────────────────
+    { name: 'React', category: 'frontend', aliases: ['react.js', 'reactjs'], caseSensitive: true },
+    { name: 'Next.js', category: 'frontend', aliases: ['nextjs'] },
+    { name: 'Vue', category: 'frontend', aliases: ['vue.js', 'vuejs'], caseSensitive: true },
+    { name: 'Nuxt', category: 'frontend', aliases: ['nuxt.js'] },
+    { name: 'Angular', category: 'frontend', aliases: ['angularjs'], caseSensitive: true },
+    { name: 'Svelte', category: 'frontend', aliases: ['sveltekit'] },
+    { name: 'Redux', category: 'frontend' },
+    { name: 'Tailwind CSS', category: 'frontend', aliases: ['tailwind', 'tailwindcss'] },
+    { name: 'Sass', category: 'frontend', aliases: ['scss'] },
+    { name: 'Webpack', category: 'frontend' },
+    { name: 'Vite', category: 'frontend', caseSensitive: true },
+    { name: 'GraphQL', category: 'frontend' },
+    { name: 'Web Accessibility', category: 'frontend', aliases: ['accessibility', 'a11y', 'wcag'] },
+
+    // ─── Backend ─────────────────────────────────────────────
+    { name: 'Node.js', category: 'backend', aliases: ['nodejs', 'node js'] },
+    { name: 'Express', category: 'backend', aliases: ['express.js', 'expressjs'], caseSensitive: true },
+    { name: 'NestJS', category: 'backend', aliases: ['nest.js'] },
+    { name: 'Django', category: 'backend' },
+    { name: 'Flask', category: 'backend', caseSensitive: true },
+    { name: 'FastAPI', category: 'backend' },
+    { name: 'Spring', category: 'backend', aliases: ['spring boot', 'springboot'], caseSensitive: true },
+    { name: 'Ruby on Rails', category: 'backend', aliases: ['rails'] },
+    { name: 'Laravel', category: 'backend' },
+    { name: '.NET', category: 'backend', aliases: ['dotnet', 'asp.net', '.net core'] },
+    { name: 'gRPC', category: 'backend' },
+    { name: 'REST APIs', category: 'backend', aliases: ['restful', 'rest api', 'restful api', 'restful apis'] },
+    { name: 'Microservices', category: 'backend', aliases: ['microservice', 'micro-services'] },
+    { name: 'Kafka', category: 'backend', aliases: ['apache kafka'] },
+    { name: 'RabbitMQ', category: 'backend' },
+    { name: 'WebSockets', category: 'backend', aliases: ['websocket'] },
+    { name: 'Distributed Systems', category: 'backend', aliases: ['distributed system', 'distributed computing'] },
+
+    // ─── Mobile ──────────────────────────────────────────────
+    { name: 'React Native', category: 'mobile' },
+    { name: 'Flutter', category: 'mobile' },
+    { name: 'iOS', category: 'mobile' },
+    { name: 'Android', category: 'mobile' },
+    { name: 'SwiftUI', category: 'mobile' },
+
+    // ─── Databases ───────────────────────────────────────────
+    { name: 'PostgreSQL', category: 'database', aliases: ['postgres', 'psql'] },
+    { name: 'MySQL', category: 'database' },
+    { name: 'SQLite', category: 'database' },
+    { name: 'MongoDB', category: 'database', aliases: ['mongo'] },
+    { name: 'Redis', category: 'database' },
+    { name: 'Elasticsearch', category: 'database', aliases: ['elastic search', 'opensearch'] },
+    { name: 'Cassandra', category: 'database' },
+    { name: 'DynamoDB', category: 'database' },
+    { name: 'Oracle', category: 'database', caseSensitive: true },
+    { name: 'SQL Server', category: 'database', aliases: ['mssql'] },
+    { name: 'Snowflake', category: 'database', caseSensitive: true },
+    { name: 'BigQuery', category: 'database' },
+    { name: 'Neo4j', category: 'database' },
+
+    // ─── Cloud ───────────────────────────────────────────────
+    { name: 'AWS', category: 'cloud', aliases: ['amazon web services'] },
+    { name: 'GCP', category: 'cloud', aliases: ['google cloud', 'google cloud platform'] },
+    { name: 'Azure', category: 'cloud', aliases: ['microsoft azure'] },
+    { name: 'Lambda', category: 'cloud', aliases: ['aws lambda'], caseSensitive: true },
+    { name: 'S3', category: 'cloud', caseSensitive: true },
+    { name: 'EC2', category: 'cloud' },
+    { name: 'Serverless', category: 'cloud' },
+    { name: 'Cloudflare', category: 'cloud' },
+    { name: 'Firebase', category: 'cloud' },
+    { name: 'Vercel', category: 'cloud' },
+    { name: 'Heroku', category: 'cloud' },
+
+    // ─── DevOps ──────────────────────────────────────────────
+    { name: 'Docker', category: 'devops', aliases: ['containers', 'containerization'] },
+    { name: 'Kubernetes', category: 'devops', aliases: ['k8s', 'kube'] },
+    { name: 'Terraform', category: 'devops' },
+    { name: 'Ansible', category: 'devops' },
+    { name: 'Helm', category: 'devops', caseSensitive: true },
+    { name: 'CI/CD', category: 'devops', aliases: ['ci cd', 'continuous integration', 'continuous delivery', 'continuous deployment'] },
+    { name: 'Jenkins', category: 'devops' },
+    { name: 'GitHub Actions', category: 'devops', aliases: ['gh actions'] },
+    { name: 'GitLab CI', category: 'devops' },
+    { name: 'Prometheus', category: 'devops' },
+    { name: 'Grafana', category: 'devops' },
+    { name: 'Datadog', category: 'devops' },
+    { name: 'Linux', category: 'devops', aliases: ['unix'] },
+    { name: 'Nginx', category: 'devops' },
+    { name: 'Infrastructure as Code', category: 'devops', aliases: ['iac'] },
+    { name: 'Observability', category: 'devops', aliases: ['monitoring'] },
+
+    // ─── Data ────────────────────────────────────────────────
+    { name: 'Spark', category: 'data', aliases: ['apache spark', 'pyspark'], caseSensitive: true },
+    { name: 'Hadoop', category: 'data' },
+    { name: 'Airflow', category: 'data', aliases: ['apache airflow'] },
+    { name: 'dbt', category: 'data', caseSensitive: true },
+    { name: 'ETL', category: 'data', aliases: ['elt', 'data pipelines', 'data pipeline'] },
+    { name: 'Pandas', category: 'data' },
+    { name: 'NumPy', category: 'data' },
+    { name: 'Tableau', category: 'data' },
+    { name: 'Power BI', category: 'data', aliases: ['powerbi'] },
+    { name: 'Data Warehousing', category: 'data', aliases: ['data warehouse'] },
+    { name: 'Flink', category: 'data', aliases: ['apache flink'] },
+
+    // ─── Machine Learning ────────────────────────────────────
+    { name: 'Machine Learning', category: 'ml', aliases: ['ml'] },
+    { name: 'Deep Learning', category: 'ml' },
+    { name: 'PyTorch', category: 'ml' },
+    { name: 'TensorFlow', category: 'ml' },
+    { name: 'scikit-learn', category: 'ml', aliases: ['sklearn', 'scikit learn'] },
+    { name: 'NLP', category: 'ml', aliases: ['natural language processing'] },
+    { name: 'Computer Vision', category: 'ml' },
+    { name: 'LLMs', category: 'ml', aliases: ['llm', 'large language models', 'large language model'] },
+    { name: 'Generative AI', category: 'ml', aliases: ['genai', 'gen ai'] },
+    { name: 'MLOps', category: 'ml' },
+    { name: 'Hugging Face', category: 'ml', aliases: ['huggingface', 'transformers'] },
+    { name: 'LangChain', category: 'ml' },
+    { name: 'RAG', category: 'ml', aliases: ['retrieval augmented generation', 'retrieval-augmented generation'] },
+
+    // ─── Testing ─────────────────────────────────────────────
+    { name: 'Unit Testing', category: 'testing', aliases: ['unit tests'] },
+    { name: 'Jest', category: 'testing', caseSensitive: true },
+    { name: 'Cypress', category: 'testing' },
+    { name: 'Playwright', category: 'testing' },
+    { name: 'Selenium', category: 'testing' },
+    { name: 'pytest', category: 'testing' },
+    { name: 'JUnit', category: 'testing' },
+    { name: 'TDD', category: 'testing', aliases: ['test-driven development', 'test driven development'] },
+
+    // ─── Tools ───────────────────────────────────────────────
+    { name: 'Git', category: 'tool', caseSensitive: true },
+    { name: 'GitHub', category: 'tool' },
+    { name: 'Jira', category: 'tool' },
+    { name: 'Figma', category: 'tool' },
+    { name: 'Postman', category: 'tool' },
+
+    // ─── Practices ───────────────────────────────────────────
+    { name: 'Agile', category: 'practice' },
+    { name: 'Scrum', category: 'practice' },
+    { name: 'System Design', category: 'practice', aliases: ['systems design'] },
+    { name: 'Object-Oriented Programming', category: 'practice', aliases: ['oop', 'object oriented'] },
+    { name: 'Data Structures & Algorithms', category: 'practice', aliases: ['data structures', 'algorithms'] },
+    { name: 'Security', category: 'practice', aliases: ['application security', 'appsec', 'owasp'] },
+    { name: 'Performance Optimization', category: 'practice', aliases: ['performance tuning'] },
+    { name: 'Code Review', category: 'practice', aliases: ['code reviews'] },
+    { name: 'Mentoring', category: 'practice', aliases: ['mentorship', 'mentor'] },
+];
+
+// ─── Matching ────────────────────────────────────────────────
+export interface SkillMatch {
+    skill: SkillEntry;
+    index: number;
+    text: string;
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Boundaries that keep "Java" out of "JavaScript" and "C++" intact
+function termPattern(term: string): string {
+    return `(?<![\\w+#.])${escapeRegex(term)}(?![\\w+#]|\\.\\w)`;
+}
+
+interface SkillMatcher {
+    skill: SkillEntry;
+    exact: RegExp | null;
+    loose: RegExp | null;
+}
+
+function buildMatcher(skill: SkillEntry): SkillMatcher {
+    const insensitive = [...(skill.caseSensitive ? [] : [skill.name]), ...(skill.aliases || [])];
+    return {
+        skill,
+        exact: skill.caseSensitive ? new RegExp(termPattern(skill.name), 'g') : null,
+        loose: insensitive.length ? new RegExp(insensitive.map(termPattern).join('|'), 'gi') : null,
+    };
+}
+
+// ─── Registry ────────────────────────────────────────────────
+let taxonomy: SkillEntry[] = BUNDLED_SKILLS;
+let matchers: SkillMatcher[] = taxonomy.map(buildMatcher);
+
+// Replace the user's additions; called whenever settings are (re)loaded
+export function setCustomSkills(custom: CustomSkill[]): void {
+    const merged = [...BUNDLED_SKILLS];
+    for (const entry of custom) {
+        const name = entry.name.trim();
+        if (!name) continue;
+        const aliases = entry.aliases.map((a) => a.trim()).filter(Boolean);
+        const index = merged.findIndex((s) => s.name.toLowerCase() === name.toLowerCase());
+        if (index >= 0) {
+            const bundled = merged[index];
+            merged[index] = { ...bundled, category: entry.category, aliases: [...(bundled.aliases || []), ...aliases] };
+        } else {
+            merged.push({ name, category: entry.category, aliases });
+        }
+    }
+    taxonomy = merged;
+    matchers = taxonomy.map(buildMatcher);
+}
+
+export function getSkillTaxonomy(): SkillEntry[] {
+    return taxonomy;
+}
+
+// ─── Lookup ──────────────────────────────────────────────────
+// Every taxonomy skill mention in the text, in order of appearance. A
+// mention inside a longer one ("React" in "React Native") is dropped.
+export function findSkills(text: string): SkillMatch[] {
+    const matches: SkillMatch[] = [];
+    for (const { skill, exact, loose } of matchers) {
+        for (const regex of [exact, loose]) {
+            if (!regex) continue;
+            for (const match of text.matchAll(regex)) {
+                matches.push({ skill, index: match.index ?? 0, text: match[0] });
+            }
+        }
+    }
+    const end = (m: SkillMatch) => m.index + m.text.length;
+    return matches
+        .filter((m) => !matches.some((o) => o !== m && o.index <= m.index && end(o) >= end(m) && o.text.length > m.text.length))
+        .sort((a, b) => a.index - b.index);
+}
+
+// The skill a whole term stands for ("k8s" → Kubernetes), or null when the
+// term is not a known skill or alias
+export function normalizeSkill(term: string): SkillEntry | null {
+    const trimmed = term.trim();
+    const matches = findSkills(trimmed);
+    return matches.length === 1 && matches[0].text.length === trimmed.length ? matches[0].skill : null;
+}
+
+// Distinct canonical names of the skills mentioned in the text
+export function canonicalSkillNames(text: string): string[] {
+    return [...new Set(findSkills(text).map((m) => m.skill.name))];
+}
+
+// Rewrite every skill mention under its canonical name, so "JS experience"
+// and "JavaScript experience" compare equal
+export function normalizeSkillMentions(text: string): string {
+    let result = '';
+    let last = 0;
+    for (const match of findSkills(text)) {
+        if (match.index < last) continue;
+        result += text.slice(last, match.index) + match.skill.name;
+        last = match.index + match.text.length;
+    }
+    return result + text.slice(last);
+}
+
+// Canonical names grouped under their parent category, in taxonomy order
+export function groupSkillsByCategory(names: string[]): { category: SkillCategory; label: string; skills: string[] }[] {
+    const wanted = new Set(names);
+    return (Object.keys(SKILL_CATEGORIES) as SkillCategory[])
+        .map((category) => ({
+            category,
+            label: SKILL_CATEGORIES[category],
+            skills: taxonomy.filter((s) => s.category === category && wanted.has(s.name)).map((s) => s.name),
+        }))
+        .filter((group) => group.skills.length > 0);
+}
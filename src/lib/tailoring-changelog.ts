@@ -0,0 +1,113 @@
+// Tailoring changelog
+// One entry per bullet or heading a tailoring run changed: what changed, the
+// job requirement it targets and the knowledge-base item it drew on. The
+// changes come from the diff; only the reasons come from the model, and a
+// source only counts when it names an item that exists.
+
+import { diffLatex, type DiffHunk } from './latex-diff';
+import { latexToText, parseLatex } from './latex-parser';
+
+export type ChangelogSourceType = 'github' | 'linkedin' | 'manual' | 'resume';
+
+export interface KnowledgeSource {
+    // Short ID the model cites, e.g. "G2"
+    id: string;
+    type: ChangelogSourceType;
+    name: string;
+    // One-line description for the prompt
+    detail: string;
+}
+
+export interface ChangelogEntry {
+    section: string;
+    // Plain text of the lines before and after; empty when added or removed
+    before: string;
+    after: string;
+    summary: string;
+    // Job description requirement the change targets; empty when none given
+    requirement: string;
+    source: KnowledgeSource | null;
+}
+
+export interface TailoringChangelog {
+    entries: ChangelogEntry[];
+    createdAt: number;
+}
+
+// Source ID for content that only rephrases the original resume
+export const RESUME_SOURCE: KnowledgeSource = {
+    id: 'resume',
+    type: 'resume',
+    name: 'Original resume',
+    detail: 'Rephrases content already on the resume',
+};
+
+// More than this is a rewrite, not a set of changes worth explaining one by one
+const MAX_EXPLAINED_CHANGES = 40;
+
+const plainText = (lines: string[]) => latexToText(parseLatex(lines.join('\n')).nodes).replace(/\s+/g, ' ').trim();
+
+export interface ChangelogChange {
+    hunk: DiffHunk;
+    before: string;
+    after: string;
+}
+
+// Changed hunks whose text differs; spacing and markup-only edits are left out
+export function listTailoringChanges(original: string, tailored: string): ChangelogChange[] {
+    return diffLatex(original, tailored).hunks
+        .map((hunk) => ({ hunk, before: plainText(hunk.original), after: plainText(hunk.tailored) }))
+        .filter((change) => change.before !== change.after);
+}
+
+// Numbered changes for the prompt
+export function describeChanges(changes: ChangelogChange[]): string {
+    return changes
+        .slice(0, MAX_EXPLAINED_CHANGES)
+        .map((change, i) => [
+            `[${i}] ${change.hunk.section || 'Header'}`,
+            ...(change.before ? [`- ${change.before}`] : []),
+            ...(change.after ? [`+ ${change.after}`] : []),
+        ].join('\n'))
+        .join('\n\n');
+}
+
+export function describeSources(sources: KnowledgeSource[]): string {
+    return [RESUME_SOURCE, ...sources].map((s) => `${s.id}: ${s.name} – ${s.detail}`).join('\n');
+}
+
+export interface ChangeExplanation {
+    change: number;
+    summary: string;
+    requirement: string;
+    sourceId: string;
+}
+
+const defaultSummary = (change: ChangelogChange) =>
+    !change.before ? 'Added' : !change.after ? 'Removed' : 'Reworded';
+
+// Merge the model's explanations into the diff. Changes it skipped keep a
+// plain summary; sources it cites that don't exist are dropped.
+export function buildTailoringChangelog(
+    changes: ChangelogChange[],
+    explanations: ChangeExplanation[],
+    sources: KnowledgeSource[]
+): TailoringChangelog {
+    const byId = new Map([RESUME_SOURCE, ...sources].map((s) => [s.id.toLowerCase(), s]));
+    const byChange = new Map(explanations.map((e) => [e.change, e]));
+
+    return {
+        entries: changes.map((change, i) => {
+            const explanation = byChange.get(i);
+            return {
+                section: change.hunk.section || 'Header',
+                before: change.before,
+                after: change.after,
+                summary: explanation?.summary.trim() || defaultSummary(change),
+                requirement: explanation?.requirement.trim() || '',
+                source: byId.get(explanation?.sourceId.trim().toLowerCase() || '') ?? null,
+            };
+        }),
+        createdAt: Date.now(),
+    };
+}
@@ -21,3 +21,32 @@ export function formatDate(timestamp: number): string {
 export function truncate(str: string, length: number): string {
     return str.length > length ? str.substring(0, length) + '...' : str;
 }
+
+export function createAbortError(): Error {
+    return new DOMException('Request cancelled', 'AbortError');
+}
+
+// SDKs wrap aborts in their own error classes, so also trust the signal itself
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+    return !!signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw createAbortError();
+}
+
+// setTimeout that rejects early with an AbortError when the signal fires
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
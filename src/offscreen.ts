@@ -0,0 +1,17 @@
+// ResumeForge AI – Offscreen Document
+// Runs the offline TeX engine for the background service worker, which can't
+// start a Worker itself. Only ever compiles locally; nothing is uploaded.
+
+import { latexCompilerService } from './services/latex-compiler-service';
+import { fileService } from './services/file-service';
+import { MEASURE_PDF_PAGES } from './services/page-fit-service';
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message.type !== MEASURE_PDF_PAGES) return false;
+
+    latexCompilerService.compileLocally(message.latex)
+        .then(({ pdf }) => fileService.countPdfPages(pdf))
+        .then((pages) => sendResponse({ pages }))
+        .catch((error: any) => sendResponse({ error: error.message }));
+    return true;
+});
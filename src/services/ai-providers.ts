@@ -0,0 +1,439 @@
+// ResumeForge AI – AI Providers
+// Provider interface plus Gemini, Groq, OpenAI-compatible and Ollama backends
+
+import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
+import Groq from 'groq-sdk';
+import type { AIProviderId, UserSettings } from './storage-service';
+import { throwIfAborted } from '@/lib/utils';
+
+export type ChatHistory = Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }>;
+
+export interface AIProvider {
+    readonly id: AIProviderId;
+    readonly model: string;
+    isConfigured(): boolean;
+    generate(prompt: string, signal?: AbortSignal): Promise<string>;
+    stream(prompt: string, onToken: (token: string) => void, signal?: AbortSignal): Promise<string>;
+    chat(
+        messages: ChatHistory,
+        systemPrompt: string,
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string>;
+    listModels(signal?: AbortSignal): Promise<string[]>;
+}
+
+export interface AIProviderDescriptor {
+    id: AIProviderId;
+    label: string;
+    defaultModel: string;
+    create: (settings: UserSettings) => AIProvider;
+}
+
+// Converts the Gemini-style history used across the app into OpenAI chat messages
+function toOpenAIMessages(
+    messages: ChatHistory,
+    systemPrompt: string
+): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+    return [
+        { role: 'system' as const, content: systemPrompt },
+        ...messages.map((m) => ({
+            role: m.role === 'model' ? ('assistant' as const) : ('user' as const),
+            content: m.parts[0].text,
+        })),
+    ];
+}
+
+async function throwHttpError(response: Response, label: string): Promise<never> {
+    let detail = response.statusText;
+    try {
+        const body = await response.json();
+        detail = body.error?.message || body.error || detail;
+    } catch {
+        // Body was not JSON – keep the status text
+    }
+    // Keep the status code in the message so rate-limit handling can detect 429s
+    throw Object.assign(new Error(`${label} request failed (${response.status}): ${detail}`), {
+        status: response.status,
+    });
+}
+
+// Yields complete lines from a streamed fetch body (SSE and NDJSON are both line-based)
+async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const line of lines) {
+            if (line.trim()) yield line.trim();
+        }
+    }
+    if (pending.trim()) yield pending.trim();
+}
+
+// ─── Gemini ──────────────────────────────────────────────────
+class GeminiProvider implements AIProvider {
+    readonly id = 'gemini' as const;
+    private client: GenerativeModel | null = null;
+
+    constructor(private apiKey: string, readonly model: string) {
+        if (apiKey) {
+            this.client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+        }
+    }
+
+    isConfigured(): boolean {
+        return !!this.client;
+    }
+
+    async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+        const result = await this._client().generateContent(prompt, { signal });
+        return result.response.text();
+    }
+
+    async stream(prompt: string, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+        const result = await this._client().generateContentStream(prompt, { signal });
+        let fullText = '';
+        for await (const chunk of result.stream) {
+            throwIfAborted(signal);
+            const token = chunk.text();
+            fullText += token;
+            onToken(token);
+        }
+        return fullText;
+    }
+
+    async chat(
+        messages: ChatHistory,
+        systemPrompt: string,
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const chat = this._client().startChat({
+            history: messages.slice(0, -1),
+            systemInstruction: systemPrompt,
+        });
+        const lastMessage = messages[messages.length - 1];
+        const result = await chat.sendMessageStream(lastMessage.parts[0].text, { signal });
+
+        let fullText = '';
+        for await (const chunk of result.stream) {
+            throwIfAborted(signal);
+            const token = chunk.text();
+            fullText += token;
+            onToken(token);
+        }
+        return fullText;
+    }
+
+    async listModels(signal?: AbortSignal): Promise<string[]> {
+        const response = await fetch(
+            `https://generativelanguage.googleapis.com/v1beta/models?key=${this.apiKey}`,
+            { signal }
+        );
+        if (!response.ok) await throwHttpError(response, 'Gemini');
+        const data = await response.json();
+        return (data.models || [])
+            .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
+            .map((m: any) => String(m.name).replace(/^models\//, ''));
+    }
+
+    private _client(): GenerativeModel {
+        if (!this.client) throw new Error('Gemini not configured');
+        return this.client;
+    }
+}
+
+// ─── Groq ────────────────────────────────────────────────────
+class GroqProvider implements AIProvider {
+    readonly id = 'groq' as const;
+    private client: Groq | null = null;
+
+    constructor(apiKey: string, readonly model: string) {
+        if (apiKey) {
+            this.client = new Groq({ apiKey, dangerouslyAllowBrowser: true });
+        }
+    }
+
+    isConfigured(): boolean {
+        return !!this.client;
+    }
+
+    async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+        const completion = await this._client().chat.completions.create({
+            messages: [{ role: 'user', content: prompt }],
+            model: this.model,
+        }, { signal });
+        return completion.choices[0]?.message?.content || '';
+    }
+
+    async stream(prompt: string, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+        return this._streamMessages([{ role: 'user', content: prompt }], onToken, signal);
+    }
+
+    async chat(
+        messages: ChatHistory,
+        systemPrompt: string,
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        return this._streamMessages(toOpenAIMessages(messages, systemPrompt), onToken, signal);
+    }
+
+    async listModels(signal?: AbortSignal): Promise<string[]> {
+        const list = await this._client().models.list({ signal });
+        return list.data.map((m) => m.id);
+    }
+
+    private async _streamMessages(
+        messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const stream = await this._client().chat.completions.create({
+            messages,
+            model: this.model,
+            stream: true,
+        }, { signal });
+
+        let fullText = '';
+        for await (const chunk of stream) {
+            const token = chunk.choices[0]?.delta?.content || '';
+            if (token) {
+                fullText += token;
+                onToken(token);
+            }
+        }
+        return fullText;
+    }
+
+    private _client(): Groq {
+        if (!this.client) throw new Error('Groq not configured');
+        return this.client;
+    }
+}
+
+// ─── OpenAI-Compatible (vLLM, LM Studio, OpenRouter, OpenAI…) ─
+class OpenAICompatibleProvider implements AIProvider {
+    readonly id = 'openai' as const;
+    private baseUrl: string;
+
+    constructor(baseUrl: string, private apiKey: string, readonly model: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    isConfigured(): boolean {
+        return !!this.baseUrl && !!this.model;
+    }
+
+    async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+        const response = await this._post('/chat/completions', {
+            model: this.model,
+            messages: [{ role: 'user', content: prompt }],
+        }, signal);
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content || '';
+    }
+
+    async stream(prompt: string, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+        return this._streamMessages([{ role: 'user', content: prompt }], onToken, signal);
+    }
+
+    async chat(
+        messages: ChatHistory,
+        systemPrompt: string,
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        return this._streamMessages(toOpenAIMessages(messages, systemPrompt), onToken, signal);
+    }
+
+    async listModels(signal?: AbortSignal): Promise<string[]> {
+        const response = await fetch(`${this.baseUrl}/models`, { headers: this._headers(), signal });
+        if (!response.ok) await throwHttpError(response, 'OpenAI-compatible');
+        const data = await response.json();
+        return (data.data || []).map((m: any) => String(m.id));
+    }
+
+    private async _streamMessages(
+        messages: unknown[],
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const response = await this._post('/chat/completions', {
+            model: this.model,
+            messages,
+            stream: true,
+        }, signal);
+
+        let fullText = '';
+        for await (const line of readLines(response)) {
+            if (!line.startsWith('data:')) continue;
+            const payload = line.slice(5).trim();
+            if (payload === '[DONE]') break;
+            try {
+                const token = JSON.parse(payload).choices?.[0]?.delta?.content || '';
+                if (token) {
+                    fullText += token;
+                    onToken(token);
+                }
+            } catch {
+                // Ignore keep-alive or malformed event lines
+            }
+        }
+        return fullText;
+    }
+
+    private async _post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...this._headers() },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) await throwHttpError(response, 'OpenAI-compatible');
+        return response;
+    }
+
+    private _headers(): Record<string, string> {
+        return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    }
+}
+
+// ─── Ollama (local server) ───────────────────────────────────
+class OllamaProvider implements AIProvider {
+    readonly id = 'ollama' as const;
+    private baseUrl: string;
+
+    constructor(baseUrl: string, readonly model: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    isConfigured(): boolean {
+        return !!this.baseUrl && !!this.model;
+    }
+
+    async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+        const response = await this._post('/api/generate', { model: this.model, prompt, stream: false }, signal);
+        const data = await response.json();
+        return data.response || '';
+    }
+
+    async stream(prompt: string, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+        const response = await this._post('/api/generate', { model: this.model, prompt, stream: true }, signal);
+        return this._collect(response, (chunk) => chunk.response, onToken);
+    }
+
+    async chat(
+        messages: ChatHistory,
+        systemPrompt: string,
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const response = await this._post('/api/chat', {
+            model: this.model,
+            messages: toOpenAIMessages(messages, systemPrompt),
+            stream: true,
+        }, signal);
+        return this._collect(response, (chunk) => chunk.message?.content, onToken);
+    }
+
+    async listModels(signal?: AbortSignal): Promise<string[]> {
+        const response = await fetch(`${this.baseUrl}/api/tags`, { signal });
+        if (!response.ok) await throwHttpError(response, 'Ollama');
+        const data = await response.json();
+        return (data.models || []).map((m: any) => String(m.name));
+    }
+
+    // Ollama streams newline-delimited JSON objects
+    private async _collect(
+        response: Response,
+        pick: (chunk: any) => string | undefined,
+        onToken: (token: string) => void
+    ): Promise<string> {
+        let fullText = '';
+        for await (const line of readLines(response)) {
+            const chunk = JSON.parse(line);
+            if (chunk.error) throw new Error(`Ollama: ${chunk.error}`);
+            const token = pick(chunk) || '';
+            if (token) {
+                fullText += token;
+                onToken(token);
+            }
+            if (chunk.done) break;
+        }
+        return fullText;
+    }
+
+    private async _post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) await throwHttpError(response, 'Ollama');
+        return response;
+    }
+}
+
+// ─── Registry ────────────────────────────────────────────────
+class AIProviderRegistry {
+    private descriptors = new Map<AIProviderId, AIProviderDescriptor>();
+
+    register(descriptor: AIProviderDescriptor): void {
+        this.descriptors.set(descriptor.id, descriptor);
+    }
+
+    list(): AIProviderDescriptor[] {
+        return [...this.descriptors.values()];
+    }
+
+    get(id: AIProviderId): AIProviderDescriptor | undefined {
+        return this.descriptors.get(id);
+    }
+
+    // Builds the provider selected in settings, falling back to Gemini for unknown ids
+    create(settings: UserSettings): AIProvider {
+        const descriptor = this.get(settings.aiProvider) || this.get('gemini');
+        if (!descriptor) throw new Error(`Unknown AI provider: ${settings.aiProvider}`);
+        return descriptor.create(settings);
+    }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry();
+
+aiProviderRegistry.register({
+    id: 'gemini',
+    label: 'Gemini',
+    defaultModel: 'gemini-2.0-flash',
+    create: (s) => new GeminiProvider(s.geminiApiKey, s.geminiModel || 'gemini-2.0-flash'),
+});
+
+aiProviderRegistry.register({
+    id: 'groq',
+    label: 'Groq',
+    defaultModel: 'llama-3.3-70b-versatile',
+    create: (s) => new GroqProvider(s.groqApiKey, s.groqModel || 'llama-3.3-70b-versatile'),
+});
+
+aiProviderRegistry.register({
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    defaultModel: '',
+    create: (s) => new OpenAICompatibleProvider(s.openaiBaseUrl || '', s.openaiApiKey || '', s.openaiModel || ''),
+});
+
+aiProviderRegistry.register({
+    id: 'ollama',
+    label: 'Ollama',
+    defaultModel: 'llama3.1',
+    create: (s) => new OllamaProvider(s.ollamaBaseUrl || 'http://localhost:11434', s.ollamaModel || 'llama3.1'),
+});
@@ -1,16 +1,8 @@
 // ResumeForge AI – AI Service
 // Ported from Agentex with streaming support via @google/generative-ai SDK
 
-import { GoogleGenerativeAI, type GenerateContentStreamResult } from '@google/generative-ai';
-import Groq from 'groq-sdk';
 import {
     LATEX_TAILORING_PROMPT,
-    JOB_ANALYSIS_PROMPT,
-    PROJECTS_OPTIMIZATION_PROMPT,
-    SKILLS_ENHANCEMENT_PROMPT,
-    EXPERIENCE_REFINEMENT_PROMPT,
-    FINAL_POLISH_PROMPT,
-    SECTIONS_DRAFTING_PROMPT,
     CHAT_SYSTEM_PROMPT,
     COLD_EMAIL_PROMPT,
     COVER_LETTER_PROMPT,
@@ -18,8 +10,44 @@ import {
     AUTOFILL_ANSWER_PROMPT,
     RESUME_PROFILE_EXTRACT_PROMPT,
     SELECT_MATCH_PROMPT,
+    TAILORING_CHANGELOG_PROMPT,
+    FIT_GAP_PROMPT,
 } from './prompts';
 import { storageService } from './storage-service';
+import { aiProviderRegistry, type AIProvider, type ChatHistory } from './ai-providers';
+import {
+    fitGapIdeasSchema,
+    generateStructured,
+    jobAnalysisSchema,
+    parseJsonResponse,
+    resumeProfileSchema,
+    tailoringChangelogSchema,
+    type ResumeProfile,
+    type Schema,
+} from './structured-output';
+import {
+    buildTailoringConstraints,
+    buildTailoringPipeline,
+    countPipelineSteps,
+    fillTemplate,
+    runTailoringPipeline,
+    type PipelineStepState,
+} from './tailoring-pipeline';
+import { pipelineCheckpointService } from './pipeline-checkpoint-service';
+import { pageFitService } from './page-fit-service';
+import { aiValidators } from './ai-validators';
+import { knowledgeBaseService } from './knowledge-base-service';
+import { buildFitReport, describeProjectGaps, type FitReport } from '@/lib/fit-report';
+import { DEFAULT_LOCKED_SECTIONS, enforceSectionLocks } from '@/lib/section-locks';
+import { setCustomSkills } from '@/lib/skills-taxonomy';
+import {
+    buildTailoringChangelog,
+    describeChanges,
+    describeSources,
+    listTailoringChanges,
+    type TailoringChangelog,
+} from '@/lib/tailoring-changelog';
+import { abortableDelay, createAbortError, generateId, isAbortError, throwIfAborted } from '@/lib/utils';
 
 export interface StreamCallbacks {
     onToken: (token: string) => void;
@@ -31,15 +59,13 @@ export interface MultiAgentProgress {
     step: number;
     totalSteps: number;
     message: string;
+    steps?: PipelineStepState[];
+    // Checkpointed multi-agent run; pass back to resume from the failed step
+    runId?: string;
 }
 
 class AIService {
-    private model: any = null; // Gemini model instance
-    private groq: Groq | null = null; // Groq instance
-    private apiKey: string = '';
-    private provider: 'gemini' | 'groq' = 'gemini';
-    private geminiModelName = 'gemini-2.0-flash';
-    private groqModelName = 'llama-3.3-70b-versatile';
+    private provider: AIProvider | null = null;
     private initializing: Promise<void> | null = null;
 
     async init(): Promise<void> {
@@ -47,98 +73,46 @@ class AIService {
 
         this.initializing = (async () => {
             const settings = await storageService.getSettings();
-            this.provider = settings.aiProvider || 'gemini';
-
-            if (this.provider === 'gemini') {
-                this.apiKey = settings.geminiApiKey;
-                if (this.apiKey) {
-                    const genAI = new GoogleGenerativeAI(this.apiKey);
-                    this.model = genAI.getGenerativeModel({ model: this.geminiModelName });
-                } else {
-                    this.model = null;
-                }
-            } else {
-                this.apiKey = settings.groqApiKey;
-                if (this.apiKey) {
-                    this.groq = new Groq({ apiKey: this.apiKey, dangerouslyAllowBrowser: true });
-                } else {
-                    this.groq = null;
-                }
-            }
+            this.provider = aiProviderRegistry.create(settings);
+            // Keyword matching in this context follows the user's taxonomy
+            setCustomSkills(settings.customSkills || []);
         })();
 
         return this.initializing;
     }
 
-    async setApiKey(key: string): Promise<void> {
+    // Rebuild the provider and skills taxonomy from the latest saved settings
+    async reload(): Promise<void> {
         this.initializing = null; // Force re-init
         await this.init();
     }
 
     isConfigured(): boolean {
-        if (this.provider === 'gemini') return !!this.apiKey && !!this.model;
-        return !!this.apiKey && !!this.groq;
+        return !!this.provider?.isConfigured();
+    }
+
+    async listModels(): Promise<string[]> {
+        if (!this.provider) await this.init();
+        return this.provider ? this.provider.listModels() : [];
     }
 
     // ─── Streaming Chat ────────────────────────────────────────
     async streamChat(
-        messages: Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }>,
+        messages: ChatHistory,
         systemPrompt: string,
-        callbacks: StreamCallbacks
+        callbacks: StreamCallbacks,
+        signal?: AbortSignal
     ): Promise<void> {
         if (!this.isConfigured()) throw new Error('AI not configured. Please check your settings.');
 
         // Use the queue to respect rate limits, even for streaming
         await this.queue.add(async () => {
             try {
-                if (this.provider === 'gemini') {
-                    const chat = this.model.startChat({
-                        history: messages.slice(0, -1),
-                        systemInstruction: systemPrompt,
-                    });
-
-                    const lastMessage = messages[messages.length - 1];
-                    const result: GenerateContentStreamResult = await chat.sendMessageStream(
-                        lastMessage.parts[0].text
-                    );
-
-                    let fullText = '';
-                    for await (const chunk of result.stream) {
-                        const token = chunk.text();
-                        fullText += token;
-                        callbacks.onToken(token);
-                    }
-                    callbacks.onComplete(fullText);
-                } else {
-                    // Groq Streaming
-                    if (!this.groq) throw new Error('Groq not configured');
-
-                    // Convert messages to Groq format
-                    const groqMessages = [
-                        { role: 'system', content: systemPrompt },
-                        ...messages.map(m => ({
-                            role: m.role === 'model' ? 'assistant' : 'user',
-                            content: m.parts[0].text
-                        }))
-                    ] as any[];
-
-                    const stream = await this.groq.chat.completions.create({
-                        messages: groqMessages,
-                        model: this.groqModelName,
-                        stream: true,
-                    });
-
-                    let fullText = '';
-                    for await (const chunk of stream) {
-                        const token = chunk.choices[0]?.delta?.content || '';
-                        if (token) {
-                            fullText += token;
-                            callbacks.onToken(token);
-                        }
-                    }
-                    callbacks.onComplete(fullText);
-                }
+                const fullText = await this.provider!.chat(messages, systemPrompt, callbacks.onToken, signal);
+                callbacks.onComplete(fullText);
             } catch (error: any) {
+                // Cancellation is not a failure – let the caller decide what to show
+                if (isAbortError(error, signal)) throw createAbortError();
                 if (error.message?.includes('429')) {
                     this.queue.notifyRateLimit();
                     throw new Error('Rate limit exceeded. Please wait a moment.');
@@ -146,7 +120,7 @@ class AIService {
                 callbacks.onError(new Error(error.message || 'Failed to stream response'));
                 throw error;
             }
-        });
+        }, signal);
     }
 
     // ─── Single-Pass Tailoring ─────────────────────────────────
@@ -154,99 +128,166 @@ class AIService {
         originalLatex: string,
         jobDesc: string,
         knowledgeBase: string,
-        callbacks?: StreamCallbacks
+        callbacks?: StreamCallbacks,
+        signal?: AbortSignal
     ): Promise<string> {
         if (!this.isConfigured()) throw new Error('AI not configured');
 
-        const prompt = LATEX_TAILORING_PROMPT
+        const settings = await storageService.getSettings();
+        const lockedSections = settings.lockedSections ?? DEFAULT_LOCKED_SECTIONS;
+        const prompt = (settings.customPrompt?.trim() || LATEX_TAILORING_PROMPT)
             .replace('{originalLatex}', originalLatex)
             .replace('{jobDesc}', jobDesc)
-            .replace('{knowledgeBase}', knowledgeBase || 'None provided');
+            .replace('{knowledgeBase}', knowledgeBase || 'None provided')
+            + '\n\n' + buildTailoringConstraints(originalLatex, settings.tailoringIntensity, lockedSections);
 
         if (callbacks) {
-            return this._streamGenerate(prompt, callbacks);
+            const streamed = await this._streamGenerate(prompt, { ...callbacks, onComplete: () => {} }, signal);
+            const latex = this._finalizeLatex(originalLatex, streamed, lockedSections);
+            callbacks.onComplete(latex);
+            return latex;
         }
-        return this._generate(prompt);
+        return this._finalizeLatex(originalLatex, await this._generate(prompt, signal), lockedSections);
     }
 
     // ─── Multi-Agent Tailoring ─────────────────────────────────
+    // Every finished step is checkpointed under a run ID. Passing that ID back
+    // as resumeRunId skips the steps that already succeeded.
     async generateTailoredResumeMultiAgent(
         originalLatex: string,
         jobDesc: string,
         knowledgeBase: string,
-        onProgress?: (progress: MultiAgentProgress) => void
+        onProgress?: (progress: MultiAgentProgress) => void,
+        signal?: AbortSignal,
+        resumeRunId?: string
     ): Promise<string> {
         if (!this.isConfigured()) throw new Error('AI not configured');
 
-        const report = (step: number, message: string) =>
-            onProgress?.({ step, totalSteps: 3, message });
+        const checkpoint = resumeRunId ? await pipelineCheckpointService.get(resumeRunId) : null;
+        const runId = checkpoint?.runId ?? generateId();
+        // A resumed run keeps the pipeline and inputs it started with
+        const settings = await storageService.getSettings();
+        const pipeline = checkpoint?.definition ?? buildTailoringPipeline(settings);
+        const input = checkpoint?.input ?? {
+            originalLatex,
+            jobDesc,
+            knowledgeBase,
+            intensity: settings.tailoringIntensity,
+            lockedSections: settings.lockedSections ?? DEFAULT_LOCKED_SECTIONS,
+        };
+        const totalSteps = countPipelineSteps(pipeline);
+        const createdAt = checkpoint?.createdAt ?? Date.now();
+
+        const run = await runTailoringPipeline(
+            pipeline,
+            input,
+            {
+                generate: (prompt) => this._generate(prompt, signal),
+                generateJson: (prompt, schema) => this.generateJson(prompt, schema, signal),
+                // Measure what the user will get: cleaned, repaired, locked sections restored
+                measurePages: (latex) => pageFitService.measure(
+                    this._finalizeLatex(input.originalLatex, this._cleanLatex(latex), input.lockedSections ?? []),
+                    signal
+                ),
+                signal,
+                onUpdate: (steps, active) => {
+                    const finished = steps.filter((s) => s.status === 'completed' || s.status === 'skipped').length;
+                    const running = steps.some((s) => s.status === 'running');
+                    const message = active.restored
+                        ? `Restored "${active.label}" from checkpoint`
+                        : active.status === 'running' ? `${active.label}...` : active.label;
+                    onProgress?.({
+                        step: Math.min(finished + (running ? 1 : 0), totalSteps),
+                        totalSteps,
+                        message,
+                        steps: steps.map((s) => ({ ...s })),
+                        runId,
+                    });
+                },
+                onCheckpoint: (vars, steps) => pipelineCheckpointService.save({
+                    runId,
+                    definition: pipeline,
+                    input,
+                    vars,
+                    steps: steps.filter((s) => s.status === 'completed' || s.status === 'skipped'),
+                    createdAt,
+                    updatedAt: Date.now(),
+                }),
+            },
+            checkpoint ?? undefined
+        );
+
+        await pipelineCheckpointService.remove(runId);
+        return this._finalizeLatex(input.originalLatex, this._cleanLatex(run.latex), input.lockedSections ?? []);
+    }
 
+    // ─── Tailoring Changelog ───────────────────────────────────
+    // Explain each changed bullet or heading: the requirement it targets and
+    // the knowledge-base item it drew on. Every change is listed even when the
+    // explanation request fails.
+    async generateTailoringChangelog(
+        originalLatex: string,
+        tailoredLatex: string,
+        jobDesc: string,
+        signal?: AbortSignal
+    ): Promise<TailoringChangelog> {
+        const changes = listTailoringChanges(originalLatex, tailoredLatex);
+        const sources = await knowledgeBaseService.listSources();
+        if (changes.length === 0 || !this.isConfigured()) return buildTailoringChangelog(changes, [], sources);
+
+        const prompt = fillTemplate(TAILORING_CHANGELOG_PROMPT, {
+            sources: describeSources(sources),
+            jobDesc,
+            changes: describeChanges(changes),
+        });
         try {
-            // Step 1: Job Analysis
-            report(1, 'Analyzing job requirements...');
-            const analysisPrompt = JOB_ANALYSIS_PROMPT
-                .replace('{jobDesc}', jobDesc)
-                .replace('{knowledgeBase}', knowledgeBase || 'None');
-            const analysisRaw = await this._generate(analysisPrompt);
-
-            // Extract sections
-            const originalProjects = this._extractSection(originalLatex, 'Projects');
-            const originalSkills = this._extractSection(originalLatex, 'Skills');
-            const originalExperience = this._extractSection(originalLatex, 'Experience');
-
-            // Step 2: Consolidated Drafting
-            report(2, 'Drafting optimized content...');
-            // Need to import SECTIONS_DRAFTING_PROMPT first, assuming it is imported.
-            // But since I can't change imports easily in this tool call without replacing top of file,
-            // I will use a hardcoded prompt string here for safety if imports are tricky, 
-            // OR I will assume I can update imports in a separate call. 
-            // Better: I will use the string literal directly here to avoid import issues for now, or use a second tool call to update imports.
-            // Actually, I should update imports first. But I'll do it in the "Optimization" step.
-            // Wait, I can't use SECTIONS_DRAFTING_PROMPT if it is not imported.
-            // I will use the string literal here to be safe and avoid "Prompt not found" errors.
-
-            // Using the prompt I just defined in prompts.ts, but I need to make sure it's imported.
-            // I'll assume I update imports in next step. For now, I'll use the variable name and trust myself to update imports.
-
-            const draftingPrompt = SECTIONS_DRAFTING_PROMPT
-                .replace('{originalProjects}', originalProjects)
-                .replace('{originalSkills}', originalSkills)
-                .replace('{originalExperience}', originalExperience)
-                .replace('{jobDesc}', jobDesc)
-                .replace('{analysisJSON}', analysisRaw);
-
-            const draftsRaw = await this._generate(draftingPrompt);
-            let drafts: any;
+            const response = await this.generateJson(prompt, tailoringChangelogSchema, signal);
+            return buildTailoringChangelog(changes, response.changes, sources);
+        } catch (error: any) {
+            if (isAbortError(error, signal)) throw error;
+            console.warn('[ResumeForge] Could not explain tailoring changes:', error.message);
+            return buildTailoringChangelog(changes, [], sources);
+        }
+    }
+
+    // ─── Job Fit Report ────────────────────────────────────────
+    // Score the resume against the job and suggest how to close each gap.
+    // The report itself is computed offline; the model only proposes projects
+    // for gaps no knowledge-base item covers, and its analysis JSON from a
+    // tailoring run, when given, adds the technologies it marked as required.
+    async generateFitReport(
+        resumeLatex: string,
+        jobDesc: string,
+        analysisJSON?: string,
+        signal?: AbortSignal
+    ): Promise<FitReport> {
+        let requiredTechnologies: string[] = [];
+        if (analysisJSON) {
             try {
-                const jsonMatch = draftsRaw.match(/\{[\s\S]*\}/);
-                drafts = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
-                if (!drafts) throw new Error('Failed to parse drafts');
-            } catch (e) {
-                console.warn('Draft parsing failed', e);
-                // Fallback: Use originals if parsing fails, so we don't crash
-                drafts = {
-                    projects: originalProjects,
-                    skills: originalSkills,
-                    experience: originalExperience
-                };
+                requiredTechnologies = jobAnalysisSchema.parse(parseJsonResponse(analysisJSON)).requiredTechnologies;
+            } catch (error: any) {
+                console.warn('[ResumeForge] Ignoring unreadable job analysis:', error.message);
             }
+        }
+        const sources = await knowledgeBaseService.listSourceTexts();
+        const report = buildFitReport(resumeLatex, jobDesc, { requiredTechnologies, sources });
 
-            // Step 3: Final Polish
-            report(3, 'Assembling final resume...');
-            const finalPrompt = FINAL_POLISH_PROMPT
-                .replace('{originalLatex}', originalLatex)
-                .replace('{optimizedProjects}', drafts.projects || originalProjects)
-                .replace('{enhancedSkills}', drafts.skills || originalSkills)
-                .replace('{refinedExperience}', drafts.experience || originalExperience)
-                .replace('{jobDesc}', jobDesc);
-
-            const finalResult = await this._generate(finalPrompt);
+        const gaps = describeProjectGaps(report);
+        if (!gaps || !this.isConfigured()) return report;
 
-            return this._cleanLatex(finalResult);
+        const prompt = fillTemplate(FIT_GAP_PROMPT, { jobDesc, resume: resumeLatex, gaps });
+        try {
+            const response = await this.generateJson(prompt, fitGapIdeasSchema, signal);
+            for (const { gap, idea } of response.ideas) {
+                const target = report.gaps[gap];
+                // Only replace project suggestions; sourced and seniority gaps stay
+                if (target && target.kind !== 'seniority' && !target.source && idea.trim()) target.suggestion = idea.trim();
+            }
         } catch (error: any) {
-            // Fallback to single-pass
-            return this.generateTailoredResume(originalLatex, jobDesc, knowledgeBase);
+            if (isAbortError(error, signal)) throw error;
+            console.warn('[ResumeForge] Could not suggest projects for fit gaps:', error.message);
         }
+        return report;
     }
 
     // ─── Cold Email ────────────────────────────────────────────
@@ -254,15 +295,16 @@ class AIService {
         recruiterInfo: string,
         jobDescription: string,
         resumeSummary: string,
-        callbacks?: StreamCallbacks
+        callbacks?: StreamCallbacks,
+        signal?: AbortSignal
     ): Promise<string> {
         const prompt = COLD_EMAIL_PROMPT
             .replace('{recruiterInfo}', recruiterInfo)
             .replace('{jobDescription}', jobDescription)
             .replace('{resumeSummary}', resumeSummary);
 
-        if (callbacks) return this._streamGenerate(prompt, callbacks);
-        return this._generate(prompt);
+        if (callbacks) return this._streamGenerate(prompt, callbacks, signal);
+        return this._generate(prompt, signal);
     }
 
     // ─── Cover Letter ──────────────────────────────────────────
@@ -270,28 +312,30 @@ class AIService {
         jobDescription: string,
         resumeLatex: string,
         knowledgeBase: string,
-        callbacks?: StreamCallbacks
+        callbacks?: StreamCallbacks,
+        signal?: AbortSignal
     ): Promise<string> {
         const prompt = COVER_LETTER_PROMPT
             .replace('{jobDescription}', jobDescription)
             .replace('{resumeLatex}', resumeLatex)
             .replace('{knowledgeBase}', knowledgeBase);
 
-        if (callbacks) return this._streamGenerate(prompt, callbacks);
-        return this._generate(prompt);
+        if (callbacks) return this._streamGenerate(prompt, callbacks, signal);
+        return this._generate(prompt, signal);
     }
 
     // ─── LinkedIn DM ───────────────────────────────────────────
     async generateLinkedInDM(
         recruiterInfo: string,
         jobDescription: string,
-        resumeSummary: string
+        resumeSummary: string,
+        signal?: AbortSignal
     ): Promise<string> {
         const prompt = LINKEDIN_DM_PROMPT
             .replace('{recruiterInfo}', recruiterInfo)
             .replace('{jobDescription}', jobDescription)
             .replace('{resumeSummary}', resumeSummary);
-        return this._generate(prompt);
+        return this._generate(prompt, signal);
     }
 
     // ─── Autofill Answer ──────────────────────────────────────
@@ -299,43 +343,52 @@ class AIService {
         question: string,
         jobDescription: string,
         resumeSummary: string,
-        knowledgeBase: string
+        knowledgeBase: string,
+        signal?: AbortSignal
     ): Promise<string> {
         const prompt = AUTOFILL_ANSWER_PROMPT
             .replace('{question}', question)
             .replace('{jobDescription}', jobDescription)
             .replace('{resumeSummary}', resumeSummary)
             .replace('{knowledgeBase}', knowledgeBase);
-        return this._generate(prompt);
+        return this._generate(prompt, signal);
     }
 
     // ─── Extract Profile from Resume ──────────────────────────
     async extractProfileFromResume(
-        resumeText: string
-    ): Promise<Record<string, string>> {
+        resumeText: string,
+        signal?: AbortSignal
+    ): Promise<ResumeProfile> {
         if (!this.isConfigured()) throw new Error('AI not configured');
         const prompt = RESUME_PROFILE_EXTRACT_PROMPT.replace('{resumeText}', resumeText);
-        const raw = await this._generate(prompt);
-        try {
-            const jsonMatch = raw.match(/\{[\s\S]*\}/);
-            return jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-        } catch {
-            return {};
-        }
+        return this.generateJson(prompt, resumeProfileSchema, signal);
+    }
+
+    // ─── Structured Output ────────────────────────────────────
+    // Generate JSON validated against a schema, re-asking the model with the
+    // validation error when the response cannot be repaired
+    async generateJson<T>(prompt: string, schema: Schema<T>, signal?: AbortSignal): Promise<T> {
+        return generateStructured({
+            prompt,
+            schema,
+            signal,
+            generate: (attemptPrompt) => this._generate(attemptPrompt, signal),
+        });
     }
 
     // ─── Match Select Option ──────────────────────────────────
     async matchSelectOption(
         profileValue: string,
         fieldLabel: string,
-        options: string[]
+        options: string[],
+        signal?: AbortSignal
     ): Promise<string> {
         if (!this.isConfigured()) throw new Error('AI not configured');
         const prompt = SELECT_MATCH_PROMPT
             .replace('{profileValue}', profileValue)
             .replace('{fieldLabel}', fieldLabel)
             .replace('{options}', options.join('\n'));
-        const result = (await this._generate(prompt)).trim();
+        const result = (await this._generate(prompt, signal)).trim();
         // Verify the AI returned an actual option
         return options.includes(result) ? result : '';
     }
@@ -367,38 +420,59 @@ class AIService {
     }
 
     // Public method for the background script to call to process raw prompts through the queue
-    async generateContentInternal(prompt: string): Promise<string> {
+    async generateContentInternal(prompt: string, signal?: AbortSignal): Promise<string> {
         return this.queue.add(() => this._withRetry(async () => {
             if (!this.isConfigured()) await this.init();
-
-            if (this.provider === 'gemini') {
-                const result = await this.model.generateContent(prompt);
-                const response = await result.response;
-                return this._cleanLatex(response.text());
-            } else {
-                if (!this.groq) throw new Error('Groq not configured');
-                const completion = await this.groq.chat.completions.create({
-                    messages: [{ role: 'user', content: prompt }],
-                    model: this.groqModelName,
-                });
-                return this._cleanLatex(completion.choices[0]?.message?.content || '');
-            }
-        }));
+            if (!this.provider?.isConfigured()) throw new Error('AI not configured');
+            return this._cleanLatex(await this.provider.generate(prompt, signal));
+        }, signal), signal);
     }
 
     private queue = new RequestQueue();
 
     // ─── Private Helpers ───────────────────────────────────────
-    private async _generate(prompt: string): Promise<string> {
+    // Repair LaTeX the model broke, then restore any locked section it touched
+    // despite the prompt
+    private _finalizeLatex(originalLatex: string, latex: string, lockedSections: string[]): string {
+        const repair = aiValidators.repairLatex(latex, originalLatex);
+        if (repair.fixes.length > 0) {
+            console.info('[ResumeForge] Repaired LaTeX:', repair.fixes.join('; '));
+        }
+        if (repair.restored.length > 0) {
+            console.warn('[ResumeForge] Restored unrepairable sections from the original:', repair.restored.join(', '));
+        }
+        const result = enforceSectionLocks(originalLatex, repair.latex, lockedSections);
+        if (result.reverted.length > 0) {
+            console.warn('[ResumeForge] Reverted locked sections:', result.reverted.join(', '));
+        }
+        return result.latex;
+    }
+
+    private async _generate(prompt: string, signal?: AbortSignal): Promise<string> {
+        throwIfAborted(signal);
+
         if (!this.isBackground) {
-            // Proxy to background
+            // Proxy to background. The signal cannot cross the message boundary,
+            // so an abort is forwarded as a separate message keyed by requestId.
+            const requestId = generateId();
             return new Promise((resolve, reject) => {
+                const onAbort = () => {
+                    chrome.runtime.sendMessage({ type: 'GEMINI_GENERATE_ABORT', requestId }).catch(() => {});
+                    reject(createAbortError());
+                };
+                signal?.addEventListener('abort', onAbort, { once: true });
+
                 chrome.runtime.sendMessage(
-                    { type: 'GEMINI_GENERATE_PROXY', prompt },
+                    { type: 'GEMINI_GENERATE_PROXY', prompt, requestId },
                     (response) => {
+                        signal?.removeEventListener('abort', onAbort);
+                        if (signal?.aborted) return;
                         if (chrome.runtime.lastError) {
                             return reject(new Error(chrome.runtime.lastError.message));
                         }
+                        if (response?.aborted) {
+                            return reject(createAbortError());
+                        }
                         if (response?.error) {
                             return reject(new Error(response.error));
                         }
@@ -409,60 +483,41 @@ class AIService {
         }
 
         // We are in background, use queue directly
-        return this.generateContentInternal(prompt);
+        return this.generateContentInternal(prompt, signal);
     }
 
-    private async _streamGenerate(prompt: string, callbacks: StreamCallbacks): Promise<string> {
+    private async _streamGenerate(prompt: string, callbacks: StreamCallbacks, signal?: AbortSignal): Promise<string> {
         // Streaming proxying is complex, for now we will fall back to non-streaming proxy 
         // or implement basic full-response return for simplicity in this crisis.
         // If we are strictly in a rate-limit crisis, simple generation is safer than keeping connections open.
 
         if (!this.isBackground) {
-            const text = await this._generate(prompt);
+            const text = await this._generate(prompt, signal);
             callbacks.onComplete(text);
             return text;
         }
 
         return this.queue.add(() => this._withRetry(async () => {
             if (!this.isConfigured()) await this.init();
+            if (!this.provider?.isConfigured()) throw new Error('AI not configured');
 
-            if (this.provider === 'gemini') {
-                const result = await this.model.generateContentStream(prompt);
-                let fullText = '';
-                for await (const chunk of result.stream) {
-                    const token = chunk.text();
-                    fullText += token;
-                    callbacks.onToken(token);
-                }
-                const cleaned = this._cleanLatex(fullText);
-                callbacks.onComplete(cleaned);
-                return cleaned;
-            } else {
-                if (!this.groq) throw new Error('Groq not initialized');
-                const stream = await this.groq.chat.completions.create({
-                    messages: [{ role: 'user', content: prompt }],
-                    model: this.groqModelName,
-                    stream: true,
-                });
-
-                let fullText = '';
-                for await (const chunk of stream) {
-                    const token = chunk.choices[0]?.delta?.content || '';
-                    if (token) {
-                        fullText += token;
-                        callbacks.onToken(token);
-                    }
-                }
-                const cleaned = this._cleanLatex(fullText);
-                callbacks.onComplete(cleaned);
-                return cleaned;
-            }
-        }));
+            const fullText = await this.provider.stream(prompt, callbacks.onToken, signal);
+            const cleaned = this._cleanLatex(fullText);
+            callbacks.onComplete(cleaned);
+            return cleaned;
+        }, signal), signal);
     }
-    private async _withRetry<T>(operation: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+
+    private async _withRetry<T>(
+        operation: () => Promise<T>,
+        signal?: AbortSignal,
+        retries = 3,
+        delay = 1000
+    ): Promise<T> {
         try {
             return await operation();
         } catch (error: any) {
+            if (isAbortError(error, signal)) throw createAbortError();
             if (retries > 0 && (error.message?.includes('429') || error.status === 429)) {
 
                 // Notify queue to back off globally
@@ -485,11 +540,11 @@ class AIService {
 
                 console.warn(`[ResumeForge] Rate limited. Waiting ${waitTime}ms before retry. Retries left: ${retries}`);
 
-                // Wait...
-                await new Promise((resolve) => setTimeout(resolve, waitTime));
+                // Wait (a cancel during the back-off ends the retry loop)
+                await abortableDelay(waitTime, signal);
 
                 // Retry with increased delay for next attempt
-                return this._withRetry(operation, retries - 1, waitTime * 2);
+                return this._withRetry(operation, signal, retries - 1, waitTime * 2);
             }
             throw error;
         }
@@ -503,15 +558,6 @@ class AIService {
             .replace(/\{\\displaystyle\s+/g, '')
             .trim();
     }
-
-    private _extractSection(latex: string, sectionName: string): string {
-        const regex = new RegExp(
-            `\\\\section\\{${sectionName}\\}([\\s\\S]*?)(?=\\\\section\\{|\\\\end\\{document\\}|$)`,
-            'i'
-        );
-        const match = latex.match(regex);
-        return match?.[1]?.trim() || `\\section{${sectionName}}\n% Section not found`;
-    }
 }
 
 class RequestQueue {
@@ -534,16 +580,30 @@ class RequestQueue {
         }, 120000);
     }
 
-    async add<T>(operation: () => Promise<T>): Promise<T> {
+    async add<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
         return new Promise((resolve, reject) => {
-            this.queue.push(async () => {
+            if (signal?.aborted) return reject(createAbortError());
+
+            const task = async () => {
+                signal?.removeEventListener('abort', onAbort);
                 try {
+                    throwIfAborted(signal);
                     const result = await operation();
                     resolve(result);
                 } catch (error) {
                     reject(error);
                 }
-            });
+            };
+
+            // Drop the task from the queue if it is cancelled before it starts
+            const onAbort = () => {
+                const idx = this.queue.indexOf(task);
+                if (idx >= 0) this.queue.splice(idx, 1);
+                reject(createAbortError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.queue.push(task);
             this.process();
         });
     }
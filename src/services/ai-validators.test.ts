@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { aiValidators } from './ai-validators';
+import { parseLatex } from '@/lib/latex-parser';
+import jakesResume from '@/lib/__fixtures__/jakes-resume.tex?raw';
+
+// What TeX sees once the template's list macros expand; a group still open
+// at \end{itemize} does not compile
+const expandListMacros = (latex: string) =>
+    latex
+        .replace(/\\resume(Item|SubHeading)ListStart\b/g, '\\begin{itemize}')
+        .replace(/\\resume(Item|SubHeading)ListEnd\b/g, '\\end{itemize}');
+
+const compilesStructurally = (latex: string) =>
+    !parseLatex(expandListMacros(latex)).diagnostics.some((d) => d.severity === 'error');
+
+describe('aiValidators.repairLatex', () => {
+    it("leaves a valid Jake's resume unchanged", () => {
+        const result = aiValidators.repairLatex(jakesResume, jakesResume);
+
+        expect(result.latex).toBe(jakesResume);
+        expect(result.fixes).toEqual([]);
+        expect(result.restored).toEqual([]);
+    });
+
+    it('closes a \\resumeItem brace left open before the list ends', () => {
+        const broken = jakesResume.replace(
+            '\\resumeItem{Used Celery and Redis for asynchronous tasks}',
+            '\\resumeItem{Used Celery and Redis for asynchronous tasks'
+        );
+        expect(compilesStructurally(broken)).toBe(false);
+
+        const result = aiValidators.repairLatex(broken, jakesResume);
+
+        expect(result.restored).toEqual([]);
+        expect(result.fixes).toEqual(['Projects: Closed "{"']);
+        expect(result.latex).toContain('\\resumeItem{Used Celery and Redis for asynchronous tasks}\n');
+        expect(compilesStructurally(result.latex)).toBe(true);
+    });
+
+    it('closes a brace left open in one \\resumeItem before the next', () => {
+        const broken = jakesResume.replace(
+            '\\resumeItem{Visualized GitHub data to show collaboration}',
+            '\\resumeItem{Visualized \\textbf{GitHub data to show collaboration}'
+        );
+
+        const result = aiValidators.repairLatex(broken, jakesResume);
+
+        expect(result.latex).toContain('\\resumeItem{Visualized \\textbf{GitHub data to show collaboration}}\n');
+        expect(compilesStructurally(result.latex)).toBe(true);
+    });
+});
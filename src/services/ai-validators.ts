@@ -1,18 +1,30 @@
 // AI Validators Service - Ensure LaTeX integrity and content quality
 // Validates AI outputs before showing to users
 
+import { findCommands, findEnvironment, getLineColumn, latexToText, parseLatex, type LatexDiagnostic } from '@/lib/latex-parser';
+import { canonicalSkillNames } from '@/lib/skills-taxonomy';
+import { analyzeCoverage } from '@/lib/jd-analyzer';
+import { repairLatexFragment, splitLatexRegions } from '@/lib/latex-repair';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
   qualityScore: number; // 0-100
+  diagnostics?: LatexDiagnostic[]; // source ranges behind the errors and warnings, for the editor
+}
+
+export interface LatexRepairResult {
+  latex: string;
+  fixes: string[]; // what was fixed, prefixed with the section
+  restored: string[]; // sections that could not be fixed and were taken from the original
 }
 
 export interface ContentComparison {
   contentPreserved: boolean;
   lossPercentage: number;
   changedSections: string[];
-  keywordsPreserved: number; // out of total important keywords
+  keywordsPreserved: number; // taxonomy skills from the original still present
 }
 
 class AIValidators {
@@ -21,50 +33,44 @@ class AIValidators {
     const errors: string[] = [];
     const warnings: string[] = [];
     let qualityScore = 100;
+    const diagnostics: LatexDiagnostic[] = [];
+    // Document-level problems have no source range; they're pinned to the start
+    const report = (severity: LatexDiagnostic['severity'], message: string) => {
+      (severity === 'error' ? errors : warnings).push(message);
+      diagnostics.push({ message, start: 0, end: 0, severity });
+    };
 
-    // Check for unclosed braces
-    const openBraces = (latex.match(/\{/g) || []).length;
-    const closeBraces = (latex.match(/\}/g) || []).length;
-    if (openBraces !== closeBraces) {
-      errors.push(
-        `LaTeX brace mismatch: ${openBraces} open, ${closeBraces} closed`
-      );
-      qualityScore -= 30;
-    }
-
-    // Check for unclosed brackets
-    const openBrackets = (latex.match(/\[/g) || []).length;
-    const closeBrackets = (latex.match(/\]/g) || []).length;
-    if (openBrackets !== closeBrackets) {
-      errors.push(
-        `LaTeX bracket mismatch: ${openBrackets} open, ${closeBrackets} closed`
-      );
-      qualityScore -= 20;
+    // Structural problems found while parsing: unbalanced braces, mismatched
+    // environments, unclosed math and commands missing their arguments
+    const doc = parseLatex(latex);
+    for (const diagnostic of doc.diagnostics) {
+      const { line } = getLineColumn(latex, diagnostic.start);
+      diagnostics.push(diagnostic);
+      if (diagnostic.severity === 'error') {
+        errors.push(`${diagnostic.message} (line ${line})`);
+        qualityScore -= 20;
+      } else {
+        warnings.push(`${diagnostic.message} (line ${line})`);
+        qualityScore -= 5;
+      }
     }
 
     // Check for required document structure
-    if (!latex.includes('\\documentclass')) {
-      warnings.push('Missing \\documentclass declaration');
+    if (!findCommands(doc.nodes, 'documentclass').length) {
+      report('warning', 'Missing \\documentclass declaration');
       qualityScore -= 10;
     }
 
-    if (!latex.includes('\\begin{document}') || !latex.includes('\\end{document}')) {
-      errors.push('Missing document environment');
+    if (!findEnvironment(doc.nodes, 'document')) {
+      report('error', 'Missing document environment');
       qualityScore -= 25;
     }
 
-    // Check for incomplete commands
-    const incompleteCommands = latex.match(/\\[a-zA-Z]+\s*$/gm);
-    if (incompleteCommands) {
-      errors.push(`Found ${incompleteCommands.length} incomplete LaTeX commands`);
-      qualityScore -= 15 * incompleteCommands.length;
-    }
-
     // Check for missing required packages
     const requiredPackages = ['inputenc', 'geometry', 'hyperref'];
     requiredPackages.forEach((pkg) => {
       if (!latex.includes(`\\usepackage{${pkg}}`) && !latex.includes(`\\usepackage[`) && pkg !== 'hyperref') {
-        warnings.push(`Consider adding \\usepackage{${pkg}}`);
+        report('warning', `Consider adding \\usepackage{${pkg}}`);
       }
     });
 
@@ -73,9 +79,56 @@ class AIValidators {
       errors,
       warnings,
       qualityScore: Math.max(0, qualityScore),
+      diagnostics,
     };
   }
 
+  // ─── LaTeX Repair ─────────────────────────────────────────
+  // Fix what the model broke section by section. A section that still has
+  // errors falls back to the original's; a new one is dropped.
+  repairLatex(latex: string, original: string): LatexRepairResult {
+    const fixes: string[] = [];
+    const restored: string[] = [];
+    const { regions } = splitLatexRegions(latex);
+    const originalRegions = splitLatexRegions(original).regions;
+    const seen = new Map<string, number>();
+
+    let repaired = '';
+    let cursor = 0;
+    for (const region of regions) {
+      repaired += latex.slice(cursor, region.start);
+      cursor = region.end;
+      // Sections with the same title pair up in order
+      const occurrence = seen.get(region.key) || 0;
+      seen.set(region.key, occurrence + 1);
+
+      const repair = repairLatexFragment(latex.slice(region.start, region.end));
+      if (repair.valid) {
+        repaired += repair.latex;
+        fixes.push(...repair.fixes.map((fix) => `${region.title}: ${fix}`));
+        continue;
+      }
+      const fallback = originalRegions.filter((r) => r.key === region.key)[occurrence];
+      if (fallback) repaired += original.slice(fallback.start, fallback.end);
+      restored.push(fallback ? region.title : `${region.title} (removed)`);
+    }
+    repaired += latex.slice(cursor);
+
+    if (this.validateLatexSyntax(repaired).isValid) return { latex: repaired, fixes, restored };
+
+    // The preamble or the document environment is broken: keep the body and
+    // wrap it in the original's
+    const parts = splitLatexRegions(repaired);
+    const originalParts = splitLatexRegions(original);
+    const rewrapped = original.slice(0, originalParts.bodyStart)
+      + repaired.slice(parts.hasBegin ? parts.bodyStart : 0, parts.hasEnd ? parts.bodyEnd : repaired.length)
+      + original.slice(originalParts.bodyEnd);
+    if (this.validateLatexSyntax(rewrapped).isValid || !this.validateLatexSyntax(original).isValid) {
+      return { latex: rewrapped, fixes: [...fixes, 'Restored the preamble and document environment'], restored };
+    }
+    return { latex: original, fixes: [], restored: ['Entire document'] };
+  }
+
   // ─── Content Integrity Check ──────────────────────────────
   validateContentIntegrity(
     original: string,
@@ -118,14 +171,8 @@ class AIValidators {
     });
 
     // Extract and compare important keywords
-    const importantKeywords = this.extractKeywords(originalText);
-    let keywordsPreserved = 0;
-
-    importantKeywords.forEach((keyword) => {
-      if (tailoredText.toLowerCase().includes(keyword.toLowerCase())) {
-        keywordsPreserved++;
-      }
-    });
+    const tailoredKeywords = new Set(this.extractKeywords(tailoredText));
+    const keywordsPreserved = this.extractKeywords(originalText).filter((k) => tailoredKeywords.has(k)).length;
 
     return {
       contentPreserved: lossPercentage < 20,
@@ -136,7 +183,8 @@ class AIValidators {
   }
 
   // ─── Resume Quality Scoring ───────────────────────────────
-  scoreResumeQuality(latex: string): { score: number; factors: Record<string, number> } {
+  // With a job description the keyword factor is the resume's coverage of it
+  scoreResumeQuality(latex: string, jobDescription?: string): { score: number; factors: Record<string, number> } {
     let score = 100;
     const factors: Record<string, number> = {};
 
@@ -162,7 +210,7 @@ class AIValidators {
     score = (score * 0.85) + (sectionScore * 0.15);
 
     // Keyword presence (25%)
-    const keywordScore = this.scoreKeywords(latex);
+    const keywordScore = this.scoreKeywords(latex, jobDescription);
     factors.keywords = keywordScore;
     score = (score * 0.75) + (keywordScore * 0.25);
 
@@ -173,17 +221,9 @@ class AIValidators {
   }
 
   // ─── Helper Methods ───────────────────────────────────────
+  // Distinct canonical skills, so aliases ("JS", "k8s") count as their skill
   private extractKeywords(text: string): string[] {
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of',
-      'with', 'by', 'from', 'is', 'was', 'are', 'were', 'be', 'been', 'being',
-    ]);
-
-    return text
-      .toLowerCase()
-      .split(/\W+/)
-      .filter((word) => word.length > 4 && !stopWords.has(word))
-      .slice(0, 50); // Top 50 keywords
+    return canonicalSkillNames(text);
   }
 
   private scoreFormatting(latex: string): number {
@@ -223,22 +263,12 @@ class AIValidators {
     return Math.min(100, score);
   }
 
-  private scoreKeywords(latex: string): number {
-    const technicalKeywords = [
-      'python', 'javascript', 'typescript', 'react', 'nodejs',
-      'aws', 'docker', 'kubernetes', 'sql', 'mongodb',
-      'agile', 'scrum', 'git', 'api', 'restful',
-      'developed', 'implemented', 'designed', 'deployed', 'optimized',
-    ];
-
-    let matched = 0;
-    technicalKeywords.forEach((keyword) => {
-      if (latex.toLowerCase().includes(keyword)) {
-        matched++;
-      }
-    });
+  private scoreKeywords(latex: string, jobDescription?: string): number {
+    if (jobDescription?.trim()) return analyzeCoverage(latex, jobDescription).score;
 
-    return (matched / technicalKeywords.length) * 100;
+    // Without a job, reward breadth: 15 distinct skills scores full marks
+    const skills = this.extractKeywords(latexToText(parseLatex(latex).nodes));
+    return Math.min(100, (skills.length / 15) * 100);
   }
 
   // ─── Answer Quality Scoring ───────────────────────────────
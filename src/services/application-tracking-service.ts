@@ -1,6 +1,9 @@
 // ResumeForge AI – Application Tracking Service
 // Manages job applications, recruiter contacts, and tracking status
 
+import { resumeVersionService } from './resume-version-service';
+import type { FitReport } from '@/lib/fit-report';
+
 export interface JobApplication {
   id: string;
   companyName: string;
@@ -16,8 +19,7 @@ export interface JobApplication {
   recruiterEmail?: string;
   recruiterLinkedIn?: string;
   
-  // Resume and materials
-  tailoredResume?: string;
+  // Resume and materials (resumes sent link back via ResumeVersion.applicationIds)
   coverLetterSent?: boolean;
   
   // Outreach tracking
@@ -38,6 +40,7 @@ export interface JobApplication {
   // AI analysis
   formAnswers?: Record<string, string>;
   labelSuggestions?: Record<string, string[]>;
+  fitReport?: FitReport;
   updatedAt: number;
 }
 
@@ -118,11 +121,12 @@ class ApplicationTrackingService {
     return applications.filter((app) => app.status === status);
   }
 
-  // Delete application
+  // Delete application and unlink it from the resume versions sent with it
   async deleteApplication(id: string): Promise<void> {
     const applications = await this.getAllApplications();
     const filtered = applications.filter((app) => app.id !== id);
     await this.saveApplications(filtered);
+    await resumeVersionService.forgetApplication(id);
   }
 
   // Get applications due for follow-up
@@ -4,6 +4,7 @@
 import { storageService, type UserProfile } from './storage-service';
 import { aiService } from './ai-service';
 import { knowledgeBaseService } from './knowledge-base-service';
+import { profileFromResume, resumeFromLatex } from '@/lib/resume-model';
 
 // ─── Types ──────────────────────────────────────────────────
 export interface DetectedField {
@@ -378,7 +379,7 @@ class AutofillService {
         jobDescription: string,
         resumeContent: string
     ): Promise<DetectedField[]> {
-        const profile = await storageService.getUserProfile();
+        const profile = this._withResumeFields(await storageService.getUserProfile(), resumeContent);
 
         // 1. Classify
         let fields = this.classifyFields(rawFields, profile);
@@ -397,6 +398,22 @@ class AutofillService {
         return fields;
     }
 
+    // ─── Private: Resume Fields ──────────────────────────────
+    // Profile fields left blank are taken from the structured resume: name,
+    // contact links, current title, degree and university
+    private _withResumeFields(profile: UserProfile, resumeContent: string): UserProfile {
+        if (!resumeContent.trim()) return profile;
+
+        const filled = { ...profile };
+        for (const [key, value] of Object.entries(profileFromResume(resumeFromLatex(resumeContent)))) {
+            const field = key as keyof UserProfile;
+            if (typeof value === 'string' && !String(filled[field] ?? '').trim()) {
+                (filled as Record<string, unknown>)[field] = value;
+            }
+        }
+        return filled;
+    }
+
     // ─── Private: Single Field Classification ────────────────
     private _classifySingleField(
         field: {
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { fabricationGuard } from './fabrication-guard';
+
+const resume = (skills: string, heading = String.raw`\resumeSubheading{Software Engineer}{Jan 2020 -- Present}{Acme Corporation}{Austin, TX}`) => String.raw`
+\begin{document}
+\section{Experience}
+\resumeSubHeadingListStart
+${heading}
+\resumeItemListStart
+\resumeItem{Designed graph algorithms for routing}
+\resumeItemListEnd
+\resumeSubHeadingListEnd
+\section{Technical Skills}
+\begin{itemize}
+\item{\textbf{Languages}{: ${skills}}}
+\end{itemize}
+\end{document}`;
+
+const unsupported = (tailored: string, original: string, knowledgeBase = '') =>
+    fabricationGuard.verify(tailored, original, knowledgeBase).unsupported.map((c) => c.text);
+
+describe('fabricationGuard', () => {
+    it('matches known skills by canonical name', () => {
+        expect(unsupported(resume('JavaScript, Kubernetes'), resume('JS, k8s'))).toEqual([]);
+    });
+
+    it('flags known skills the evidence does not name, even inside other words', () => {
+        const flagged = unsupported(resume('Python, Go, Java'), resume('Python, JavaScript'));
+        expect(flagged).toEqual(expect.arrayContaining(['Go', 'Java']));
+        expect(flagged).not.toContain('Python');
+    });
+
+    it('matches unknown technologies on whole words only', () => {
+        expect(unsupported(resume('Zorblax'), resume('Zorblaxify'))).toContain('Zorblax');
+        expect(unsupported(resume('Zorblax'), resume('Zorblax'))).toEqual([]);
+    });
+
+    it('accepts common abbreviations in names but not arbitrary prefixes', () => {
+        const original = resume('Python');
+        expect(unsupported(resume('Python', String.raw`\resumeSubheading{Software Engineer}{Jan 2020 -- Present}{Acme Corp.}{Austin, TX}`), original)).toEqual([]);
+        expect(
+            unsupported(resume('Python', String.raw`\resumeSubheading{Software Engineer}{Jan 2020 -- Present}{Acme Applied Sciences}{Austin, TX}`), original + ' app sci')
+        ).toContain('Acme Applied Sciences');
+    });
+
+    it('reads apostrophe years as full dates', () => {
+        const original = resume('Python');
+        const tailored = (dates: string) => resume('Python', String.raw`\resumeSubheading{Software Engineer}{${dates}}{Acme Corporation}{Austin, TX}`);
+        expect(unsupported(tailored("January '20 -- Present"), original)).toEqual([]);
+        expect(unsupported(tailored('Jan ’20 -- Present'), original)).toEqual([]);
+        expect(unsupported(tailored("Jan '21 -- Present"), original)).toContain("Jan '21");
+    });
+});
@@ -0,0 +1,219 @@
+// Fabrication Guard - Flag tailored resume claims with no supporting evidence
+// Pulls employers, titles, dates, metrics and technologies out of tailored LaTeX
+// and checks each one against the original resume and the knowledge base.
+
+import { argSource, findCommands, getSections, latexToText, parseLatex } from '@/lib/latex-parser';
+import { canonicalSkillNames } from '@/lib/skills-taxonomy';
+
+export type ClaimType = 'organization' | 'title' | 'date' | 'metric' | 'technology';
+
+export interface Claim {
+  type: ClaimType;
+  text: string;
+  context: string; // the line the claim was found on, as plain text
+}
+
+export interface ClaimCheck extends Claim {
+  supported: boolean;
+}
+
+export interface FabricationReport {
+  claims: ClaimCheck[];
+  unsupported: ClaimCheck[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE_REGEX = new RegExp(`\\b${MONTH_PATTERN}\\s*['’‘]?\\d{2,4}\\b|\\b(?:19|20)\\d{2}\\b`, 'gi');
+// "Jan '20", "Jan ’20": a month with an abbreviated year
+const SHORT_YEAR_DATE_REGEX = new RegExp(`\\b(${MONTH_PATTERN})\\s*['’‘](\\d{2})\\b`, 'gi');
+// Numbers with a unit or at least two digits; years are checked as dates
+const METRIC_REGEX = /[$€£]?\d[\d,]*(?:\.\d+)?\s*(?:%|\+|x\b|k\b|m\b|b\b|ms\b|million\b|billion\b|thousand\b)?/gi;
+const SKILL_SECTION_REGEX = /skill|technolog|tools/i;
+// Words organization names are often shortened to; either form supports the other
+const NAME_ABBREVIATIONS = [
+  ['corporation', 'corp'],
+  ['incorporated', 'inc'],
+  ['company', 'co'],
+  ['limited', 'ltd'],
+  ['university', 'univ', 'uni'],
+  ['institute', 'inst'],
+  ['international', 'intl'],
+  ['technology', 'technologies', 'tech'],
+  ['laboratory', 'laboratories', 'lab', 'labs'],
+  ['department', 'dept'],
+  ['association', 'assoc'],
+  ['management', 'mgmt'],
+  ['engineering', 'eng'],
+  ['engineer', 'eng'],
+  ['government', 'govt'],
+  ['national', 'natl'],
+  ['senior', 'sr'],
+  ['junior', 'jr'],
+  ['associate', 'assoc'],
+  ['assistant', 'asst'],
+];
+
+class FabricationGuard {
+  // ─── Verification ─────────────────────────────────────────
+  verify(tailoredLatex: string, originalLatex: string, knowledgeBase: string): FabricationReport {
+    const evidenceText = `${this.toPlainText(originalLatex)}\n${knowledgeBase}`;
+    const evidence = this.normalize(this.expandShortYears(evidenceText));
+    const evidenceWords = new Set(evidence.split(' '));
+    // Skills under their canonical names, so "k8s" supports "Kubernetes"
+    const evidenceSkills = new Set(canonicalSkillNames(evidenceText));
+
+    const claims = this.extractClaims(tailoredLatex).map((claim) => ({
+      ...claim,
+      supported: this.isSupported(claim, evidence, evidenceWords, evidenceSkills),
+    }));
+
+    return {
+      claims,
+      unsupported: claims.filter((c) => !c.supported),
+    };
+  }
+
+  // ─── Claim Extraction ─────────────────────────────────────
+  extractClaims(latex: string): Claim[] {
+    const claims: Claim[] = [];
+    const seen = new Set<string>();
+    const add = (type: ClaimType, text: string, context: string) => {
+      const clean = this.toPlainText(text).trim();
+      const key = `${type}:${this.normalize(clean)}`;
+      if (!clean || seen.has(key)) return;
+      seen.add(key);
+      claims.push({ type, text: clean, context: context.trim() });
+    };
+
+    const { header, sections } = getSections(parseLatex(latex));
+    const regions = [{ title: '', nodes: header }, ...sections];
+
+    for (const region of regions) {
+      // Heading macros (often split across lines): organization / title / dates
+      for (const macro of findCommands(region.nodes, (name) => /^resume\w*heading$/i.test(name))) {
+        const args = macro.args.map((arg) => argSource(latex, arg));
+        const context = this.toPlainText(args.join(' | '));
+        args.forEach((arg, i) => {
+          const text = this.toPlainText(arg);
+          const dates = text.match(DATE_REGEX);
+          if (dates) {
+            dates.forEach((date) => add('date', date, context));
+          } else if (i === 0) {
+            // Project headings put "Name | Tech, Tech" in the first argument
+            const [name, tech] = text.split('|');
+            add(/projects?/i.test(region.title) ? 'title' : 'organization', name, context);
+            if (tech) this.splitList(tech).forEach((t) => add('technology', t, context));
+          } else if (i === 2) {
+            add('title', text, context);
+          }
+        });
+      }
+
+      for (const rawLine of latexToText(region.nodes).split('\n')) {
+        const line = rawLine.replace(/\s+/g, ' ');
+        if (!line.trim()) continue;
+
+        (line.match(DATE_REGEX) || []).forEach((date) => add('date', date, line));
+
+        // The "20" in "Jan '20" is part of a date, not a metric
+        for (const match of line.replace(DATE_REGEX, ' ').match(METRIC_REGEX) || []) {
+          const value = match.trim();
+          const digits = value.replace(/[^\d]/g, '');
+          const hasUnit = /[%+xkmb$€£]|million|billion|thousand|ms/i.test(value);
+          if (/^(19|20)\d{2}$/.test(value)) continue;
+          if (digits.length >= 2 || hasUnit) add('metric', value, line);
+        }
+
+        if (SKILL_SECTION_REGEX.test(region.title)) {
+          // "Languages: Python, Go" → check each listed item
+          const list = line.includes(':') ? line.slice(line.indexOf(':') + 1) : line;
+          this.splitList(list).forEach((t) => add('technology', t, line));
+        }
+      }
+    }
+
+    return claims;
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────
+  private isSupported(claim: Claim, evidence: string, evidenceWords: Set<string>, evidenceSkills: Set<string>): boolean {
+    const normalized = this.normalize(claim.text);
+    if (!normalized) return true;
+
+    switch (claim.type) {
+      case 'date':
+        return ` ${evidence} `.includes(` ${this.normalizeDate(claim.text)} `);
+      case 'metric': {
+        const number = claim.text.replace(/[^\d.]/g, '').replace(/\.$/, '');
+        return new RegExp(`(^|[^\\d.])${number.replace(/\./g, '\\.')}(?![\\d])`).test(evidence);
+      }
+      case 'technology': {
+        // Known skills compare by canonical name; unknown ones must appear as
+        // whole words, spaced or not ("type script" for "TypeScript")
+        const skills = canonicalSkillNames(claim.text);
+        if (skills.length > 0) return skills.every((skill) => evidenceSkills.has(skill));
+        const words = normalized.split(' ').map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        return new RegExp(`(^| )${words.join(' ?')}( |$)`).test(evidence);
+      }
+      default: {
+        // Names may be reordered or abbreviated; every significant word must appear
+        if (` ${evidence} `.includes(` ${normalized} `)) return true;
+        const words = normalized.split(' ').filter((w) => w.length > 2);
+        return words.length > 0 && words.every((w) => evidenceWords.has(w) || this.hasAbbreviation(w, evidenceWords));
+      }
+    }
+  }
+
+  // "Corp" supports "Corporation", "University" supports "Univ"
+  private hasAbbreviation(word: string, evidenceWords: Set<string>): boolean {
+    return NAME_ABBREVIATIONS.some((forms) => forms.includes(word) && forms.some((form) => evidenceWords.has(form)));
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/(\d),(?=\d{3})/g, '$1')
+      .replace(/\b(january|february|march|april|june|july|august|september|sept|october|november|december)\b/g, (m) => m.slice(0, 3))
+      .replace(/[^a-z0-9+#.]+/g, ' ')
+      .replace(/\.(?!\d)/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private normalizeDate(date: string): string {
+    const text = this.normalize(this.expandShortYears(date));
+    const month = MONTHS.find((m) => text.startsWith(m));
+    const year = text.match(/\d{2,4}/)?.[0] || '';
+    return month ? `${month} ${year}` : year;
+  }
+
+  // "Jan '20" → "Jan 2020", so it matches the same date written out
+  private expandShortYears(text: string): string {
+    const pivot = (new Date().getFullYear() % 100) + 1;
+    return text.replace(SHORT_YEAR_DATE_REGEX, (_, month: string, year: string) =>
+      `${month} ${Number(year) <= pivot ? 2000 + Number(year) : 1900 + Number(year)}`
+    );
+  }
+
+  private splitList(text: string): string[] {
+    return text
+      .split(/,|;|\||\/|\band\b/)
+      .map((t) => t.replace(/\(.*?\)/g, '').trim())
+      .filter((t) => t.length > 1 && t.length < 40);
+  }
+
+  private toPlainText(latex: string): string {
+    return latex
+      .replace(/\\(?:href)\{[^}]*\}/g, '')
+      .replace(/\\\\/g, ' ')
+      .replace(/\\[a-zA-Z]+\*?(\[[^\]]*\])?/g, ' ')
+      .replace(/\\([%$&#_])/g, '$1')
+      .replace(/\$\|\$/g, '|')
+      .replace(/[{}$~]/g, ' ')
+      .replace(/--+/g, ' - ')
+      .replace(/\s+/g, ' ');
+  }
+}
+
+export const fabricationGuard = new FabricationGuard();
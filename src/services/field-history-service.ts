@@ -1,6 +1,8 @@
 // Field History Service - Learn from past form answers
 // Tracks successful answers and provides suggestions based on history
 
+import { normalizeSkill, normalizeSkillMentions } from '@/lib/skills-taxonomy';
+
 export interface FormFieldRecord {
   id: string;
   fieldName: string;
@@ -120,10 +122,13 @@ class FieldHistoryService {
   ): Promise<AnswerVariant[]> {
     try {
       const records = await this.getRecords();
+      // "Years of JS?" and "Years of JavaScript?" are the same question
+      const normalizedQuestion = normalizeSkillMentions(question);
       const similarRecords = records.filter((r) => {
-        const questionSimilarity = this.calculateSimilarity(r.question, question);
+        const questionSimilarity = this.calculateSimilarity(normalizeSkillMentions(r.question), normalizedQuestion);
         return questionSimilarity > 0.6; // 60% similarity threshold
       });
+      const keywords = this.normalizeKeywords(jobKeywords || []);
 
       if (similarRecords.length === 0) {
         return [];
@@ -137,12 +142,13 @@ class FieldHistoryService {
         record.answers.forEach((answer) => {
           if (!seen.has(answer.text)) {
             seen.add(answer.text);
+            // Boost score if from same company, and for skills shared with this job
+            const sharedKeywords = this.normalizeKeywords(answer.relatedJobKeywords)
+              .filter((k) => keywords.includes(k)).length;
+            const boost = (company && record.company === company ? 10 : 0) + Math.min(15, sharedKeywords * 5);
             aggregatedAnswers.push({
               ...answer,
-              // Boost score if from same company
-              qualityScore: company && record.company === company 
-                ? Math.min(100, answer.qualityScore + 10)
-                : answer.qualityScore,
+              qualityScore: Math.min(100, answer.qualityScore + boost),
             });
           }
         });
@@ -328,6 +334,11 @@ class FieldHistoryService {
     return `${fieldName}_${question.slice(0, 50).replace(/\s+/g, '_')}`;
   }
 
+  // Canonical skill names where the taxonomy knows the keyword
+  private normalizeKeywords(keywords: string[]): string[] {
+    return keywords.map((k) => normalizeSkill(k)?.name ?? k.trim().toLowerCase());
+  }
+
   private calculateSimilarity(str1: string, str2: string): number {
     const longer = str1.length > str2.length ? str1 : str2;
     const shorter = str1.length > str2.length ? str2 : str1;
@@ -1,8 +1,14 @@
 // ResumeForge AI – File Service
-// Handles resume upload (PDF, DOCX, TXT, TEX), Overleaf fetch, DOCX export, PDF download
+// Handles resume upload (PDF, DOCX, TXT, TEX, JSON Resume), Overleaf fetch, DOCX/JSON/text/Markdown export, PDF download
 
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
+import { Packer } from 'docx';
 import { saveAs } from 'file-saver';
+import { countPdfPages, extractPdfText } from '@/lib/pdf-text';
+import { latexCompilerService } from './latex-compiler-service';
+import { storageService } from './storage-service';
+import { fromJsonResume, resumeFromLatex, resumeToLatex, toJsonResume } from '@/lib/resume-model';
+import { buildResumeDocx, type DocxTemplateId } from '@/lib/resume-docx';
+import { resumeToMarkdown, resumeToPlainText } from '@/lib/resume-text';
 
 export interface FileResult {
     type: 'latex' | 'text';
@@ -29,13 +35,15 @@ class FileService {
                 return this._handleDocxUpload(file);
             case 'txt':
                 return this._handleTextUpload(file);
+            case 'json':
+                return this._handleJsonResumeUpload(file);
             default:
                 // Try reading as text
                 try {
                     return this._handleTextUpload(file);
                 } catch {
                     throw new Error(
-                        `Unsupported file format: .${ext}. Supported: .pdf, .docx, .doc, .tex, .txt`
+                        `Unsupported file format: .${ext}. Supported: .pdf, .docx, .doc, .tex, .txt, .json`
                     );
                 }
         }
@@ -60,6 +68,26 @@ class FileService {
         };
     }
 
+    // ─── JSON Resume Upload ────────────────────────────────────
+    private async _handleJsonResumeUpload(file: File): Promise<FileResult> {
+        const content = await this._readFileAsText(file);
+        let json: unknown;
+        try {
+            json = JSON.parse(content);
+        } catch {
+            throw new Error('Invalid JSON file');
+        }
+
+        return {
+            type: 'latex',
+            content: resumeToLatex(fromJsonResume(json)),
+            fileName: file.name.replace(/\.json$/i, '.tex'),
+            success: true,
+            converted: true,
+            conversionNote: 'Converted from JSON Resume to the default LaTeX template.',
+        };
+    }
+
     // ─── PDF Upload (extract text) ─────────────────────────────
     private async _handlePdfUpload(file: File): Promise<FileResult> {
         const arrayBuffer = await file.arrayBuffer();
@@ -189,89 +217,50 @@ class FileService {
         saveAs(blob, fileName);
     }
 
-    // ─── Download as DOCX ──────────────────────────────────────
-    async downloadAsDocx(
-        latexContent: string,
-        fileName: string = 'resume.docx'
-    ): Promise<void> {
-        const sections = this._parseLatexSections(latexContent);
-        const children: Paragraph[] = [];
-
-        const nameMatch = latexContent.match(/\\textbf\{\\Huge.*?\\scshape\s+(.*?)\}/);
-        if (nameMatch) {
-            children.push(
-                new Paragraph({
-                    children: [
-                        new TextRun({
-                            text: nameMatch[1].replace(/\\\\/g, ''),
-                            bold: true,
-                            size: 36,
-                            font: 'Calibri',
-                        }),
-                    ],
-                    heading: HeadingLevel.TITLE,
-                    spacing: { after: 200 },
-                })
-            );
-        }
-
-        for (const section of sections) {
-            children.push(
-                new Paragraph({
-                    children: [
-                        new TextRun({
-                            text: section.title,
-                            bold: true,
-                            size: 26,
-                            font: 'Calibri',
-                        }),
-                    ],
-                    heading: HeadingLevel.HEADING_1,
-                    spacing: { before: 300, after: 100 },
-                    border: {
-                        bottom: { style: 'single' as any, size: 1, color: '999999' },
-                    },
-                })
-            );
+    // ─── Download as JSON Resume ───────────────────────────────
+    downloadJsonResume(latexContent: string, fileName: string = 'resume.json'): void {
+        const json = toJsonResume(resumeFromLatex(latexContent));
+        const blob = new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' });
+        saveAs(blob, fileName);
+    }
 
-            for (const item of section.items) {
-                children.push(
-                    new Paragraph({
-                        children: [
-                            new TextRun({
-                                text: item,
-                                size: 22,
-                                font: 'Calibri',
-                            }),
-                        ],
-                        spacing: { after: 60 },
-                        indent: { left: 360 },
-                    })
-                );
-            }
-        }
+    // ─── Plain Text & Markdown ─────────────────────────────────
+    // Plain text is meant for "paste your resume" fields on job portals
+    toPlainText(latexContent: string): string {
+        return resumeToPlainText(latexContent);
+    }
 
-        const doc = new Document({
-            sections: [{ properties: {}, children }],
-        });
+    toMarkdown(latexContent: string): string {
+        return resumeToMarkdown(latexContent);
+    }
 
-        const blob = await Packer.toBlob(doc);
+    downloadPlainText(latexContent: string, fileName: string = 'resume.txt'): void {
+        const blob = new Blob([this.toPlainText(latexContent)], { type: 'text/plain' });
         saveAs(blob, fileName);
     }
 
-    // ─── Download as PDF (via LaTeX server) ────────────────────
-    async compileToPdf(latexContent: string): Promise<Blob> {
-        const response = await fetch('https://agentex.onrender.com/compile', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ latex: latexContent }),
-        });
+    downloadMarkdown(latexContent: string, fileName: string = 'resume.md'): void {
+        const blob = new Blob([this.toMarkdown(latexContent)], { type: 'text/markdown' });
+        saveAs(blob, fileName);
+    }
 
-        if (!response.ok) {
-            throw new Error(`LaTeX compilation failed (HTTP ${response.status})`);
-        }
+    // ─── Download as DOCX ──────────────────────────────────────
+    // Uses the template chosen in Settings unless one is passed in
+    async downloadAsDocx(
+        latexContent: string,
+        fileName: string = 'resume.docx',
+        templateId?: DocxTemplateId
+    ): Promise<void> {
+        const template = templateId ?? (await storageService.getSettings()).docxTemplate;
+        const blob = await Packer.toBlob(buildResumeDocx(latexContent, template));
+        saveAs(blob, fileName);
+    }
 
-        return response.blob();
+    // ─── Download as PDF ───────────────────────────────────────
+    // Compiled locally when the offline engine is installed
+    async compileToPdf(latexContent: string, signal?: AbortSignal): Promise<Blob> {
+        const { pdf } = await latexCompilerService.compile(latexContent, signal);
+        return pdf;
     }
 
     async downloadAsPdf(
@@ -282,71 +271,15 @@ class FileService {
         saveAs(blob, fileName);
     }
 
-    // ─── PDF Text Extraction (lightweight, no dependencies) ────
-    private async _extractTextFromPdf(arrayBuffer: ArrayBuffer): Promise<string> {
-        // Basic PDF text extraction by parsing the binary format
-        // Handles most text-based PDFs (not scanned/image PDFs)
-        const bytes = new Uint8Array(arrayBuffer);
-        const text = new TextDecoder('utf-8', { fatal: false }).decode(bytes);
-        const extractedParts: string[] = [];
-
-        // Method 1: Find text between BT...ET blocks (PDF text objects)
-        const btEtRegex = /BT\s([\s\S]*?)ET/g;
-        let match;
-        while ((match = btEtRegex.exec(text)) !== null) {
-            const block = match[1];
-
-            // Extract text from Tj (show string) operator
-            const tjRegex = /\(([^)]*)\)\s*Tj/g;
-            let tjMatch;
-            while ((tjMatch = tjRegex.exec(block)) !== null) {
-                const decoded = this._decodePdfString(tjMatch[1]);
-                if (decoded.trim()) extractedParts.push(decoded);
-            }
-
-            // Extract text from TJ (show strings) operator
-            const tjArrayRegex = /\[([\s\S]*?)\]\s*TJ/gi;
-            let tjArrMatch;
-            while ((tjArrMatch = tjArrayRegex.exec(block)) !== null) {
-                const innerRegex = /\(([^)]*)\)/g;
-                let innerMatch;
-                let line = '';
-                while ((innerMatch = innerRegex.exec(tjArrMatch[1])) !== null) {
-                    line += this._decodePdfString(innerMatch[1]);
-                }
-                if (line.trim()) extractedParts.push(line);
-            }
-        }
-
-        // Method 2: Fallback – look for readable text patterns
-        if (extractedParts.length === 0) {
-            // Try to find stream content with readable text
-            const streamRegex = /stream\r?\n([\s\S]*?)\r?\nendstream/g;
-            while ((match = streamRegex.exec(text)) !== null) {
-                const content = match[1];
-                // Look for parenthesized strings
-                const parenRegex = /\(([^)]{3,})\)/g;
-                let pm;
-                while ((pm = parenRegex.exec(content)) !== null) {
-                    const decoded = this._decodePdfString(pm[1]);
-                    if (decoded.trim() && /[a-zA-Z]{2,}/.test(decoded)) {
-                        extractedParts.push(decoded);
-                    }
-                }
-            }
-        }
-
-        return extractedParts.join('\n');
+    async countPdfPages(pdf: Blob): Promise<number> {
+        return countPdfPages(new Uint8Array(await pdf.arrayBuffer()), (data) => this._inflate(data, 'deflate'));
     }
 
-    private _decodePdfString(s: string): string {
-        return s
-            .replace(/\\n/g, '\n')
-            .replace(/\\r/g, '\r')
-            .replace(/\\t/g, '\t')
-            .replace(/\\\(/g, '(')
-            .replace(/\\\)/g, ')')
-            .replace(/\\\\/g, '\\');
+    // ─── PDF Text Extraction (no dependencies) ─────────────────
+    // Handles compressed content streams, object streams and ToUnicode
+    // CMaps; scanned/image-only PDFs still yield no text
+    private async _extractTextFromPdf(arrayBuffer: ArrayBuffer): Promise<string> {
+        return extractPdfText(new Uint8Array(arrayBuffer), (data) => this._inflate(data, 'deflate'));
     }
 
     // ─── DOCX Text Extraction (lightweight XML parsing) ────────
@@ -445,37 +378,40 @@ class FileService {
         return entries;
     }
 
-    // Inflate (decompress) deflate data using DecompressionStream (Chrome 80+)
-    private async _inflate(data: Uint8Array): Promise<Uint8Array> {
-        try {
-            const ds = new DecompressionStream('deflate-raw');
-            const writer = ds.writable.getWriter();
-            const reader = ds.readable.getReader();
+    // Inflate (decompress) deflate data using DecompressionStream (Chrome 80+).
+    // ZIP entries are raw deflate; PDF FlateDecode streams carry a zlib header.
+    private async _inflate(data: Uint8Array, format: CompressionFormat = 'deflate-raw'): Promise<Uint8Array> {
+        const ds = new DecompressionStream(format);
+        const writer = ds.writable.getWriter();
+        const reader = ds.readable.getReader();
 
-            writer.write(data as unknown as BufferSource);
-            writer.close();
+        writer.write(data as unknown as BufferSource).catch(() => {});
+        writer.close().catch(() => {});
 
-            const chunks: Uint8Array[] = [];
-            let totalLength = 0;
+        const chunks: Uint8Array[] = [];
+        let totalLength = 0;
 
+        try {
             while (true) {
                 const { done, value } = await reader.read();
                 if (done) break;
                 chunks.push(value);
                 totalLength += value.length;
             }
-
-            const result = new Uint8Array(totalLength);
-            let offset = 0;
-            for (const chunk of chunks) {
-                result.set(chunk, offset);
-                offset += chunk.length;
-            }
-
-            return result;
         } catch {
-            throw new Error('Failed to decompress');
+            // Streams padded or truncated after the compressed data still
+            // inflate up to that point; keep what was recovered
+            if (totalLength === 0) throw new Error('Failed to decompress');
         }
+
+        const result = new Uint8Array(totalLength);
+        let offset = 0;
+        for (const chunk of chunks) {
+            result.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        return result;
     }
 
     // ─── Private Helpers ───────────────────────────────────────
@@ -487,52 +423,6 @@ class FileService {
             reader.readAsText(file);
         });
     }
-
-    private _parseLatexSections(
-        latex: string
-    ): Array<{ title: string; items: string[] }> {
-        const sections: Array<{ title: string; items: string[] }> = [];
-        const sectionRegex = /\\section\{([^}]+)\}([\s\S]*?)(?=\\section\{|\\end\{document\}|$)/gi;
-        let match;
-
-        while ((match = sectionRegex.exec(latex)) !== null) {
-            const title = match[1].trim();
-            const body = match[2];
-
-            const items: string[] = [];
-            const itemRegex = /\\resumeItem\{([^}]+(?:\{[^}]*\}[^}]*)*)\}/g;
-            let itemMatch;
-            while ((itemMatch = itemRegex.exec(body)) !== null) {
-                const cleanText = itemMatch[1]
-                    .replace(/\\textbf\{([^}]*)\}/g, '$1')
-                    .replace(/\\emph\{([^}]*)\}/g, '$1')
-                    .replace(/\\href\{[^}]*\}\{([^}]*)\}/g, '$1')
-                    .replace(/\$\|?\$/g, '|')
-                    .replace(/\\\\/g, '')
-                    .trim();
-                if (cleanText) items.push(cleanText);
-            }
-
-            const subheadingRegex = /\\resumeSubheading\{([^}]*)\}\{([^}]*)\}\s*\{([^}]*)\}\{([^}]*)\}/g;
-            let subMatch;
-            while ((subMatch = subheadingRegex.exec(body)) !== null) {
-                items.unshift(`${subMatch[1]} – ${subMatch[3]} | ${subMatch[2]} | ${subMatch[4]}`);
-            }
-
-            if (items.length === 0) {
-                const rawText = body
-                    .replace(/\\[a-zA-Z]+\{/g, '')
-                    .replace(/\}/g, '')
-                    .replace(/\\\\/g, '')
-                    .trim();
-                if (rawText) items.push(rawText);
-            }
-
-            sections.push({ title, items });
-        }
-
-        return sections;
-    }
 }
 
 export const fileService = new FileService();
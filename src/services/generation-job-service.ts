@@ -0,0 +1,342 @@
+// ResumeForge AI – Generation Job Service
+// Background-owned AI jobs that keep running when the side panel closes.
+// The manager lives in the service worker; panels talk to it through a
+// chrome.runtime port via the client and reattach to jobs when reopened.
+
+import { aiService, type MultiAgentProgress, type StreamCallbacks } from './ai-service';
+import { StreamManager } from './stream-manager';
+import type { ChatMessage } from './storage-service';
+import { generateId, isAbortError } from '@/lib/utils';
+import type { FitReport } from '@/lib/fit-report';
+import type { TailoringChangelog } from '@/lib/tailoring-changelog';
+
+export const JOB_PORT_NAME = 'resumeforge-jobs';
+
+export type JobRequest =
+    | {
+        kind: 'tailor';
+        resumeLatex: string;
+        jobDescription: string;
+        knowledgeBase: string;
+        multiAgent: boolean;
+        // Resume a checkpointed multi-agent run from its failed step
+        resumeRunId?: string;
+    }
+    | {
+        kind: 'cover-letter';
+        jobDescription: string;
+        resumeLatex: string;
+        knowledgeBase: string;
+    }
+    | {
+        kind: 'chat';
+        // Conversation the reply belongs to
+        sessionId: string;
+        chatMessages: ChatMessage[];
+        systemPrompt: string;
+    };
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface GenerationJob {
+    id: string;
+    request: JobRequest;
+    status: JobStatus;
+    progress?: MultiAgentProgress;
+    partialText: string;
+    result?: string;
+    // What a tailoring run changed and why
+    changelog?: TailoringChangelog;
+    // How well the tailored resume fits the job, with ways to close the gaps
+    fitReport?: FitReport;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Messages sent from a panel to the background
+type ClientMessage =
+    | { type: 'JOB_START'; jobId: string; request: JobRequest }
+    | { type: 'JOB_CANCEL'; jobId: string }
+    | { type: 'JOB_DISMISS'; jobId: string }
+    | { type: 'JOB_LIST' };
+
+// Messages broadcast from the background to every connected panel
+export type JobEvent =
+    | { type: 'JOB_UPDATE'; job: GenerationJob }
+    | { type: 'JOB_TOKEN'; jobId: string; token: string }
+    | { type: 'JOB_LIST'; jobs: GenerationJob[] };
+
+// ─── Background Manager ──────────────────────────────────────
+class GenerationJobManager {
+    private storageKey = 'generation_jobs';
+    private maxJobs = 20;
+    private jobs = new Map<string, GenerationJob>();
+    private controllers = new Map<string, AbortController>();
+    private ports = new Set<chrome.runtime.Port>();
+    private restoring: Promise<void> | null = null;
+
+    // Load persisted jobs. Anything still "running" belonged to a worker that
+    // was shut down, so recover its partial output and mark it interrupted.
+    restore(): Promise<void> {
+        if (this.restoring) return this.restoring;
+
+        this.restoring = (async () => {
+            const result = await chrome.storage.local.get(this.storageKey);
+            const saved: GenerationJob[] = result[this.storageKey] || [];
+            const recovered: string[] = [];
+
+            for (const job of saved) {
+                if (job.status === 'running') {
+                    const recovery = await new StreamManager().recoverFromError(
+                        job.id,
+                        new Error('Background worker restarted')
+                    );
+                    job.status = 'interrupted';
+                    job.partialText = recovery.text || job.partialText;
+                    job.error = 'Generation was interrupted before it finished';
+                    job.updatedAt = Date.now();
+                    recovered.push(job.id);
+                }
+                this.jobs.set(job.id, job);
+            }
+            await this.persist();
+            // The recovered text now lives on the persisted job
+            const stream = new StreamManager();
+            await Promise.all(recovered.map((id) => stream.clearRecoveryBuffer(id)));
+        })();
+
+        return this.restoring;
+    }
+
+    attach(port: chrome.runtime.Port): void {
+        this.ports.add(port);
+        port.onDisconnect.addListener(() => this.ports.delete(port));
+
+        port.onMessage.addListener(async (message: ClientMessage) => {
+            await this.restore();
+            switch (message.type) {
+                case 'JOB_START':
+                    this.start(message.jobId, message.request);
+                    break;
+                case 'JOB_CANCEL':
+                    this.controllers.get(message.jobId)?.abort();
+                    break;
+                case 'JOB_DISMISS':
+                    this.jobs.delete(message.jobId);
+                    await this.persist();
+                    break;
+                case 'JOB_LIST':
+                    this.send(port, { type: 'JOB_LIST', jobs: this.list() });
+                    break;
+            }
+        });
+    }
+
+    list(): GenerationJob[] {
+        return [...this.jobs.values()].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    private start(jobId: string, request: JobRequest): void {
+        if (this.jobs.has(jobId)) return;
+
+        const job: GenerationJob = {
+            id: jobId,
+            request,
+            status: 'running',
+            partialText: '',
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+        };
+        this.jobs.set(jobId, job);
+        this.run(job);
+    }
+
+    private async run(job: GenerationJob): Promise<void> {
+        const controller = new AbortController();
+        this.controllers.set(job.id, controller);
+        const stream = new StreamManager();
+        await stream.startStream(job.id);
+
+        this.update(job, {});
+
+        const onToken = (token: string) => {
+            job.partialText += token;
+            stream.addToken(token, job.id).catch(() => {});
+            this.broadcast({ type: 'JOB_TOKEN', jobId: job.id, token });
+        };
+        const callbacks: StreamCallbacks = { onToken, onComplete: () => {}, onError: () => {} };
+
+        try {
+            const result = await this.execute(job.request, callbacks, controller.signal, (progress) =>
+                this.update(job, { progress })
+            );
+            let changelog: TailoringChangelog | undefined;
+            let fitReport: FitReport | undefined;
+            if (job.request.kind === 'tailor') {
+                const progress = job.progress ?? { step: 1, totalSteps: 1, message: '' };
+                this.update(job, { progress: { ...progress, message: 'Explaining changes...' } });
+                changelog = await aiService.generateTailoringChangelog(
+                    job.request.resumeLatex,
+                    result,
+                    job.request.jobDescription,
+                    controller.signal
+                );
+                // Reuse the multi-agent job analysis rather than discarding it
+                const analysis = progress.steps?.find((s) => s.id === 'analysis' && s.status === 'completed');
+                this.update(job, { progress: { ...progress, message: 'Checking job fit...' } });
+                fitReport = await aiService.generateFitReport(
+                    result,
+                    job.request.jobDescription,
+                    analysis?.output,
+                    controller.signal
+                );
+            }
+            await stream.completeStream(job.id);
+            this.update(job, { status: 'completed', result, changelog, fitReport });
+        } catch (error: any) {
+            await stream.interruptStream(job.id);
+            // The partial text is kept on the job, so the recovery buffer can go
+            await stream.clearRecoveryBuffer(job.id);
+            if (isAbortError(error, controller.signal)) {
+                this.update(job, { status: 'cancelled' });
+            } else {
+                this.update(job, { status: 'failed', error: error.message || 'Generation failed' });
+            }
+        } finally {
+            this.controllers.delete(job.id);
+        }
+    }
+
+    private async execute(
+        request: JobRequest,
+        callbacks: StreamCallbacks,
+        signal: AbortSignal,
+        onProgress: (progress: MultiAgentProgress) => void
+    ): Promise<string> {
+        await aiService.init();
+
+        switch (request.kind) {
+            case 'tailor':
+                if (request.multiAgent) {
+                    return aiService.generateTailoredResumeMultiAgent(
+                        request.resumeLatex,
+                        request.jobDescription,
+                        request.knowledgeBase,
+                        onProgress,
+                        signal,
+                        request.resumeRunId
+                    );
+                }
+                onProgress({ step: 1, totalSteps: 1, message: 'Tailoring resume...' });
+                return aiService.generateTailoredResume(
+                    request.resumeLatex,
+                    request.jobDescription,
+                    request.knowledgeBase,
+                    callbacks,
+                    signal
+                );
+            case 'cover-letter':
+                return aiService.generateCoverLetter(
+                    request.jobDescription,
+                    request.resumeLatex,
+                    request.knowledgeBase,
+                    callbacks,
+                    signal
+                );
+            case 'chat': {
+                let fullText = '';
+                const history = request.chatMessages.map((m) => ({
+                    role: m.role === 'user' ? ('user' as const) : ('model' as const),
+                    parts: [{ text: m.content }],
+                }));
+                await aiService.streamChat(history, request.systemPrompt, {
+                    onToken: callbacks.onToken,
+                    onComplete: (text) => { fullText = text; },
+                    onError: () => {},
+                }, signal);
+                return fullText;
+            }
+        }
+    }
+
+    private update(job: GenerationJob, changes: Partial<GenerationJob>): void {
+        Object.assign(job, changes, { updatedAt: Date.now() });
+        this.broadcast({ type: 'JOB_UPDATE', job });
+        this.persist();
+    }
+
+    private broadcast(event: JobEvent): void {
+        this.ports.forEach((port) => this.send(port, event));
+    }
+
+    private send(port: chrome.runtime.Port, event: JobEvent): void {
+        try {
+            port.postMessage(event);
+        } catch {
+            // Panel closed between the check and the post
+            this.ports.delete(port);
+        }
+    }
+
+    private async persist(): Promise<void> {
+        const jobs = this.list().slice(0, this.maxJobs);
+        await chrome.storage.local.set({ [this.storageKey]: jobs });
+    }
+}
+
+// ─── Panel Client ────────────────────────────────────────────
+class GenerationJobClient {
+    private port: chrome.runtime.Port | null = null;
+    private listeners = new Set<(event: JobEvent) => void>();
+
+    subscribe(listener: (event: JobEvent) => void): () => void {
+        this.listeners.add(listener);
+        this.connect();
+        return () => this.listeners.delete(listener);
+    }
+
+    start(request: JobRequest): string {
+        const jobId = generateId();
+        this.post({ type: 'JOB_START', jobId, request });
+        return jobId;
+    }
+
+    cancel(jobId: string): void {
+        this.post({ type: 'JOB_CANCEL', jobId });
+    }
+
+    dismiss(jobId: string): void {
+        this.post({ type: 'JOB_DISMISS', jobId });
+    }
+
+    // Ask the background for every known job; answered with a JOB_LIST event
+    refresh(): void {
+        this.post({ type: 'JOB_LIST' });
+    }
+
+    private connect(): chrome.runtime.Port {
+        if (this.port) return this.port;
+
+        const port = chrome.runtime.connect({ name: JOB_PORT_NAME });
+        port.onMessage.addListener((event: JobEvent) => {
+            this.listeners.forEach((listener) => listener(event));
+        });
+        // Chrome may restart the worker; reconnect and resync so listeners
+        // learn about jobs that were interrupted by the restart
+        port.onDisconnect.addListener(() => {
+            if (this.port !== port) return;
+            this.port = null;
+            if (this.listeners.size > 0) setTimeout(() => this.refresh(), 500);
+        });
+        this.port = port;
+        return port;
+    }
+
+    private post(message: ClientMessage): void {
+        this.connect().postMessage(message);
+    }
+}
+
+export const generationJobManager = new GenerationJobManager();
+export const generationJobClient = new GenerationJobClient();
@@ -2,6 +2,10 @@
 // GitHub API integration, LinkedIn data import, manual entry
 
 import { storageService, type GitHubRepo, type LinkedInProfile } from './storage-service';
+import type { KnowledgeSourceText } from '@/lib/fit-report';
+import type { KnowledgeSource } from '@/lib/tailoring-changelog';
+
+const SOURCE_DETAIL_LENGTH = 120;
 
 class KnowledgeBaseService {
     // ─── GitHub Import ─────────────────────────────────────────
@@ -169,6 +173,44 @@ class KnowledgeBaseService {
         return parts.join('\n');
     }
 
+    // ─── Sources for the Tailoring Changelog ───────────────────
+    // Every item a tailored bullet can draw on, with a short ID to cite
+    async listSources(): Promise<KnowledgeSource[]> {
+        return (await this.listSourceTexts()).map((s) => s.source);
+    }
+
+    // The same items with their full text, to search for skills
+    async listSourceTexts(): Promise<KnowledgeSourceText[]> {
+        const kb = await storageService.getKnowledgeBase();
+        const detail = (text: string) => text.replace(/\s+/g, ' ').trim().substring(0, SOURCE_DETAIL_LENGTH);
+
+        const sources: KnowledgeSourceText[] = kb.githubRepos.map((repo, i) => ({
+            source: {
+                id: `G${i + 1}`,
+                type: 'github',
+                name: repo.name,
+                detail: detail([repo.description, repo.languages.join(', ')].filter(Boolean).join(' · ')) || 'GitHub repository',
+            },
+            text: [repo.description, repo.languages.join(', '), repo.readme].filter(Boolean).join('\n'),
+        }));
+        kb.linkedInData?.experience.forEach((exp, i) => sources.push({
+            source: {
+                id: `L${i + 1}`,
+                type: 'linkedin',
+                name: `${exp.title} at ${exp.company}`,
+                detail: detail(`${exp.startDate} – ${exp.endDate}. ${exp.description}`),
+            },
+            text: `${exp.title}\n${exp.description}`,
+        }));
+        if (kb.manualText.trim()) {
+            sources.push({
+                source: { id: 'M1', type: 'manual', name: 'Additional information', detail: detail(kb.manualText) },
+                text: kb.manualText,
+            });
+        }
+        return sources;
+    }
+
     // ─── Private Helpers ───────────────────────────────────────
     private _parseLinkedInCSV(csv: string): any {
         // Very basic CSV parser for LinkedIn exports
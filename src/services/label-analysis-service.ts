@@ -2,6 +2,7 @@
 // Analyzes form answers and provides AI suggestions for improvement
 
 import { aiService } from './ai-service';
+import { answerAnalysisSchema, generateStructured } from './structured-output';
 
 export interface FormLabel {
   id: string;
@@ -63,47 +64,47 @@ Format as JSON:
   "suggestions": ["suggestion1", "suggestion2", "suggestion3"]
 }`;
 
-    let fullResponse = '';
+    // Stream each attempt so callers can show tokens; invalid JSON is sent
+    // back to the model with the validation error before giving up
+    try {
+      const parsed = await generateStructured({
+        prompt,
+        schema: answerAnalysisSchema,
+        generate: (attemptPrompt) =>
+          new Promise<string>((resolve, reject) => {
+            aiService
+              .streamChat(
+                [
+                  {
+                    role: 'user',
+                    parts: [{ text: attemptPrompt }],
+                  },
+                ],
+                'You are an expert at analyzing job application form answers and providing constructive feedback.',
+                {
+                  onToken: (token) => callbacks?.onToken?.(token),
+                  onComplete: resolve,
+                  onError: reject,
+                }
+              )
+              .catch(reject);
+          }),
+      });
 
-    return new Promise((resolve, reject) => {
-      aiService.streamChat(
-        [
-          {
-            role: 'user',
-            parts: [{ text: prompt }],
-          },
-        ],
-        'You are an expert at analyzing job application form answers and providing constructive feedback.',
-        {
-          onToken: (token) => {
-            fullResponse += token;
-            callbacks?.onToken?.(token);
-          },
-          onComplete: (text) => {
-            try {
-              const parsed = JSON.parse(text);
-              const answer: FormAnswer = {
-                labelName: label,
-                labelId: `label_${label}`,
-                value,
-                score: parsed.score,
-                feedback: parsed.feedback,
-                suggestions: parsed.suggestions,
-              };
-              resolve(answer);
-              callbacks?.onComplete?.(text);
-            } catch (error) {
-              reject(new Error('Failed to parse AI response'));
-              callbacks?.onError?.(error as Error);
-            }
-          },
-          onError: (error) => {
-            reject(error);
-            callbacks?.onError?.(error);
-          },
-        }
-      );
-    });
+      const answer: FormAnswer = {
+        labelName: label,
+        labelId: `label_${label}`,
+        value,
+        score: parsed.score,
+        feedback: parsed.feedback,
+        suggestions: parsed.suggestions,
+      };
+      callbacks?.onComplete?.(JSON.stringify(parsed));
+      return answer;
+    } catch (error) {
+      callbacks?.onError?.(error as Error);
+      throw error;
+    }
   }
 
   // Analyze entire form
@@ -144,7 +145,7 @@ Format as JSON:
           labelId: `label_${answers[i].label}`,
           value: answers[i].value,
           score: 0,
-          feedback: 'Analysis failed',
+          feedback: `Analysis failed: ${(error as Error).message}`,
           suggestions: [],
         });
       }
@@ -0,0 +1,215 @@
+// ResumeForge AI – LaTeX Compiler Service
+// Compiles LaTeX to PDF inside the extension with a WebAssembly pdfTeX engine
+// (SwiftLaTeX) running in a Worker. The remote compile server is only used
+// when the local engine is not installed and the user has agreed to upload.
+
+import { storageService } from './storage-service';
+import { createAbortError, throwIfAborted } from '@/lib/utils';
+
+const REMOTE_COMPILE_URL = 'https://agentex.onrender.com/compile';
+const ENGINE_SCRIPT = 'engines/swiftlatexpdftex.js';
+// TeX Live files the engine requests on demand (.sty, .cls, fonts)
+const TEXLIVE_DIR = 'engines/texlive/';
+const MAIN_FILE = 'main.tex';
+
+export type CompileBackend = 'local' | 'remote';
+
+export interface CompileResult {
+    pdf: Blob;
+    backend: CompileBackend;
+    log?: string;
+}
+
+// The document itself failed to compile; retrying elsewhere won't help
+export class LatexCompileError extends Error {
+    constructor(message: string, public log: string) {
+        super(message);
+        this.name = 'LatexCompileError';
+    }
+}
+
+// The local engine is missing or could not start
+export class CompilerUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CompilerUnavailableError';
+    }
+}
+
+// ─── Local Engine ────────────────────────────────────────────
+// Message protocol of SwiftLaTeX's swiftlatexpdftex.js worker
+interface EngineMessage {
+    result: 'ok' | 'failed';
+    cmd?: string;
+    log?: string;
+    status?: number;
+    pdf?: ArrayBuffer;
+}
+
+class LocalTexEngine {
+    private worker: Worker | null = null;
+    private loading: Promise<void> | null = null;
+
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = new Promise<void>((resolve, reject) => {
+                // Service workers can't start workers; only pages and the
+                // offscreen document can run the engine
+                if (typeof Worker === 'undefined') {
+                    throw new CompilerUnavailableError('Local TeX engine needs a page to run in');
+                }
+                const worker = new Worker(chrome.runtime.getURL(ENGINE_SCRIPT));
+                worker.onmessage = (ev: MessageEvent<EngineMessage>) => {
+                    if (ev.data.result === 'ok') {
+                        this.worker = worker;
+                        worker.postMessage({ cmd: 'settexliveurl', url: chrome.runtime.getURL(TEXLIVE_DIR) });
+                        resolve();
+                    } else {
+                        worker.terminate();
+                        reject(new CompilerUnavailableError('Local TeX engine failed to start'));
+                    }
+                };
+                worker.onerror = () => {
+                    worker.terminate();
+                    reject(new CompilerUnavailableError('Local TeX engine could not be loaded'));
+                };
+            }).catch((error) => {
+                this.loading = null;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+
+    async compile(latex: string, signal?: AbortSignal): Promise<{ pdf: ArrayBuffer; log: string }> {
+        await this.load();
+        const worker = this.worker!;
+
+        return new Promise((resolve, reject) => {
+            // pdfTeX can't be interrupted mid-run; restart the worker instead
+            const onAbort = () => {
+                this.reset();
+                reject(createAbortError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            worker.onmessage = (ev: MessageEvent<EngineMessage>) => {
+                if (ev.data.cmd !== 'compile') return;
+                signal?.removeEventListener('abort', onAbort);
+                const log = ev.data.log || '';
+                if (ev.data.result === 'ok' && ev.data.pdf) {
+                    resolve({ pdf: ev.data.pdf, log });
+                } else {
+                    reject(new LatexCompileError(summarizeLog(log) || 'LaTeX compilation failed', log));
+                }
+            };
+
+            worker.postMessage({ cmd: 'writefile', url: MAIN_FILE, src: latex });
+            worker.postMessage({ cmd: 'setmainfile', url: MAIN_FILE });
+            worker.postMessage({ cmd: 'compilelatex' });
+        });
+    }
+
+    reset() {
+        this.worker?.terminate();
+        this.worker = null;
+        this.loading = null;
+    }
+}
+
+// First "! ..." error of a TeX log, with the line it points at
+function summarizeLog(log: string): string {
+    const lines = log.split('\n');
+    const index = lines.findIndex((line) => line.startsWith('!'));
+    if (index === -1) return '';
+    const location = lines.slice(index + 1, index + 4).find((line) => /^l\.\d+/.test(line));
+    return [lines[index].slice(1).trim(), location?.match(/^l\.(\d+)/)?.[0].replace('l.', 'line ')]
+        .filter(Boolean)
+        .join(' – ');
+}
+
+// ─── Service ─────────────────────────────────────────────────
+class LatexCompilerService {
+    private engine = new LocalTexEngine();
+    private engineInstalled: boolean | null = null;
+    // One pdfTeX run at a time; the engine keeps a single main file
+    private queue: Promise<unknown> = Promise.resolve();
+
+    async isLocalEngineInstalled(): Promise<boolean> {
+        if (this.engineInstalled === null) {
+            try {
+                const response = await fetch(chrome.runtime.getURL(ENGINE_SCRIPT), { method: 'HEAD' });
+                this.engineInstalled = response.ok;
+            } catch {
+                this.engineInstalled = false;
+            }
+        }
+        return this.engineInstalled;
+    }
+
+    // The user has not yet been asked whether the resume may be uploaded
+    async needsRemoteConsent(): Promise<boolean> {
+        const settings = await storageService.getSettings();
+        return settings.remoteCompileFallback === undefined && !(await this.isLocalEngineInstalled());
+    }
+
+    async setRemoteFallback(allowed: boolean): Promise<void> {
+        await storageService.saveSettings({ remoteCompileFallback: allowed });
+    }
+
+    compile(latex: string, signal?: AbortSignal): Promise<CompileResult> {
+        return this._enqueue(async () => {
+            // Nothing leaves the device until the user opts in
+            const settings = await storageService.getSettings();
+            return this._compile(latex, settings.remoteCompileFallback === true, signal);
+        });
+    }
+
+    // Never uploads; for background measurements the user didn't ask for
+    compileLocally(latex: string, signal?: AbortSignal): Promise<CompileResult> {
+        return this._enqueue(() => this._compile(latex, false, signal));
+    }
+
+    private _enqueue(task: () => Promise<CompileResult>): Promise<CompileResult> {
+        const run = this.queue.catch(() => {}).then(task);
+        this.queue = run;
+        return run;
+    }
+
+    private async _compile(latex: string, allowRemote: boolean, signal?: AbortSignal): Promise<CompileResult> {
+        throwIfAborted(signal);
+
+        if (await this.isLocalEngineInstalled()) {
+            try {
+                const { pdf, log } = await this.engine.compile(latex, signal);
+                return { pdf: new Blob([pdf], { type: 'application/pdf' }), backend: 'local', log };
+            } catch (error) {
+                if (!(error instanceof CompilerUnavailableError) || !allowRemote) throw error;
+                console.warn('[LatexCompiler] Local engine unavailable, using remote server:', error.message);
+            }
+        } else if (!allowRemote) {
+            throw new CompilerUnavailableError(
+                'The offline LaTeX engine is not installed and remote compilation is not allowed. Turn on Remote Compile Fallback in Settings to upload the resume for compiling.'
+            );
+        }
+
+        return { pdf: await this._compileRemote(latex, signal), backend: 'remote' };
+    }
+
+    private async _compileRemote(latex: string, signal?: AbortSignal): Promise<Blob> {
+        const response = await fetch(REMOTE_COMPILE_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ latex }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new Error(`LaTeX compilation failed (HTTP ${response.status})`);
+        }
+
+        return response.blob();
+    }
+}
+
+export const latexCompilerService = new LatexCompilerService();
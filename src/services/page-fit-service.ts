@@ -0,0 +1,59 @@
+// ResumeForge AI – Page Fit Service
+// Measures how many pages a resume fills: the page count of a PDF compiled by
+// the offline engine when it is installed, otherwise the line-budget estimate.
+// Measuring never uses the remote compile server, so fit rounds don't upload.
+
+import { fileService } from './file-service';
+import { latexCompilerService } from './latex-compiler-service';
+import { estimatePages, type PageEstimate } from '@/lib/page-fit';
+import { throwIfAborted } from '@/lib/utils';
+
+// Message the offscreen document answers with { pages } or { error }
+export const MEASURE_PDF_PAGES = 'MEASURE_PDF_PAGES';
+const OFFSCREEN_DOCUMENT = 'offscreen.html';
+
+class PageFitService {
+    private creatingOffscreen: Promise<void> | null = null;
+
+    async measure(latex: string, signal?: AbortSignal): Promise<PageEstimate> {
+        try {
+            if (await latexCompilerService.isLocalEngineInstalled()) {
+                // The tailoring pipeline runs in the service worker, which has no
+                // Worker to start the engine in; an offscreen document does
+                const pages = typeof Worker === 'undefined'
+                    ? await this._countOffscreen(latex)
+                    : await fileService.countPdfPages((await latexCompilerService.compileLocally(latex, signal)).pdf);
+                throwIfAborted(signal);
+                if (pages > 0) return { pages, source: 'pdf' };
+            }
+        } catch (error: any) {
+            if (signal?.aborted) throw error;
+            console.warn('[PageFit] Could not compile, estimating from the line budget:', error.message);
+        }
+        return estimatePages(latex);
+    }
+
+    private async _countOffscreen(latex: string): Promise<number> {
+        await this._ensureOffscreen();
+        const response = await chrome.runtime.sendMessage({ type: MEASURE_PDF_PAGES, latex });
+        if (!response || response.error) throw new Error(response?.error || 'Offscreen document did not respond');
+        return response.pages;
+    }
+
+    private async _ensureOffscreen(): Promise<void> {
+        if (await chrome.offscreen.hasDocument()) return;
+        // Concurrent measurements share one createDocument call
+        if (!this.creatingOffscreen) {
+            this.creatingOffscreen = chrome.offscreen.createDocument({
+                url: OFFSCREEN_DOCUMENT,
+                reasons: [chrome.offscreen.Reason.WORKERS],
+                justification: 'Run the offline TeX engine to count the pages of a tailored resume',
+            }).finally(() => {
+                this.creatingOffscreen = null;
+            });
+        }
+        await this.creatingOffscreen;
+    }
+}
+
+export const pageFitService = new PageFitService();
@@ -0,0 +1,57 @@
+// ResumeForge AI – Pipeline Checkpoint Service
+// Persists each multi-agent step's output by run ID so a failed run can
+// resume from the step that failed instead of starting over.
+
+import type { PipelineDefinition, PipelineInput, PipelineStepState } from './tailoring-pipeline';
+
+export interface PipelineCheckpoint {
+    runId: string;
+    definition: PipelineDefinition;
+    input: PipelineInput;
+    vars: Record<string, string>;
+    steps: PipelineStepState[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+class PipelineCheckpointService {
+    private storageKey = 'pipeline_checkpoints';
+    private maxCheckpoints = 5;
+    private maxAge = 24 * 60 * 60 * 1000; // 24 hours
+    // Parallel steps finish together; serialize writes so none are lost
+    private writing: Promise<void> = Promise.resolve();
+
+    async get(runId: string): Promise<PipelineCheckpoint | null> {
+        const checkpoints = await this.getAll();
+        return checkpoints.find((c) => c.runId === runId) || null;
+    }
+
+    save(checkpoint: PipelineCheckpoint): Promise<void> {
+        return this.write((checkpoints) => [
+            { ...checkpoint, updatedAt: Date.now() },
+            ...checkpoints.filter((c) => c.runId !== checkpoint.runId),
+        ]);
+    }
+
+    remove(runId: string): Promise<void> {
+        return this.write((checkpoints) => checkpoints.filter((c) => c.runId !== runId));
+    }
+
+    private async getAll(): Promise<PipelineCheckpoint[]> {
+        const result = await chrome.storage.local.get(this.storageKey);
+        const cutoff = Date.now() - this.maxAge;
+        return ((result[this.storageKey] || []) as PipelineCheckpoint[]).filter((c) => c.updatedAt > cutoff);
+    }
+
+    private write(change: (checkpoints: PipelineCheckpoint[]) => PipelineCheckpoint[]): Promise<void> {
+        this.writing = this.writing
+            .catch(() => {})
+            .then(async () => {
+                const updated = change(await this.getAll()).slice(0, this.maxCheckpoints);
+                await chrome.storage.local.set({ [this.storageKey]: updated });
+            });
+        return this.writing;
+    }
+}
+
+export const pipelineCheckpointService = new PipelineCheckpointService();
@@ -33,6 +33,21 @@ Job Description:
 Knowledge Base:
 {knowledgeBase}`;
 
+// ─── Tailoring Constraints ───────────────────────────────────
+// Appended to every prompt that rewrites resume content, including user
+// overrides, so intensity and section locks always reach the model
+export const TAILORING_INTENSITY_GUIDANCE = {
+    light: 'LIGHT: Keep the original wording wherever possible. Only reorder bullets, swap in JD keywords and fix phrasing. Do not replace projects or add new bullets.',
+    moderate: 'MODERATE: Rewrite bullets to align with the JD and replace weak projects with stronger matches from the knowledge base, keeping the overall structure and length.',
+    aggressive: 'AGGRESSIVE: Freely rewrite, reorder and replace content to maximize alignment with the JD, drawing heavily on the knowledge base. Stay truthful to the source material.',
+} as const;
+
+export const TAILORING_CONSTRAINTS_PROMPT = `## Tailoring Constraints
+Intensity: {intensityGuidance}
+
+Locked sections (copy these byte-for-byte, do not edit, move or remove them):
+{lockedSections}`;
+
 // ─── Multi-Agent Prompts ─────────────────────────────────────
 export const JOB_ANALYSIS_PROMPT = `Analyze the job description and knowledge base. Return ONLY a JSON object:
 {
@@ -73,6 +88,11 @@ Job Description:
 
 Required Technologies: {requiredTechnologies}
 
+Job Skills by Category (canonical names):
+{skillsByCategory}
+
+Use these canonical names and categories. List each skill once, never under two spellings (e.g. "JS" and "JavaScript").
+
 Return ONLY the enhanced skills section in LaTeX format.`;
 
 export const EXPERIENCE_REFINEMENT_PROMPT = `Refine experience descriptions to align with job requirements. Use action verbs and metrics. Maintain LaTeX formatting.
@@ -108,8 +128,12 @@ Job Description:
 Analysis:
 {analysisJSON}
 
+Job Skills by Category (canonical names):
+{skillsByCategory}
+
 Requirements:
 - Use the analysis to guide your rewriting.
+- In the Skills section, use the canonical skill names and categories above and list each skill once.
 - Maintain LaTeX syntax exactly.
 - Return ONLY valid JSON.
 `;
@@ -128,6 +152,25 @@ Job Description:
 
 Return ONLY the complete LaTeX resume code.`;
 
+export const PAGE_FIT_PROMPT = `The resume below runs to {pageCount}; it must fit on {targetPages}. Shorten or remove the bullets least relevant to the job until it fits.
+
+Least relevant bullets first:
+{trimCandidates}
+
+Rules:
+- Tighten wordy bullets before removing strong ones; remove whole bullets only when needed.
+- Keep every section, entry heading and date.
+- Do not add content, and do not shrink fonts, margins or spacing.
+- Maintain LaTeX formatting exactly.
+
+Job Description:
+{jobDesc}
+
+Resume:
+{currentLatex}
+
+Return ONLY the complete LaTeX resume code.`;
+
 // ─── Chat Conversation ──────────────────────────────────────
 export const CHAT_SYSTEM_PROMPT = `You are ResumeForge AI, an expert resume tailoring assistant. You help users optimize their resumes for specific job descriptions.
 
@@ -236,6 +279,42 @@ Knowledge Base:
 
 Provide ONLY the answer text.`;
 
+// ─── Tailoring Changelog ─────────────────────────────────────
+export const TAILORING_CHANGELOG_PROMPT = `Explain the changes made while tailoring a resume to the job description below. Each numbered change shows the original text (-) and the tailored text (+).
+
+For every change return:
+- "change": its number
+- "summary": one short sentence on what changed, e.g. "Led with the Kubernetes migration and added its scale"
+- "requirement": the job requirement it targets, quoted or closely paraphrased from the job description; "" if it targets none
+- "sourceId": the ID of the knowledge source the new content came from; "resume" if it only rephrases the original resume; "" if no source supports it
+
+Only cite a source whose content actually supports the change. Return ONLY a JSON object:
+{"changes": [{"change": 0, "summary": "...", "requirement": "...", "sourceId": "..."}]}
+
+Knowledge Sources:
+{sources}
+
+Job Description:
+{jobDesc}
+
+Changes:
+{changes}`;
+
+// ─── Job Fit Gaps ────────────────────────────────────────────
+export const FIT_GAP_PROMPT = `A candidate is missing some requirements of the job description below. For each numbered gap, suggest one small, concrete project the candidate could build in a weekend or two to close it. Build on the candidate's existing skills from the resume where possible, and name what to ship, e.g. "Add Redis caching to your Flask API and measure the latency drop".
+
+Return ONLY a JSON object:
+{"ideas": [{"gap": 0, "idea": "..."}]}
+
+Job Description:
+{jobDesc}
+
+Resume:
+{resume}
+
+Gaps:
+{gaps}`;
+
 // ─── Resume → Profile Extraction ─────────────────────────────
 export const RESUME_PROFILE_EXTRACT_PROMPT = `Extract personal details from the following resume text. Return ONLY a valid JSON object with these fields (use empty string "" if not found):
 
@@ -278,3 +357,17 @@ Rules:
 
 Best matching option:`;
 
+
+// ─── Structured Output Retry ─────────────────────────────────
+export const STRUCTURED_OUTPUT_RETRY_PROMPT = `{originalPrompt}
+
+---
+Your previous response could not be used.
+
+Previous response:
+{previousResponse}
+
+Problem:
+{validationError}
+
+Reply again with ONLY the corrected JSON object. No explanations, no markdown code fences.`;
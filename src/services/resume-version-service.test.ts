@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory chrome.storage.local
+function stubStorage(initial: Record<string, unknown>) {
+    const data: Record<string, unknown> = { ...initial };
+    const pick = (keys: string | string[]) =>
+        Object.fromEntries((Array.isArray(keys) ? keys : [keys]).filter((k) => k in data).map((k) => [k, data[k]]));
+    vi.stubGlobal('chrome', {
+        storage: {
+            local: {
+                get: async (keys: string | string[]) => structuredClone(pick(keys)),
+                set: async (items: Record<string, unknown>) => void Object.assign(data, structuredClone(items)),
+                remove: async (keys: string | string[]) => void [keys].flat().forEach((k) => delete data[k]),
+            },
+        },
+    });
+    return data;
+}
+
+const legacyEntry = (id: string, createdAt: number) => ({
+    id,
+    company: 'Acme',
+    position: 'Engineer',
+    originalLatex: 'original',
+    tailoredLatex: `tailored ${id}`,
+    jobDescription: 'Engineer at Acme',
+    createdAt,
+});
+
+describe('resumeVersionService', () => {
+    beforeEach(() => vi.resetModules());
+
+    it('moves the legacy history into versions and the resume library once', async () => {
+        const data = stubStorage({ resumeHistory: [legacyEntry('b', 2), legacyEntry('a', 1)] });
+        const { resumeVersionService } = await import('./resume-version-service');
+
+        const [first, second] = await Promise.all([resumeVersionService.getAll(), resumeVersionService.getAll()]);
+
+        expect(first).toBe(second);
+        expect(first.map((v) => [v.kind, v.latex])).toEqual([
+            ['tailored', 'tailored b'],
+            ['tailored', 'tailored a'],
+            ['original', 'original'],
+        ]);
+        expect(data.resumeHistory).toBeUndefined();
+        expect((data.resumeLibrary as { resumes: { latex: string }[] }).resumes.map((r) => r.latex)).toEqual(['original']);
+    });
+
+    it('merges the legacy history into versions saved after the upgrade', async () => {
+        stubStorage({
+            resumeHistory: [legacyEntry('a', 1)],
+            resumeVersions: [{ id: 'new', kind: 'original', parentId: null, label: 'New', latex: 'new', jobDescription: '', applicationIds: [], createdAt: 5, updatedAt: 5 }],
+        });
+        const { resumeVersionService } = await import('./resume-version-service');
+
+        const versions = await resumeVersionService.getAll();
+
+        expect(versions.map((v) => v.id)).toContain('a');
+        expect(versions[0].id).toBe('new');
+    });
+
+    it('saves editor changes to the tailored version and its original', async () => {
+        stubStorage({});
+        const { resumeVersionService } = await import('./resume-version-service');
+        const tailored = await resumeVersionService.saveTailored({ originalLatex: 'original', latex: 'tailored', jobDescription: 'Job' });
+
+        await resumeVersionService.saveEdits(tailored.id, 'tailored edited', 'original edited');
+
+        const versions = await resumeVersionService.getAll();
+        expect(versions.find((v) => v.id === tailored.id)?.latex).toBe('tailored edited');
+        expect(versions.find((v) => v.id === tailored.parentId)?.latex).toBe('original edited');
+    });
+});
@@ -0,0 +1,261 @@
+// ResumeForge AI – Resume Version Service
+// Every tailoring run is stored as a version derived from the original it
+// started from, with a label, the job description it targeted and the
+// applications it was sent with. Versions form a tree through parentId.
+
+import { storageService } from './storage-service';
+import { generateId } from '@/lib/utils';
+import type { FitReport } from '@/lib/fit-report';
+import type { TailoringChangelog } from '@/lib/tailoring-changelog';
+
+export type ResumeVersionKind = 'original' | 'tailored';
+
+export interface ResumeVersion {
+    id: string;
+    kind: ResumeVersionKind;
+    // Version this one was derived from; null for originals
+    parentId: string | null;
+    label: string;
+    latex: string;
+    jobDescription: string;
+    applicationIds: string[];
+    // What the tailoring run changed and why; tailored versions only
+    changelog?: TailoringChangelog;
+    // How well it fits the job description; tailored versions only
+    fitReport?: FitReport;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface TailoredVersionInput {
+    originalLatex: string;
+    latex: string;
+    jobDescription: string;
+    changelog?: TailoringChangelog;
+    fitReport?: FitReport;
+    label?: string;
+    originalLabel?: string;
+}
+
+// Flat entries written before versions existed
+interface LegacyResumeHistory {
+    id: string;
+    company: string;
+    position: string;
+    originalLatex: string;
+    tailoredLatex: string;
+    jobDescription: string;
+    createdAt: number;
+}
+
+class ResumeVersionService {
+    private storageKey = 'resumeVersions';
+    private legacyKey = 'resumeHistory';
+    private maxVersions = 200;
+    // Debounced editor saves can overlap a new run; serialize writes
+    private writing: Promise<void> = Promise.resolve();
+    private migrating: Promise<ResumeVersion[]> | null = null;
+
+    // Newest first
+    async getAll(): Promise<ResumeVersion[]> {
+        const result = await chrome.storage.local.get([this.storageKey, this.legacyKey]);
+        if (result[this.legacyKey]) {
+            if (!this.migrating) {
+                this.migrating = this.migrate(result[this.legacyKey], result[this.storageKey] || []);
+            }
+            return this.migrating;
+        }
+        return result[this.storageKey] || [];
+    }
+
+    async get(id: string): Promise<ResumeVersion | null> {
+        const versions = await this.getAll();
+        return versions.find((v) => v.id === id) || null;
+    }
+
+    async getForApplication(applicationId: string): Promise<ResumeVersion[]> {
+        const versions = await this.getAll();
+        return versions.filter((v) => v.applicationIds.includes(applicationId));
+    }
+
+    // Store a tailoring result under its original, reusing an identical original
+    async saveTailored(input: TailoredVersionInput): Promise<ResumeVersion> {
+        const now = Date.now();
+        const tailored: ResumeVersion = {
+            id: generateId(),
+            kind: 'tailored',
+            parentId: null,
+            label: input.label?.trim() || this.labelFromJob(input.jobDescription),
+            latex: input.latex,
+            jobDescription: input.jobDescription,
+            applicationIds: [],
+            changelog: input.changelog,
+            fitReport: input.fitReport,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.write((versions) => {
+            let original = versions.find((v) => v.kind === 'original' && v.latex === input.originalLatex);
+            if (!original) {
+                original = {
+                    id: generateId(),
+                    kind: 'original',
+                    parentId: null,
+                    label: input.originalLabel?.trim() || 'Original resume',
+                    latex: input.originalLatex,
+                    jobDescription: '',
+                    applicationIds: [],
+                    createdAt: now,
+                    updatedAt: now,
+                };
+                versions = [original, ...versions];
+            }
+            tailored.parentId = original.id;
+            return [tailored, ...versions];
+        });
+        return tailored;
+    }
+
+    update(id: string, updates: Partial<Pick<ResumeVersion, 'label' | 'latex' | 'jobDescription'>>): Promise<void> {
+        return this.write((versions) =>
+            versions.map((v) => (v.id === id ? { ...v, ...updates, updatedAt: Date.now() } : v))
+        );
+    }
+
+    // Editor saves cover both sides of a tailored version: it and its original
+    saveEdits(id: string, latex: string, originalLatex: string): Promise<void> {
+        return this.write((versions) => {
+            const parentId = versions.find((v) => v.id === id)?.parentId;
+            return versions.map((v) => {
+                if (v.id === id && v.latex !== latex) return { ...v, latex, updatedAt: Date.now() };
+                if (v.id === parentId && v.latex !== originalLatex) return { ...v, latex: originalLatex, updatedAt: Date.now() };
+                return v;
+            });
+        });
+    }
+
+    // Children of a deleted version move up to its parent
+    remove(id: string): Promise<void> {
+        return this.write((versions) => {
+            const removed = versions.find((v) => v.id === id);
+            return versions
+                .filter((v) => v.id !== id)
+                .map((v) => (v.parentId === id ? { ...v, parentId: removed?.parentId ?? null } : v));
+        });
+    }
+
+    linkApplication(id: string, applicationId: string): Promise<void> {
+        return this.write((versions) =>
+            versions.map((v) =>
+                v.id === id && !v.applicationIds.includes(applicationId)
+                    ? { ...v, applicationIds: [...v.applicationIds, applicationId], updatedAt: Date.now() }
+                    : v
+            )
+        );
+    }
+
+    unlinkApplication(id: string, applicationId: string): Promise<void> {
+        return this.write((versions) =>
+            versions.map((v) =>
+                v.id === id
+                    ? { ...v, applicationIds: v.applicationIds.filter((a) => a !== applicationId), updatedAt: Date.now() }
+                    : v
+            )
+        );
+    }
+
+    // A deleted application no longer pins the versions it was sent with
+    forgetApplication(applicationId: string): Promise<void> {
+        return this.write((versions) =>
+            versions.map((v) =>
+                v.applicationIds.includes(applicationId)
+                    ? { ...v, applicationIds: v.applicationIds.filter((a) => a !== applicationId), updatedAt: Date.now() }
+                    : v
+            )
+        );
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────
+    private labelFromJob(jobDescription: string): string {
+        const firstLine = jobDescription.split('\n').map((line) => line.trim()).find(Boolean);
+        return firstLine ? firstLine.slice(0, 60) : 'Tailored resume';
+    }
+
+    private write(change: (versions: ResumeVersion[]) => ResumeVersion[]): Promise<void> {
+        this.writing = this.writing
+            .catch(() => {})
+            .then(async () => {
+                const updated = this.trim(change(await this.getAll()));
+                await chrome.storage.local.set({ [this.storageKey]: updated });
+            });
+        return this.writing;
+    }
+
+    // Over the limit, drop the oldest versions that no application or
+    // remaining version depends on
+    private trim(versions: ResumeVersion[]): ResumeVersion[] {
+        let kept = versions;
+        for (let i = kept.length - 1; i >= 0 && kept.length > this.maxVersions; i--) {
+            const version = kept[i];
+            const isParent = kept.some((v) => v.parentId === version.id);
+            if (version.applicationIds.length === 0 && !isParent) kept = kept.filter((v) => v !== version);
+        }
+        return kept;
+    }
+
+    // One-time move of the flat history into versions, merged with any
+    // versions already saved. The newest original also seeds an empty
+    // resume library, which replaced the history as the starting point.
+    private async migrate(legacy: LegacyResumeHistory[], existing: ResumeVersion[]): Promise<ResumeVersion[]> {
+        const versions: ResumeVersion[] = [...existing];
+        // Oldest first, so the first run from an original creates it
+        for (const entry of [...legacy].reverse()) {
+            if (versions.some((v) => v.id === entry.id)) continue;
+            let original = versions.find((v) => v.kind === 'original' && v.latex === entry.originalLatex);
+            if (!original) {
+                original = {
+                    id: generateId(),
+                    kind: 'original',
+                    parentId: null,
+                    label: 'Original resume',
+                    latex: entry.originalLatex,
+                    jobDescription: '',
+                    applicationIds: [],
+                    createdAt: entry.createdAt,
+                    updatedAt: entry.createdAt,
+                };
+                versions.unshift(original);
+            }
+            versions.unshift({
+                id: entry.id,
+                kind: 'tailored',
+                parentId: original.id,
+                label: entry.position ? `${entry.position} @ ${entry.company}` : this.labelFromJob(entry.jobDescription),
+                latex: entry.tailoredLatex,
+                jobDescription: entry.jobDescription,
+                applicationIds: [],
+                createdAt: entry.createdAt,
+                updatedAt: entry.createdAt,
+            });
+        }
+        versions.sort((a, b) => b.createdAt - a.createdAt);
+        await chrome.storage.local.set({ [this.storageKey]: versions });
+
+        const newest = legacy.find((entry) => entry.originalLatex);
+        if (newest && (await storageService.getResumeLibrary()).resumes.length === 0) {
+            await storageService.saveBaseResume({
+                id: generateId(),
+                name: 'My resume',
+                tags: [],
+                latex: newest.originalLatex,
+                createdAt: newest.createdAt,
+                updatedAt: newest.createdAt,
+            });
+        }
+        await chrome.storage.local.remove(this.legacyKey);
+        return versions;
+    }
+}
+
+export const resumeVersionService = new ResumeVersionService();
@@ -1,12 +1,45 @@
 // ResumeForge AI – Storage Service
 // Typed wrapper around chrome.storage for all persistent data
 
+import type { DocxTemplateId } from '@/lib/resume-docx';
+import type { CustomSkill } from '@/lib/skills-taxonomy';
+import type { LintRuleId } from '@/lib/resume-lint';
+
+export type AIProviderId = 'gemini' | 'groq' | 'openai' | 'ollama';
+export type PipelineSection = 'projects' | 'skills' | 'experience';
+// combined: one drafting call for every section; sequential/parallel: one
+// call per section using the per-section prompts
+export type PipelineMode = 'combined' | 'sequential' | 'parallel';
+export type TailoringIntensity = 'light' | 'moderate' | 'aggressive';
+
 export interface UserSettings {
     geminiApiKey: string;
     groqApiKey: string;
-    aiProvider: 'gemini' | 'groq';
+    aiProvider: AIProviderId;
+    geminiModel?: string;
+    groqModel?: string;
+    openaiBaseUrl?: string;
+    openaiApiKey?: string;
+    openaiModel?: string;
+    ollamaBaseUrl?: string;
+    ollamaModel?: string;
     multiAgentMode: boolean;
+    pipelineSections?: PipelineSection[];
+    pipelineMode?: PipelineMode;
+    tailoringIntensity?: TailoringIntensity;
+    // Section lock keys (see lib/section-locks) the AI must leave untouched
+    lockedSections?: string[];
+    // Trim the tailored resume to this many pages as a final pipeline step; unset is off
+    pageFitTarget?: number;
+    // User additions to the skills taxonomy (see lib/skills-taxonomy)
+    customSkills?: CustomSkill[];
+    // Resume lint rules switched off; every other rule runs
+    disabledLintRules?: LintRuleId[];
     deepAnalysis: boolean;
+    // Use the remote compile server when the offline TeX engine is missing;
+    // unset until the user is first asked, which counts as not allowed
+    remoteCompileFallback?: boolean;
+    docxTemplate?: DocxTemplateId;
     theme: 'light' | 'dark' | 'system';
     customPrompt?: string;
     jobAnalysisPrompt?: string;
@@ -77,14 +110,20 @@ export interface ChatSession {
     updatedAt: number;
 }
 
-export interface ResumeHistory {
+// A named starting resume in the library (e.g. backend, data, ML)
+export interface BaseResume {
     id: string;
-    company: string;
-    position: string;
-    originalLatex: string;
-    tailoredLatex: string;
-    jobDescription: string;
+    name: string;
+    tags: string[];
+    latex: string;
+    fileName?: string;
     createdAt: number;
+    updatedAt: number;
+}
+
+export interface ResumeLibrary {
+    resumes: BaseResume[];
+    defaultId: string | null;
 }
 
 export interface UserProfile {
@@ -214,16 +253,35 @@ class StorageService {
         });
     }
 
-    // ─── Resume History ────────────────────────────────────────
-    async getResumeHistory(): Promise<ResumeHistory[]> {
-        const result = await chrome.storage.local.get('resumeHistory');
-        return result.resumeHistory || [];
+    // ─── Resume Library ────────────────────────────────────────
+    async getResumeLibrary(): Promise<ResumeLibrary> {
+        const result = await chrome.storage.local.get('resumeLibrary');
+        return { resumes: [], defaultId: null, ...result.resumeLibrary };
+    }
+
+    async saveBaseResume(resume: BaseResume): Promise<void> {
+        const library = await this.getResumeLibrary();
+        const idx = library.resumes.findIndex((r) => r.id === resume.id);
+        if (idx >= 0) {
+            library.resumes[idx] = { ...resume, updatedAt: Date.now() };
+        } else {
+            library.resumes.push(resume);
+        }
+        // The first base resume becomes the default
+        if (!library.defaultId) library.defaultId = resume.id;
+        await chrome.storage.local.set({ resumeLibrary: library });
+    }
+
+    async deleteBaseResume(id: string): Promise<void> {
+        const library = await this.getResumeLibrary();
+        const resumes = library.resumes.filter((r) => r.id !== id);
+        const defaultId = library.defaultId === id ? resumes[0]?.id ?? null : library.defaultId;
+        await chrome.storage.local.set({ resumeLibrary: { resumes, defaultId } });
     }
 
-    async addResumeHistory(entry: ResumeHistory): Promise<void> {
-        const history = await this.getResumeHistory();
-        history.unshift(entry);
-        await chrome.storage.local.set({ resumeHistory: history.slice(0, 100) });
+    async setDefaultBaseResume(id: string): Promise<void> {
+        const library = await this.getResumeLibrary();
+        await chrome.storage.local.set({ resumeLibrary: { ...library, defaultId: id } });
     }
 
     // ─── App State ─────────────────────────────────────────────
@@ -20,7 +20,7 @@ export type StreamProgressCallback = (progress: {
   currentText: string;
 }) => void;
 
-class StreamManager {
+export class StreamManager {
   private streamState: StreamState = {
     isActive: false,
     buffer: [],
@@ -179,7 +179,8 @@ class StreamManager {
     }
   }
 
-  private async clearRecoveryBuffer(operationId: string): Promise<void> {
+  // Also called once an interrupted operation's text is stored elsewhere
+  async clearRecoveryBuffer(operationId: string): Promise<void> {
     try {
       await chrome.storage.local.remove(this.getRecoveryKey(operationId));
     } catch (error) {
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonResponse, sectionDraftsSchema } from './structured-output';
+
+describe('parseJsonResponse', () => {
+    it('keeps single-backslash LaTeX commands in otherwise valid JSON', () => {
+        const raw = String.raw`{"projects": "\textbf{Gitlytics} \today", "skills": "\begin{itemize} \frac{1}{2}", "experience": "\resumeItem{Built}\newline"}`;
+
+        const drafts = sectionDraftsSchema.parse(parseJsonResponse(raw));
+
+        expect(drafts).toEqual({
+            projects: String.raw`\textbf{Gitlytics} \today`,
+            skills: String.raw`\begin{itemize} \frac{1}{2}`,
+            experience: String.raw`\resumeItem{Built}\newline`,
+        });
+        expect(Object.values(drafts).join('')).not.toMatch(/[\t\b\f\r]/);
+    });
+
+    it('still reads JSON escapes', () => {
+        const raw = String.raw`{"projects": "line one\nline two", "skills": "\\textbf{Go}", "experience": "say \"hi\""}`;
+
+        expect(parseJsonResponse(raw)).toEqual({
+            projects: 'line one\nline two',
+            skills: String.raw`\textbf{Go}`,
+            experience: 'say "hi"',
+        });
+    });
+});
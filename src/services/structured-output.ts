@@ -0,0 +1,338 @@
+// ResumeForge AI – Structured Output Service
+// Typed response schemas, tolerant JSON repair and a bounded re-ask loop for
+// every prompt that expects the model to answer with JSON.
+
+import { STRUCTURED_OUTPUT_RETRY_PROMPT } from './prompts';
+import { throwIfAborted } from '@/lib/utils';
+
+// ─── Errors ──────────────────────────────────────────────────
+export class SchemaError extends Error {
+    constructor(message: string, public path: string) {
+        super(`${path}: ${message}`);
+        this.name = 'SchemaError';
+    }
+}
+
+export class StructuredOutputError extends Error {
+    constructor(message: string, public raw: string) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+// ─── Schemas ─────────────────────────────────────────────────
+type Parser<T> = (value: unknown, path: string) => T;
+
+export class Schema<T> {
+    constructor(private parser: Parser<T>) {}
+
+    parse(value: unknown, path = '$'): T {
+        return this.parser(value, path);
+    }
+
+    // Missing or null values become undefined instead of failing
+    optional(): Schema<T | undefined> {
+        return new Schema((value, path) => (value == null ? undefined : this.parse(value, path)));
+    }
+
+    // Missing or null values fall back to the given default
+    default(fallback: T): Schema<T> {
+        return new Schema((value, path) => (value == null ? fallback : this.parse(value, path)));
+    }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+    throw new SchemaError(`expected ${expected}, got ${describeValue(value)}`, path);
+}
+
+export const s = {
+    string(): Schema<string> {
+        return new Schema((value, path) => {
+            if (typeof value === 'string') return value;
+            if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+            return fail(path, 'a string', value);
+        });
+    },
+
+    number(range: { min?: number; max?: number } = {}): Schema<number> {
+        return new Schema((value, path) => {
+            // Models regularly quote numbers ("85"), so accept numeric strings
+            const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof num !== 'number' || Number.isNaN(num)) return fail(path, 'a number', value);
+            if (range.min !== undefined && num < range.min) {
+                throw new SchemaError(`expected a number >= ${range.min}, got ${num}`, path);
+            }
+            if (range.max !== undefined && num > range.max) {
+                throw new SchemaError(`expected a number <= ${range.max}, got ${num}`, path);
+            }
+            return num;
+        });
+    },
+
+    boolean(): Schema<boolean> {
+        return new Schema((value, path) => {
+            if (typeof value === 'boolean') return value;
+            if (value === 'true' || value === 'false') return value === 'true';
+            return fail(path, 'a boolean', value);
+        });
+    },
+
+    enum<T extends string>(values: readonly T[]): Schema<T> {
+        return new Schema((value, path) => {
+            const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+            const match = values.find((v) => v.toLowerCase() === normalized);
+            if (match === undefined) return fail(path, `one of ${values.map((v) => `"${v}"`).join(', ')}`, value);
+            return match;
+        });
+    },
+
+    array<T>(item: Schema<T>): Schema<T[]> {
+        return new Schema((value, path) => {
+            if (!Array.isArray(value)) return fail(path, 'an array', value);
+            return value.map((entry, i) => item.parse(entry, `${path}[${i}]`));
+        });
+    },
+
+    object<S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+        return new Schema((value, path) => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return fail(path, 'an object', value);
+            }
+            const source = value as Record<string, unknown>;
+            const result = {} as { [K in keyof S]: Infer<S[K]> };
+            for (const key of Object.keys(shape) as (keyof S & string)[]) {
+                result[key] = shape[key].parse(source[key], `${path}.${key}`);
+            }
+            return result;
+        });
+    },
+};
+
+// ─── Response Schemas ────────────────────────────────────────
+export const jobAnalysisSchema = s.object({
+    requiredTechnologies: s.array(s.string()),
+    relevantProjects: s.array(s.object({
+        projectName: s.string(),
+        technologies: s.array(s.string()).default([]),
+        relevanceScore: s.number({ min: 0, max: 100 }).default(0),
+        keyMetrics: s.array(s.string()).default([]),
+    })).default([]),
+    keyMetrics: s.array(s.string()).default([]),
+    experienceRequirements: s.array(s.string()).default([]),
+    optimizationTasks: s.array(s.object({
+        section: s.enum(['projects', 'skills', 'experience'] as const),
+        task: s.string(),
+        priority: s.number({ min: 1, max: 5 }).default(3),
+    })).default([]),
+});
+export type JobAnalysis = Infer<typeof jobAnalysisSchema>;
+
+export const sectionDraftsSchema = s.object({
+    projects: s.string(),
+    skills: s.string(),
+    experience: s.string(),
+});
+export type SectionDrafts = Infer<typeof sectionDraftsSchema>;
+
+export const tailoringChangelogSchema = s.object({
+    changes: s.array(s.object({
+        change: s.number({ min: 0 }),
+        summary: s.string().default(''),
+        requirement: s.string().default(''),
+        sourceId: s.string().default(''),
+    })).default([]),
+});
+export type TailoringChangelogResponse = Infer<typeof tailoringChangelogSchema>;
+
+export const fitGapIdeasSchema = s.object({
+    ideas: s.array(s.object({
+        gap: s.number({ min: 0 }),
+        idea: s.string().default(''),
+    })).default([]),
+});
+
+export const resumeProfileSchema = s.object({
+    fullName: s.string().default(''),
+    firstName: s.string().default(''),
+    lastName: s.string().default(''),
+    email: s.string().default(''),
+    phone: s.string().default(''),
+    linkedinUrl: s.string().default(''),
+    githubUrl: s.string().default(''),
+    portfolioUrl: s.string().default(''),
+    location: s.string().default(''),
+    city: s.string().default(''),
+    state: s.string().default(''),
+    country: s.string().default(''),
+    currentTitle: s.string().default(''),
+    university: s.string().default(''),
+    highestDegree: s.string().default(''),
+});
+export type ResumeProfile = Infer<typeof resumeProfileSchema>;
+
+export const answerAnalysisSchema = s.object({
+    score: s.number({ min: 0, max: 100 }),
+    feedback: s.string(),
+    suggestions: s.array(s.string()).default([]),
+});
+export type AnswerAnalysis = Infer<typeof answerAnalysisSchema>;
+
+// ─── JSON Repair ─────────────────────────────────────────────
+// Strip code fences and surrounding prose, drop trailing commas, escape raw
+// newlines and stray LaTeX backslashes inside strings, and close anything a
+// truncated response left open.
+export function repairJson(raw: string): string {
+    let text = raw.trim();
+    const fence = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+    if (fence) text = fence[1];
+
+    const start = text.search(/[{[]/);
+    if (start === -1) throw new StructuredOutputError('Response did not contain a JSON object', raw);
+    text = text.slice(start);
+
+    let out = '';
+    const closers: string[] = [];
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inString) {
+            if (ch === '\\') {
+                if (i + 1 >= text.length) break;
+                if (isJsonEscape(text, i + 1)) {
+                    out += ch + text[i + 1];
+                    i++;
+                } else {
+                    out += '\\\\';
+                }
+            } else if (ch === '\n') {
+                out += '\\n';
+            } else if (ch === '\t') {
+                out += '\\t';
+            } else if (ch !== '\r') {
+                if (ch === '"') inString = false;
+                out += ch;
+            }
+            continue;
+        }
+
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            closers.push(ch === '{' ? '}' : ']');
+        } else if (ch === '}' || ch === ']') {
+            out = out.replace(/,\s*$/, '');
+            closers.pop();
+            out += ch;
+            // Anything after the outermost value is commentary
+            if (closers.length === 0) return out;
+            continue;
+        }
+        out += ch;
+    }
+
+    // Truncated output: close the open string, drop a dangling key or comma,
+    // then close every open object and array
+    if (inString) out += '"';
+    out = out.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '');
+    if (closers[closers.length - 1] === '}') {
+        out = out.replace(/,\s*"(?:[^"\\]|\\.)*"\s*$/, '').replace(/\{\s*"(?:[^"\\]|\\.)*"\s*$/, '{');
+    }
+    out = out.replace(/[,:]\s*$/, '');
+    while (closers.length) out += closers.pop();
+    return out;
+}
+
+// Single backslashes in model output are usually LaTeX commands (\section,
+// \textbf) rather than JSON escapes, so only accept escapes that cannot be one.
+function isJsonEscape(text: string, index: number): boolean {
+    const ch = text[index];
+    if (ch === '"' || ch === '\\' || ch === '/') return true;
+    if (ch === 'u') return /^[0-9a-fA-F]{4}/.test(text.slice(index + 1, index + 5));
+    if (ch === 'n') return !/^n(ewline|oindent|ormalsize|ewcommand|ewpage|ewenvironment)\b/.test(text.slice(index));
+    if ('bfrt'.includes(ch)) return !/[a-zA-Z]/.test(text[index + 1] || '');
+    return false;
+}
+
+// Valid JSON can still hide LaTeX: "\textbf" parses as a tab and "extbf"
+function hasLatexEscapes(text: string): boolean {
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] !== '\\') continue;
+        if (!isJsonEscape(text, i + 1)) return true;
+        i++;
+    }
+    return false;
+}
+
+export function parseJsonResponse(raw: string): unknown {
+    if (!hasLatexEscapes(raw)) {
+        try {
+            return JSON.parse(raw.trim());
+        } catch {
+            // Fall through to repair
+        }
+    }
+
+    const repaired = repairJson(raw);
+    try {
+        return JSON.parse(repaired);
+    } catch (error: any) {
+        throw new StructuredOutputError(`Response is not valid JSON (${error.message})`, raw);
+    }
+}
+
+// ─── Generate With Re-ask ────────────────────────────────────
+export interface StructuredRequest<T> {
+    prompt: string;
+    schema: Schema<T>;
+    generate: (prompt: string) => Promise<string>;
+    maxAttempts?: number;
+    signal?: AbortSignal;
+}
+
+// Ask for JSON, validate it, and on failure send the validation error back
+// to the model. Gives up with a StructuredOutputError after maxAttempts.
+export async function generateStructured<T>({
+    prompt,
+    schema,
+    generate,
+    maxAttempts = 3,
+    signal,
+}: StructuredRequest<T>): Promise<T> {
+    let currentPrompt = prompt;
+    let lastError = '';
+    let lastRaw = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        throwIfAborted(signal);
+        const raw = await generate(currentPrompt);
+
+        try {
+            return schema.parse(parseJsonResponse(raw));
+        } catch (error: any) {
+            if (!(error instanceof SchemaError || error instanceof StructuredOutputError)) throw error;
+            lastError = error.message;
+            lastRaw = raw;
+            console.warn(`[StructuredOutput] Attempt ${attempt}/${maxAttempts} invalid: ${lastError}`);
+
+            currentPrompt = STRUCTURED_OUTPUT_RETRY_PROMPT
+                .replace('{originalPrompt}', () => prompt)
+                .replace('{previousResponse}', () => raw.slice(0, 6000))
+                .replace('{validationError}', () => lastError);
+        }
+    }
+
+    throw new StructuredOutputError(
+        `AI returned invalid JSON after ${maxAttempts} attempts: ${lastError}`,
+        lastRaw
+    );
+}
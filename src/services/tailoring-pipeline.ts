@@ -0,0 +1,420 @@
+// ResumeForge AI – Tailoring Pipeline
+// Configurable multi-agent tailoring: job analysis, section rewriting
+// (combined, sequential or parallel) and a final polish. Every step records
+// its prompt and output so bad tailoring can be traced to a step.
+
+import {
+    JOB_ANALYSIS_PROMPT,
+    PROJECTS_OPTIMIZATION_PROMPT,
+    SKILLS_ENHANCEMENT_PROMPT,
+    EXPERIENCE_REFINEMENT_PROMPT,
+    SECTIONS_DRAFTING_PROMPT,
+    FINAL_POLISH_PROMPT,
+    PAGE_FIT_PROMPT,
+    TAILORING_CONSTRAINTS_PROMPT,
+    TAILORING_INTENSITY_GUIDANCE,
+} from './prompts';
+import { jobAnalysisSchema, sectionDraftsSchema, type JobAnalysis, type Schema } from './structured-output';
+import type { PipelineMode, PipelineSection, TailoringIntensity, UserSettings } from './storage-service';
+import { throwIfAborted } from '@/lib/utils';
+import { getSections, parseLatex, type LatexSection } from '@/lib/latex-parser';
+import { describeLockedSections, sectionLockKey } from '@/lib/section-locks';
+import { canonicalSkillNames, groupSkillsByCategory, normalizeSkill } from '@/lib/skills-taxonomy';
+import { describePageEstimate, estimatePages, rankBulletsForTrim, type PageEstimate } from '@/lib/page-fit';
+
+export type PipelineStepKind = 'analysis' | 'drafting' | 'section' | 'polish' | 'fit';
+
+export interface PipelineStep {
+    id: string;
+    kind: PipelineStepKind;
+    label: string;
+    template: string;
+    section?: PipelineSection;
+    // Page limit for the fit step
+    targetPages?: number;
+}
+
+// Steps in a stage run together; stages run one after another
+export interface PipelineStage {
+    parallel: boolean;
+    steps: PipelineStep[];
+}
+
+export interface PipelineDefinition {
+    sections: PipelineSection[];
+    mode: PipelineMode;
+    stages: PipelineStage[];
+}
+
+export type PipelineStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface PipelineStepState {
+    id: string;
+    label: string;
+    status: PipelineStepStatus;
+    prompt?: string;
+    output?: string;
+    error?: string;
+    durationMs?: number;
+    // Output came from a checkpoint of an earlier attempt
+    restored?: boolean;
+}
+
+export interface PipelineInput {
+    originalLatex: string;
+    jobDesc: string;
+    knowledgeBase: string;
+    intensity?: TailoringIntensity;
+    lockedSections?: string[];
+}
+
+export interface PipelineIO {
+    generate: (prompt: string) => Promise<string>;
+    generateJson: <T>(prompt: string, schema: Schema<T>) => Promise<T>;
+    onUpdate?: (steps: PipelineStepState[], active: PipelineStepState) => void;
+    // Called after every finished step with everything needed to resume
+    onCheckpoint?: (vars: Record<string, string>, steps: PipelineStepState[]) => Promise<void>;
+    // Page count of a draft for the fit step; the line-budget estimate when omitted
+    measurePages?: (latex: string) => Promise<PageEstimate>;
+    signal?: AbortSignal;
+}
+
+export interface PipelineRestorePoint {
+    vars: Record<string, string>;
+    steps: PipelineStepState[];
+}
+
+export interface PipelineResult {
+    latex: string;
+    steps: PipelineStepState[];
+    // Length of the result as last measured by the fit step
+    pages?: PageEstimate;
+}
+
+export const PIPELINE_SECTIONS: PipelineSection[] = ['projects', 'skills', 'experience'];
+export const DEFAULT_PIPELINE_MODE: PipelineMode = 'parallel';
+export const DEFAULT_TAILORING_INTENSITY: TailoringIntensity = 'moderate';
+// Trimming passes before the fit step gives up on the page target
+const MAX_FIT_ROUNDS = 3;
+const TRIM_CANDIDATES = 8;
+
+// ─── Section Steps ───────────────────────────────────────────
+const SECTION_STEPS: Record<PipelineSection, {
+    title: string;
+    label: string;
+    originalVar: string;
+    resultVar: string;
+    template: string;
+    override: 'projectsOptimizationPrompt' | 'skillsEnhancementPrompt' | 'experienceRefinementPrompt';
+}> = {
+    projects: {
+        title: 'Projects',
+        label: 'Optimizing projects',
+        originalVar: 'originalProjects',
+        resultVar: 'optimizedProjects',
+        template: PROJECTS_OPTIMIZATION_PROMPT,
+        override: 'projectsOptimizationPrompt',
+    },
+    skills: {
+        title: 'Skills',
+        label: 'Enhancing skills',
+        originalVar: 'originalSkills',
+        resultVar: 'enhancedSkills',
+        template: SKILLS_ENHANCEMENT_PROMPT,
+        override: 'skillsEnhancementPrompt',
+    },
+    experience: {
+        title: 'Experience',
+        label: 'Refining experience',
+        originalVar: 'originalExperience',
+        resultVar: 'refinedExperience',
+        template: EXPERIENCE_REFINEMENT_PROMPT,
+        override: 'experienceRefinementPrompt',
+    },
+};
+
+// ─── Definition ──────────────────────────────────────────────
+// Build the pipeline from settings, preferring user prompt overrides
+export function buildTailoringPipeline(settings: UserSettings): PipelineDefinition {
+    const selected = settings.pipelineSections ?? PIPELINE_SECTIONS;
+    const sections = PIPELINE_SECTIONS.filter((section) => selected.includes(section));
+    const mode = settings.pipelineMode ?? DEFAULT_PIPELINE_MODE;
+
+    const stages: PipelineStage[] = [{
+        parallel: false,
+        steps: [{
+            id: 'analysis',
+            kind: 'analysis',
+            label: 'Analyzing job requirements',
+            template: settings.jobAnalysisPrompt?.trim() || JOB_ANALYSIS_PROMPT,
+        }],
+    }];
+
+    if (sections.length > 0 && mode === 'combined') {
+        stages.push({
+            parallel: false,
+            steps: [{
+                id: 'drafting',
+                kind: 'drafting',
+                label: 'Drafting optimized sections',
+                template: SECTIONS_DRAFTING_PROMPT,
+            }],
+        });
+    } else if (sections.length > 0) {
+        stages.push({
+            parallel: mode === 'parallel',
+            steps: sections.map((section) => ({
+                id: section,
+                kind: 'section' as const,
+                label: SECTION_STEPS[section].label,
+                template: settings[SECTION_STEPS[section].override]?.trim() || SECTION_STEPS[section].template,
+                section,
+            })),
+        });
+    }
+
+    stages.push({
+        parallel: false,
+        steps: [{
+            id: 'polish',
+            kind: 'polish',
+            label: 'Assembling final resume',
+            template: settings.finalPolishPrompt?.trim() || FINAL_POLISH_PROMPT,
+        }],
+    });
+
+    if (settings.pageFitTarget) {
+        const pages = settings.pageFitTarget;
+        stages.push({
+            parallel: false,
+            steps: [{
+                id: 'fit',
+                kind: 'fit',
+                label: `Fitting to ${pages} page${pages === 1 ? '' : 's'}`,
+                template: PAGE_FIT_PROMPT,
+                targetPages: pages,
+            }],
+        });
+    }
+
+    return { sections, mode, stages };
+}
+
+export function countPipelineSteps(definition: PipelineDefinition): number {
+    return definition.stages.reduce((total, stage) => total + stage.steps.length, 0);
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+// The named \section, preferring an exact title over "Technical Skills"-style matches
+function findSection(latex: string, sectionName: string): LatexSection | undefined {
+    const { sections } = getSections(parseLatex(latex));
+    const name = sectionName.toLowerCase();
+    return (
+        sections.find((s) => s.title.toLowerCase() === name) ||
+        sections.find((s) => s.title.toLowerCase().includes(name))
+    );
+}
+
+export function extractSection(latex: string, sectionName: string): string | null {
+    const section = findSection(latex, sectionName);
+    return section ? latex.slice(section.bodyStart, section.end).trim() || null : null;
+}
+
+// Intensity and locked sections, appended to every prompt that rewrites content
+export function buildTailoringConstraints(
+    originalLatex: string,
+    intensity: TailoringIntensity = DEFAULT_TAILORING_INTENSITY,
+    lockedSections: string[] = []
+): string {
+    return fillTemplate(TAILORING_CONSTRAINTS_PROMPT, {
+        intensityGuidance: TAILORING_INTENSITY_GUIDANCE[intensity],
+        lockedSections: describeLockedSections(originalLatex, lockedSections),
+    });
+}
+
+// Fill {placeholders} the pipeline knows about. Unknown groups such as
+// \section{Projects} in a template are left untouched.
+export function fillTemplate(template: string, vars: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in vars ? vars[key] : match));
+}
+
+// Skills the job names, under canonical names grouped by parent category
+function skillsByCategory(jobDesc: string, technologies: string[] = []): string {
+    const names = canonicalSkillNames(`${jobDesc}\n${technologies.join(', ')}`);
+    return groupSkillsByCategory(names)
+        .map((group) => `${group.label}: ${group.skills.join(', ')}`)
+        .join('\n') || 'None';
+}
+
+function analysisVars(analysis: JobAnalysis, jobDesc: string): Record<string, string> {
+    const list = (items: string[]) => items.join(', ') || 'None';
+    // "JS" and "JavaScript" from the model collapse into one technology
+    const technologies = [...new Set(analysis.requiredTechnologies.map((t) => normalizeSkill(t)?.name ?? t))];
+    return {
+        analysisJSON: JSON.stringify(analysis, null, 2),
+        analysisProjects: analysis.relevantProjects
+            .map((p) => `${p.projectName} (${p.technologies.join(', ')})`)
+            .join('; ') || 'None',
+        requiredTechnologies: list(technologies),
+        skillsByCategory: skillsByCategory(jobDesc, technologies),
+        keyMetrics: list(analysis.keyMetrics),
+        experienceRequirements: list(analysis.experienceRequirements),
+    };
+}
+
+// Bullets the fit step offers for trimming, least relevant to the job first
+function trimCandidateList(latex: string, input: PipelineInput): string {
+    return rankBulletsForTrim(latex, input.jobDesc, input.lockedSections)
+        .slice(0, TRIM_CANDIDATES)
+        .map((c) => `- (${c.section}) ${c.text}`)
+        .join('\n') || 'None';
+}
+
+// ─── Runner ──────────────────────────────────────────────────
+export async function runTailoringPipeline(
+    definition: PipelineDefinition,
+    input: PipelineInput,
+    io: PipelineIO,
+    restore?: PipelineRestorePoint
+): Promise<PipelineResult> {
+    const steps: PipelineStepState[] = definition.stages.flatMap((stage) =>
+        stage.steps.map((step) => ({ id: step.id, label: step.label, status: 'pending' as const }))
+    );
+
+    const vars: Record<string, string> = {
+        originalLatex: input.originalLatex,
+        jobDesc: input.jobDesc,
+        knowledgeBase: input.knowledgeBase || 'None',
+        skillsByCategory: skillsByCategory(input.jobDesc),
+    };
+    const constraints = buildTailoringConstraints(input.originalLatex, input.intensity, input.lockedSections);
+    const foundSections = new Set<PipelineSection>();
+    const lockedSections = new Set<PipelineSection>();
+    for (const section of PIPELINE_SECTIONS) {
+        const config = SECTION_STEPS[section];
+        const found = findSection(input.originalLatex, config.title);
+        const original = found ? input.originalLatex.slice(found.bodyStart, found.end).trim() || null : null;
+        if (original) foundSections.add(section);
+        if (found && input.lockedSections?.includes(sectionLockKey(found.title))) lockedSections.add(section);
+        vars[config.originalVar] = original ?? `\\section{${config.title}}\n% Section not found`;
+        // Sections that are not rewritten reach the polish step unchanged
+        vars[config.resultVar] = vars[config.originalVar];
+    }
+    if (restore) Object.assign(vars, restore.vars);
+
+    let pages: PageEstimate | undefined;
+    const measure = io.measurePages ?? (async (latex: string) => estimatePages(latex));
+
+    const execute = async (step: PipelineStep, state: PipelineStepState): Promise<string> => {
+        const prompt = state.prompt!;
+        switch (step.kind) {
+            case 'analysis': {
+                const analysis = await io.generateJson(prompt, jobAnalysisSchema);
+                Object.assign(vars, analysisVars(analysis, input.jobDesc));
+                return vars.analysisJSON;
+            }
+            case 'drafting': {
+                const drafts = await io.generateJson(prompt, sectionDraftsSchema);
+                for (const section of definition.sections) {
+                    if (lockedSections.has(section)) continue;
+                    const config = SECTION_STEPS[section];
+                    vars[config.resultVar] = drafts[section].trim() || vars[config.originalVar];
+                }
+                return JSON.stringify(drafts, null, 2);
+            }
+            case 'section': {
+                const config = SECTION_STEPS[step.section!];
+                const output = await io.generate(prompt);
+                vars[config.resultVar] = output.trim() || vars[config.originalVar];
+                return output;
+            }
+            case 'polish':
+                vars.finalLatex = await io.generate(prompt);
+                return vars.finalLatex;
+            case 'fit': {
+                // Measure, trim the least relevant bullets, measure again
+                const target = step.targetPages ?? 1;
+                let latex = vars.finalLatex;
+                for (let round = 0; ; round++) {
+                    pages = await measure(latex);
+                    if (pages.pages <= target || round === MAX_FIT_ROUNDS) break;
+                    throwIfAborted(io.signal);
+                    state.prompt = fillTemplate(step.template, {
+                        ...vars,
+                        currentLatex: latex,
+                        pageCount: describePageEstimate(pages),
+                        targetPages: `${target} page${target === 1 ? '' : 's'}`,
+                        trimCandidates: trimCandidateList(latex, input),
+                    }) + `\n\n${constraints}`;
+                    io.onUpdate?.(steps, state);
+                    latex = await io.generate(state.prompt);
+                }
+                vars.finalLatex = latex;
+                return latex;
+            }
+        }
+    };
+
+    const runStep = async (step: PipelineStep): Promise<void> => {
+        const state = steps.find((s) => s.id === step.id)!;
+        throwIfAborted(io.signal);
+
+        const saved = restore?.steps.find((s) => s.id === step.id);
+        if (saved && (saved.status === 'completed' || saved.status === 'skipped')) {
+            Object.assign(state, saved, { restored: true });
+            io.onUpdate?.(steps, state);
+            return;
+        }
+
+        if (step.kind === 'section' && !foundSections.has(step.section!)) {
+            state.status = 'skipped';
+            state.output = `No \\section{${SECTION_STEPS[step.section!].title}} found in the resume`;
+            io.onUpdate?.(steps, state);
+            return;
+        }
+
+        if (step.kind === 'section' && lockedSections.has(step.section!)) {
+            state.status = 'skipped';
+            state.output = `\\section{${SECTION_STEPS[step.section!].title}} is locked and passes through unchanged`;
+            io.onUpdate?.(steps, state);
+            return;
+        }
+
+        const startedAt = Date.now();
+        state.status = 'running';
+        // The fit step builds a prompt per trimming round
+        if (step.kind !== 'fit') {
+            state.prompt = fillTemplate(step.template, vars);
+            if (step.kind !== 'analysis') state.prompt += `\n\n${constraints}`;
+        }
+        io.onUpdate?.(steps, state);
+
+        try {
+            state.output = await execute(step, state);
+            state.status = 'completed';
+            state.durationMs = Date.now() - startedAt;
+            await io.onCheckpoint?.({ ...vars }, steps);
+        } catch (error: any) {
+            state.status = 'failed';
+            state.error = error.message || 'Step failed';
+            throw error;
+        } finally {
+            state.durationMs = Date.now() - startedAt;
+            io.onUpdate?.(steps, state);
+        }
+    };
+
+    for (const stage of definition.stages) {
+        if (stage.parallel) {
+            // Let every branch settle so each failure is recorded, then surface the first
+            const results = await Promise.allSettled(stage.steps.map(runStep));
+            const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+            if (failure) throw failure.reason;
+        } else {
+            for (const step of stage.steps) await runStep(step);
+        }
+    }
+
+    const polish = steps.find((s) => s.id === 'polish');
+    return { latex: vars.finalLatex || polish?.output || '', steps, pages };
+}
@@ -1,9 +1,24 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { existsSync } from 'fs';
 import { resolve } from 'path';
 
+// The offline TeX engine is copied into public/engines by hand (it is not on
+// npm); say so when a build would ship without it
+function texEngineCheck(): Plugin {
+    return {
+        name: 'tex-engine-check',
+        apply: 'build',
+        buildStart() {
+            if (!existsSync(resolve(__dirname, 'public/engines/swiftlatexpdftex.js'))) {
+                this.warn('public/engines/swiftlatexpdftex.js not found – this build compiles PDFs only with the remote server, after asking the user');
+            }
+        },
+    };
+}
+
 export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), texEngineCheck()],
     resolve: {
         alias: {
             '@': resolve(__dirname, 'src'),
@@ -16,6 +31,7 @@ export default defineConfig({
             input: {
                 popup: resolve(__dirname, 'popup.html'),
                 sidepanel: resolve(__dirname, 'sidepanel.html'),
+                offscreen: resolve(__dirname, 'offscreen.html'),
                 background: resolve(__dirname, 'src/background.ts'),
                 autofill: resolve(__dirname, 'src/content-script.ts'),
             },